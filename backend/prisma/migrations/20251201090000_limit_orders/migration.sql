@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "OrderType" AS ENUM ('MARKET', 'LIMIT');
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "order_type" "OrderType" NOT NULL DEFAULT 'MARKET',
+ADD COLUMN     "limit_price" DECIMAL(20,8),
+ADD COLUMN     "expires_at" TIMESTAMPTZ(3),
+ADD COLUMN     "triggered_at" TIMESTAMPTZ(3);
+
+-- CreateIndex
+CREATE INDEX "orders_order_type_status_idx" ON "orders"("order_type", "status");
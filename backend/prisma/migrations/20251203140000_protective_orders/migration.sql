@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "ProtectiveOrderType" AS ENUM ('STOP_LOSS', 'TAKE_PROFIT');
+
+-- CreateTable
+CREATE TABLE "protective_orders" (
+    "id" UUID NOT NULL,
+    "parent_order_id" VARCHAR(255) NOT NULL,
+    "type" "ProtectiveOrderType" NOT NULL,
+    "trigger_price" DECIMAL(20,8) NOT NULL,
+    "token_in" VARCHAR(255) NOT NULL,
+    "token_out" VARCHAR(255) NOT NULL,
+    "amount_in" BIGINT NOT NULL,
+    "amount_out" BIGINT,
+    "status" "OrderStatus" NOT NULL,
+    "selected_dex" "DexType",
+    "executed_price" DECIMAL(20,8),
+    "tx_hash" VARCHAR(255),
+    "slippage" DECIMAL(5,4) NOT NULL,
+    "error_message" TEXT,
+    "triggered_at" TIMESTAMPTZ(3),
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "protective_orders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "protective_orders_parent_order_id_idx" ON "protective_orders"("parent_order_id");
+
+-- CreateIndex
+CREATE INDEX "protective_orders_status_idx" ON "protective_orders"("status");
+
+-- AddForeignKey
+ALTER TABLE "protective_orders" ADD CONSTRAINT "protective_orders_parent_order_id_fkey" FOREIGN KEY ("parent_order_id") REFERENCES "orders"("order_id") ON DELETE CASCADE ON UPDATE CASCADE;
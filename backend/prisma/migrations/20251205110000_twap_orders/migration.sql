@@ -0,0 +1,36 @@
+-- AlterEnum
+ALTER TYPE "OrderType" ADD VALUE 'TWAP';
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "twap_slices" INTEGER,
+ADD COLUMN     "twap_interval_ms" INTEGER,
+ADD COLUMN     "filled_amount_in" BIGINT;
+
+-- CreateTable
+CREATE TABLE "twap_slices" (
+    "id" UUID NOT NULL,
+    "order_id" VARCHAR(255) NOT NULL,
+    "slice_index" INTEGER NOT NULL,
+    "amount_in" BIGINT NOT NULL,
+    "amount_out" BIGINT,
+    "status" "OrderStatus" NOT NULL,
+    "selected_dex" "DexType",
+    "executed_price" DECIMAL(20,8),
+    "tx_hash" VARCHAR(255),
+    "error_message" TEXT,
+    "retry_count" INTEGER NOT NULL DEFAULT 0,
+    "scheduled_at" TIMESTAMPTZ(3) NOT NULL,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "twap_slices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "twap_slices_order_id_idx" ON "twap_slices"("order_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "twap_slices_order_id_slice_index_key" ON "twap_slices"("order_id", "slice_index");
+
+-- AddForeignKey
+ALTER TABLE "twap_slices" ADD CONSTRAINT "twap_slices_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("order_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "quote_history" ADD COLUMN     "leg_index" INTEGER,
+ADD COLUMN     "tx_hash" VARCHAR(255);
@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "DexType" ADD VALUE 'ORCA';
@@ -0,0 +1,22 @@
+-- AlterEnum
+ALTER TYPE "OrderStatus" ADD VALUE 'RETRYING';
+ALTER TYPE "OrderStatus" ADD VALUE 'EXPIRED';
+
+-- CreateTable
+CREATE TABLE "order_events" (
+    "id" UUID NOT NULL,
+    "order_id" VARCHAR(255) NOT NULL,
+    "from_status" "OrderStatus",
+    "to_status" "OrderStatus" NOT NULL,
+    "attempt" INTEGER,
+    "payload" JSONB,
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "order_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "order_events_order_id_created_at_idx" ON "order_events"("order_id", "created_at");
+
+-- AddForeignKey
+ALTER TABLE "order_events" ADD CONSTRAINT "order_events_order_id_fkey" FOREIGN KEY ("order_id") REFERENCES "orders"("order_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "idempotency_key" VARCHAR(255),
+ADD COLUMN     "request_hash" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "orders_user_wallet_idempotency_key_key" ON "orders"("user_wallet", "idempotency_key");
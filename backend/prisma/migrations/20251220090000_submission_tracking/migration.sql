@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "expected_amount_out" BIGINT,
+ADD COLUMN     "last_valid_block_height" BIGINT;
+
+-- AlterTable
+ALTER TABLE "quote_history" ADD COLUMN     "last_valid_block_height" BIGINT;
+
+-- AlterTable
+ALTER TABLE "twap_slices" ADD COLUMN     "expected_amount_out" BIGINT,
+ADD COLUMN     "last_valid_block_height" BIGINT;
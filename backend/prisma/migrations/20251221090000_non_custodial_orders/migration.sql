@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "non_custodial" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "unsigned_transaction" TEXT;
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "ApiKeyScope" AS ENUM ('QUOTE', 'TRADE', 'READ', 'ADMIN');
+
+-- CreateTable
+CREATE TABLE "api_keys" (
+    "id" UUID NOT NULL,
+    "name" VARCHAR(255) NOT NULL,
+    "key_prefix" VARCHAR(16) NOT NULL,
+    "key_hash" VARCHAR(64) NOT NULL,
+    "scopes" "ApiKeyScope"[],
+    "wallet" VARCHAR(255),
+    "rate_limit" INTEGER NOT NULL,
+    "request_count" BIGINT NOT NULL DEFAULT 0,
+    "rate_limited_count" BIGINT NOT NULL DEFAULT 0,
+    "last_used_at" TIMESTAMPTZ(3),
+    "revoked_at" TIMESTAMPTZ(3),
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "api_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "api_keys_key_hash_key" ON "api_keys"("key_hash");
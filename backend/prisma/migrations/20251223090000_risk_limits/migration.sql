@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "notional" BIGINT;
+
+-- CreateTable
+CREATE TABLE "wallet_risk_limits" (
+    "wallet" VARCHAR(255) NOT NULL,
+    "max_order_notional" BIGINT,
+    "max_daily_notional" BIGINT,
+    "max_open_orders" INTEGER,
+    "max_slippage" DECIMAL(5,4),
+    "allowed_tokens" TEXT[],
+    "created_at" TIMESTAMPTZ(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(3) NOT NULL,
+
+    CONSTRAINT "wallet_risk_limits_pkey" PRIMARY KEY ("wallet")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_user_wallet_created_at_idx" ON "orders"("user_wallet", "created_at");
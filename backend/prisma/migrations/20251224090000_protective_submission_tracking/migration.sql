@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "protective_orders" ADD COLUMN     "expected_amount_out" BIGINT,
+ADD COLUMN     "last_valid_block_height" BIGINT;
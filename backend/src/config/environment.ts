@@ -22,6 +22,15 @@ const envSchema = z.object({
   BULL_BOARD_USERNAME: z.string().default('admin'),
   BULL_BOARD_PASSWORD: z.string().default('admin123'),
 
+  // Admin API (/api/admin); disabled when unset
+  ADMIN_API_KEY: z.string().optional(),
+
+  // Wallet sign-in (/api/auth) for order routes and WebSocket subscriptions
+  AUTH_REQUIRED: z.string().default('true'),
+  AUTH_DOMAIN: z.string().default('localhost:3000'),
+  AUTH_NONCE_TTL_SECONDS: z.string().default('300'),
+  AUTH_SESSION_TTL_SECONDS: z.string().default('86400'),
+
   // Logging
   LOG_LEVEL: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
   LOG_FORMAT: z.enum(['json', 'pretty']).default('json'),
@@ -29,6 +38,7 @@ const envSchema = z.object({
   // API Rate Limiting
   RATE_LIMIT_WINDOW_MS: z.string().default('60000'),
   RATE_LIMIT_MAX_REQUESTS: z.string().default('100'),
+  RATE_LIMIT_ANONYMOUS_MAX_REQUESTS: z.string().default('10'),
 
   // Order Processing
   MAX_CONCURRENT_ORDERS: z.string().default('10'),
@@ -36,16 +46,53 @@ const envSchema = z.object({
   ORDER_RETRY_ATTEMPTS: z.string().default('3'),
   ORDER_TIMEOUT_MS: z.string().default('30000'),
 
+  // Reconciliation of swaps interrupted after submission
+  RECONCILE_INTERVAL_MS: z.string().default('30000'),
+  RECONCILE_STALE_AFTER_MS: z.string().default('120000'),
+
+  // Limit Orders
+  LIMIT_ORDER_POLL_INTERVAL_MS: z.string().default('5000'),
+
+  // Protective Orders (stop-loss / take-profit)
+  PROTECTIVE_ORDER_POLL_INTERVAL_MS: z.string().default('5000'),
+
+  // Quotes (GET /api/quote)
+  QUOTE_TTL_SECONDS: z.string().default('15'),
+
+  // Quote cache in front of the venue fan-out
+  QUOTE_CACHE_ENABLED: z.string().default('true'),
+  QUOTE_CACHE_TTL_MS: z.string().default('2000'),
+  QUOTE_CACHE_BUCKET_BPS: z.string().default('50'),
+
+  // Idempotency-Key on POST /api/orders
+  IDEMPOTENCY_KEY_TTL_HOURS: z.string().default('24'),
+
   // Slippage Configuration
   DEFAULT_SLIPPAGE: z.string().default('0.01'),
   MAX_SLIPPAGE: z.string().default('0.05'),
 
+  // Risk limits
+  RISK_NOTIONAL_TOKEN: z.string().default('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'),
+  RISK_MAX_ORDER_NOTIONAL: z.string().default('0'),
+  RISK_MAX_DAILY_NOTIONAL: z.string().default('0'),
+  RISK_MAX_OPEN_ORDERS: z.string().default('0'),
+  RISK_ALLOWED_TOKENS: z.string().default(''),
+
   // Priority Fees
   PRIORITY_FEE_MICRO_LAMPORTS: z.string().default('50000'),
   COMPUTE_UNIT_LIMIT: z.string().default('400000'),
 
   // DEX Configuration
   USE_REAL_DEX: z.string().default('false'),
+  RAYDIUM_EXECUTION_MODE: z.enum(['simulated', 'sdk']).default('simulated'),
+  RAYDIUM_POOL_IDS: z.string().default(''),
+  RAYDIUM_CLUSTER: z.enum(['mainnet', 'devnet']).default('devnet'),
+  METEORA_EXECUTION_MODE: z.enum(['simulated', 'sdk']).default('simulated'),
+  METEORA_POOL_IDS: z.string().default(''),
+  METEORA_CLUSTER: z.enum(['mainnet-beta', 'devnet', 'localhost']).default('devnet'),
+  // Left empty for non-deterministic runs, which coercion alone would read as seed 0
+  MOCK_DEX_SEED: z.preprocess((value) => (value === '' ? undefined : value), z.coerce.number().int().optional()),
+  SWAP_PREFLIGHT_ENABLED: z.string().default('true'),
 });
 
 const parsedEnv = envSchema.safeParse(process.env);
@@ -75,6 +122,15 @@ export const env = {
   BULL_BOARD_USERNAME: parsedEnv.data.BULL_BOARD_USERNAME,
   BULL_BOARD_PASSWORD: parsedEnv.data.BULL_BOARD_PASSWORD,
 
+  // Admin API (/api/admin); disabled when unset
+  ADMIN_API_KEY: parsedEnv.data.ADMIN_API_KEY || undefined,
+
+  // Wallet sign-in (/api/auth) for order routes and WebSocket subscriptions
+  AUTH_REQUIRED: parsedEnv.data.AUTH_REQUIRED === 'true',
+  AUTH_DOMAIN: parsedEnv.data.AUTH_DOMAIN,
+  AUTH_NONCE_TTL_SECONDS: parseInt(parsedEnv.data.AUTH_NONCE_TTL_SECONDS, 10),
+  AUTH_SESSION_TTL_SECONDS: parseInt(parsedEnv.data.AUTH_SESSION_TTL_SECONDS, 10),
+
   // Logging
   LOG_LEVEL: parsedEnv.data.LOG_LEVEL,
   LOG_FORMAT: parsedEnv.data.LOG_FORMAT,
@@ -82,6 +138,7 @@ export const env = {
   // API Rate Limiting
   RATE_LIMIT_WINDOW_MS: parseInt(parsedEnv.data.RATE_LIMIT_WINDOW_MS, 10),
   RATE_LIMIT_MAX_REQUESTS: parseInt(parsedEnv.data.RATE_LIMIT_MAX_REQUESTS, 10),
+  RATE_LIMIT_ANONYMOUS_MAX_REQUESTS: parseInt(parsedEnv.data.RATE_LIMIT_ANONYMOUS_MAX_REQUESTS, 10),
 
   // Order Processing
   MAX_CONCURRENT_ORDERS: parseInt(parsedEnv.data.MAX_CONCURRENT_ORDERS, 10),
@@ -89,16 +146,53 @@ export const env = {
   ORDER_RETRY_ATTEMPTS: parseInt(parsedEnv.data.ORDER_RETRY_ATTEMPTS, 10),
   ORDER_TIMEOUT_MS: parseInt(parsedEnv.data.ORDER_TIMEOUT_MS, 10),
 
+  // Reconciliation of swaps interrupted after submission
+  RECONCILE_INTERVAL_MS: parseInt(parsedEnv.data.RECONCILE_INTERVAL_MS, 10),
+  RECONCILE_STALE_AFTER_MS: parseInt(parsedEnv.data.RECONCILE_STALE_AFTER_MS, 10),
+
+  // Limit Orders
+  LIMIT_ORDER_POLL_INTERVAL_MS: parseInt(parsedEnv.data.LIMIT_ORDER_POLL_INTERVAL_MS, 10),
+
+  // Protective Orders (stop-loss / take-profit)
+  PROTECTIVE_ORDER_POLL_INTERVAL_MS: parseInt(parsedEnv.data.PROTECTIVE_ORDER_POLL_INTERVAL_MS, 10),
+
+  // Quotes (GET /api/quote)
+  QUOTE_TTL_SECONDS: parseInt(parsedEnv.data.QUOTE_TTL_SECONDS, 10),
+
+  // Quote cache in front of the venue fan-out
+  QUOTE_CACHE_ENABLED: parsedEnv.data.QUOTE_CACHE_ENABLED === 'true',
+  QUOTE_CACHE_TTL_MS: parseInt(parsedEnv.data.QUOTE_CACHE_TTL_MS, 10),
+  QUOTE_CACHE_BUCKET_BPS: parseInt(parsedEnv.data.QUOTE_CACHE_BUCKET_BPS, 10),
+
+  // Idempotency-Key on POST /api/orders
+  IDEMPOTENCY_KEY_TTL_HOURS: parseInt(parsedEnv.data.IDEMPOTENCY_KEY_TTL_HOURS, 10),
+
   // Slippage Configuration
   DEFAULT_SLIPPAGE: parseFloat(parsedEnv.data.DEFAULT_SLIPPAGE),
   MAX_SLIPPAGE: parseFloat(parsedEnv.data.MAX_SLIPPAGE),
 
+  // Risk limits per wallet, unless overridden for it; 0 (or no tokens) means no limit
+  RISK_NOTIONAL_TOKEN: parsedEnv.data.RISK_NOTIONAL_TOKEN,
+  RISK_MAX_ORDER_NOTIONAL: BigInt(parsedEnv.data.RISK_MAX_ORDER_NOTIONAL),
+  RISK_MAX_DAILY_NOTIONAL: BigInt(parsedEnv.data.RISK_MAX_DAILY_NOTIONAL),
+  RISK_MAX_OPEN_ORDERS: parseInt(parsedEnv.data.RISK_MAX_OPEN_ORDERS, 10),
+  RISK_ALLOWED_TOKENS: parsedEnv.data.RISK_ALLOWED_TOKENS.split(',').map((token) => token.trim()).filter(Boolean),
+
   // Priority Fees
   PRIORITY_FEE_MICRO_LAMPORTS: parseInt(parsedEnv.data.PRIORITY_FEE_MICRO_LAMPORTS, 10),
   COMPUTE_UNIT_LIMIT: parseInt(parsedEnv.data.COMPUTE_UNIT_LIMIT, 10),
 
   // DEX Configuration
   USE_REAL_DEX: parsedEnv.data.USE_REAL_DEX === 'true',
+  RAYDIUM_EXECUTION_MODE: parsedEnv.data.RAYDIUM_EXECUTION_MODE,
+  RAYDIUM_POOL_IDS: parsedEnv.data.RAYDIUM_POOL_IDS.split(',').map((id) => id.trim()).filter(Boolean),
+  RAYDIUM_CLUSTER: parsedEnv.data.RAYDIUM_CLUSTER,
+  METEORA_EXECUTION_MODE: parsedEnv.data.METEORA_EXECUTION_MODE,
+  METEORA_POOL_IDS: parsedEnv.data.METEORA_POOL_IDS.split(',').map((id) => id.trim()).filter(Boolean),
+  METEORA_CLUSTER: parsedEnv.data.METEORA_CLUSTER,
+  // Balance and token-account checks before a swap is built (hybrid mode only)
+  SWAP_PREFLIGHT_ENABLED: parsedEnv.data.SWAP_PREFLIGHT_ENABLED === 'true',
+  MOCK_DEX_SEED: parsedEnv.data.MOCK_DEX_SEED,
 
   // Helper
   IS_PRODUCTION: parsedEnv.data.NODE_ENV === 'production',
@@ -0,0 +1,241 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import type { OrderStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import {
+  validateInput,
+  deadLetterQuerySchema,
+  replayDeadLetterSchema,
+  createApiKeySchema,
+  apiKeyParamsSchema,
+  walletParamsSchema,
+  walletRiskLimitsSchema,
+} from '../utils/validation';
+import { DeadLetterNotFoundError, DexEngineError, UnauthorizedError } from '../utils/errors';
+import { logger } from '../utils/logger';
+import { requireScope } from './auth';
+import type { ApiKeyItem, DeadLetterItem, DeadLetterJobData, PaginatedResponse } from '../types';
+
+/**
+ * Require an API key with the admin scope, or "Authorization: Bearer <ADMIN_API_KEY>"
+ * compared in constant time
+ */
+async function requireAdmin(request: FastifyRequest): Promise<void> {
+  if (request.apiKey) {
+    requireScope(request, 'ADMIN');
+    return;
+  }
+
+  if (!env.ADMIN_API_KEY) {
+    throw new DexEngineError('Admin API is disabled', 'ADMIN_DISABLED', 503, false);
+  }
+
+  const header = request.headers.authorization ?? '';
+  const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+
+  if (!timingSafeEqual(digest(token), digest(env.ADMIN_API_KEY))) {
+    throw new UnauthorizedError('Invalid admin API key');
+  }
+}
+
+function toDeadLetterItem(entry: DeadLetterJobData, orderStatus: OrderStatus | null): DeadLetterItem {
+  return {
+    jobId: entry.jobId,
+    jobName: entry.jobName,
+    orderId: entry.orderId,
+    sliceIndex: entry.sliceIndex ?? null,
+    orderStatus,
+    failedReason: entry.failedReason,
+    errorType: entry.errorType,
+    attemptsMade: entry.attemptsMade,
+    failedAt: new Date(entry.failedAt),
+  };
+}
+
+export async function registerAdminRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', requireAdmin);
+
+  const getServices = () => {
+    if (!fastify.services?.deadLetters || !fastify.services.orderProcessor || !fastify.services.apiKeyService || !fastify.services.riskManager) {
+      throw new DexEngineError('Order processor not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    return fastify.services;
+  };
+
+  /**
+   * GET /api/admin/dlq
+   * Jobs that ran out of attempts, most recent first
+   */
+  fastify.get('/dlq', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = validateInput(deadLetterQuerySchema, request.query);
+    const { deadLetters } = getServices();
+
+    const limit = query.limit || 20;
+    const offset = query.offset || 0;
+
+    const { entries, total } = await deadLetters.list(offset, limit);
+
+    const orders = await prisma.order.findMany({
+      where: { orderId: { in: entries.map((entry) => entry.orderId) } },
+      select: { orderId: true, status: true },
+    });
+    const statuses = new Map(orders.map((order) => [order.orderId, order.status]));
+
+    const response: PaginatedResponse<DeadLetterItem> = {
+      data: entries.map((entry) => toDeadLetterItem(entry, statuses.get(entry.orderId) ?? null)),
+      pagination: {
+        total,
+        limit,
+        offset,
+        hasMore: offset + limit < total,
+      },
+    };
+
+    reply.send(response);
+  });
+
+  /**
+   * GET /api/admin/dlq/:jobId
+   * A dead-lettered job with the data it was queued with
+   */
+  fastify.get('/dlq/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+    const { jobId } = request.params;
+    const { deadLetters } = getServices();
+
+    const entry = await deadLetters.get(jobId);
+    if (!entry) {
+      throw new DeadLetterNotFoundError(jobId);
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { orderId: entry.orderId },
+      select: { status: true },
+    });
+
+    const response: DeadLetterItem = {
+      ...toDeadLetterItem(entry, order?.status ?? null),
+      data: entry.data,
+    };
+
+    reply.send(response);
+  });
+
+  /**
+   * POST /api/admin/dlq/:jobId/replay
+   * Queue a dead-lettered order again from PENDING, optionally with a new slippage
+   */
+  fastify.post('/dlq/:jobId/replay', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+    const { jobId } = request.params;
+    const input = validateInput(replayDeadLetterSchema, request.body ?? {});
+    const { orderProcessor } = getServices();
+
+    const entry = await orderProcessor.replayDeadLetter(jobId, { slippage: input.slippage });
+
+    logger.info({ jobId, orderId: entry.orderId, slippage: input.slippage }, 'Admin replayed dead-lettered order');
+
+    reply.code(202).send({
+      jobId,
+      orderId: entry.orderId,
+      status: 'PENDING',
+      slippage: input.slippage ?? entry.data.slippage,
+    });
+  });
+
+  /**
+   * DELETE /api/admin/dlq/:jobId
+   * Discard a dead-lettered job; its order stays FAILED
+   */
+  fastify.delete('/dlq/:jobId', async (request: FastifyRequest<{ Params: { jobId: string } }>, reply: FastifyReply) => {
+    const { jobId } = request.params;
+    const { orderProcessor } = getServices();
+
+    const entry = await orderProcessor.discardDeadLetter(jobId);
+
+    logger.info({ jobId, orderId: entry.orderId }, 'Admin discarded dead-lettered job');
+
+    reply.send({ jobId, orderId: entry.orderId, discarded: true });
+  });
+
+  /**
+   * GET /api/admin/api-keys
+   * Issued API keys with their usage, newest first
+   */
+  fastify.get('/api-keys', async (_request: FastifyRequest, reply: FastifyReply) => {
+    const { apiKeyService } = getServices();
+
+    const response: { data: ApiKeyItem[] } = { data: await apiKeyService.list() };
+
+    reply.send(response);
+  });
+
+  /**
+   * POST /api/admin/api-keys
+   * Issue a key; the response is the only time the key itself is shown
+   */
+  fastify.post('/api-keys', async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = validateInput(createApiKeySchema, request.body);
+    const { apiKeyService } = getServices();
+
+    const apiKey = await apiKeyService.create(input);
+
+    reply.code(201).send(apiKey);
+  });
+
+  /**
+   * DELETE /api/admin/api-keys/:id
+   * Revoke a key; it is refused from the next request on
+   */
+  fastify.delete('/api-keys/:id', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { id } = validateInput(apiKeyParamsSchema, request.params);
+    const { apiKeyService } = getServices();
+
+    const apiKey = await apiKeyService.revoke(id);
+
+    reply.send(apiKey);
+  });
+
+  /**
+   * GET /api/admin/risk-limits/:wallet
+   * Limits that apply to a wallet and its usage of them
+   */
+  fastify.get('/risk-limits/:wallet', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { wallet } = validateInput(walletParamsSchema, request.params);
+    const { riskManager } = getServices();
+
+    reply.send(await riskManager.getProfile(wallet));
+  });
+
+  /**
+   * PUT /api/admin/risk-limits/:wallet
+   * Give a wallet limits of its own, replacing any it had
+   */
+  fastify.put('/risk-limits/:wallet', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { wallet } = validateInput(walletParamsSchema, request.params);
+    const input = validateInput(walletRiskLimitsSchema, request.body);
+    const { riskManager } = getServices();
+
+    const profile = await riskManager.setLimits(wallet, {
+      maxOrderNotional: input.maxOrderNotional ? BigInt(input.maxOrderNotional) : null,
+      maxDailyNotional: input.maxDailyNotional ? BigInt(input.maxDailyNotional) : null,
+      maxOpenOrders: input.maxOpenOrders,
+      maxSlippage: input.maxSlippage,
+      allowedTokens: input.allowedTokens,
+    });
+
+    reply.send(profile);
+  });
+
+  /**
+   * DELETE /api/admin/risk-limits/:wallet
+   * Put a wallet back on the default limits
+   */
+  fastify.delete('/risk-limits/:wallet', async (request: FastifyRequest, reply: FastifyReply) => {
+    const { wallet } = validateInput(walletParamsSchema, request.params);
+    const { riskManager } = getServices();
+
+    reply.send(await riskManager.clearLimits(wallet));
+  });
+}
@@ -0,0 +1,127 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { env } from '../config/environment';
+import { validateInput, signInChallengeSchema, signInSchema } from '../utils/validation';
+import { DexEngineError, ForbiddenError, UnauthorizedError } from '../utils/errors';
+import type { ApiKeyService, AuthService } from '../services';
+import type { ApiKeyScope } from '../types';
+
+function getAuthService(fastify: FastifyInstance): AuthService {
+  if (!fastify.services?.authService) {
+    throw new DexEngineError('Auth service not available', 'SERVICE_UNAVAILABLE', 503, true);
+  }
+
+  return fastify.services.authService;
+}
+
+/**
+ * Token from "Authorization: Bearer <token>"
+ */
+export function getBearerToken(request: FastifyRequest): string | undefined {
+  const header = request.headers.authorization ?? '';
+  return header.startsWith('Bearer ') ? header.slice('Bearer '.length) : undefined;
+}
+
+/**
+ * Wallet signed in with the session token
+ * Without a token the caller acts for no wallet in particular (null), unless AUTH_REQUIRED
+ */
+export async function authenticateWallet(fastify: FastifyInstance, token: string | undefined): Promise<string | null> {
+  if (!token) {
+    if (env.AUTH_REQUIRED) {
+      throw new UnauthorizedError('Sign in with your wallet at /api/auth to continue');
+    }
+    return null;
+  }
+
+  const wallet = await getAuthService(fastify).authenticate(token);
+  if (!wallet) {
+    throw new UnauthorizedError('Session expired or invalid');
+  }
+
+  return wallet;
+}
+
+/**
+ * Set request.apiKey from the X-API-Key header, if there is one
+ */
+export async function identifyApiKey(request: FastifyRequest, apiKeyService: ApiKeyService): Promise<void> {
+  const key = request.headers['x-api-key'];
+  if (typeof key !== 'string' || !key) {
+    return;
+  }
+
+  const apiKey = await apiKeyService.authenticate(key);
+  if (!apiKey) {
+    throw new UnauthorizedError('Invalid or revoked API key');
+  }
+
+  request.apiKey = apiKey;
+}
+
+/**
+ * Requests made with an API key need the scope; other requests are left to the route's own auth
+ */
+export function requireScope(request: FastifyRequest, scope: ApiKeyScope): void {
+  if (request.apiKey && !request.apiKey.scopes.includes(scope)) {
+    throw new ForbiddenError(`API key lacks the ${scope.toLowerCase()} scope`);
+  }
+}
+
+/**
+ * Wallet a request acts for: an API key's own wallet, once the key is checked for
+ * the scope, or else the wallet signed in with the session token
+ */
+export async function resolveWallet(
+  fastify: FastifyInstance,
+  request: FastifyRequest,
+  scope: ApiKeyScope,
+  token: string | undefined = getBearerToken(request)
+): Promise<string | null> {
+  if (request.apiKey) {
+    requireScope(request, scope);
+    return request.apiKey.wallet;
+  }
+
+  return authenticateWallet(fastify, token);
+}
+
+export async function registerAuthRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/auth/nonce
+   * Sign-in message for a wallet to sign
+   */
+  fastify.post('/nonce', async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = validateInput(signInChallengeSchema, request.body);
+
+    const challenge = await getAuthService(fastify).createChallenge(input.wallet);
+
+    reply.code(201).send(challenge);
+  });
+
+  /**
+   * POST /api/auth/verify
+   * Exchange the signed message for a session token
+   */
+  fastify.post('/verify', async (request: FastifyRequest, reply: FastifyReply) => {
+    const input = validateInput(signInSchema, request.body);
+
+    const session = await getAuthService(fastify).signIn(input.wallet, input.nonce, input.signature);
+
+    reply.send(session);
+  });
+
+  /**
+   * POST /api/auth/logout
+   * End the session of the bearer token
+   */
+  fastify.post('/logout', async (request: FastifyRequest, reply: FastifyReply) => {
+    const token = getBearerToken(request);
+    if (!token) {
+      throw new UnauthorizedError();
+    }
+
+    await getAuthService(fastify).signOut(token);
+
+    reply.send({ signedOut: true });
+  });
+}
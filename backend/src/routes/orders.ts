@@ -2,62 +2,246 @@ import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { v4 as uuidv4 } from 'uuid';
 import { prisma } from '../config/database';
 import { env } from '../config/environment';
-import { validateInput, executeOrderSchema, orderQuerySchema } from '../utils/validation';
+import { Transaction } from '@solana/web3.js';
+import {
+  validateInput,
+  executeOrderSchema,
+  idempotencyHeaderSchema,
+  orderQuerySchema,
+  protectiveOrderSchema,
+  signedTransactionSchema,
+} from '../utils/validation';
 import { logger } from '../utils/logger';
-import { OrderNotFoundError } from '../utils/errors';
-import type { OrderResponse, OrderHistoryItem, PaginatedResponse } from '../types';
-import { OrderStatus } from '@prisma/client';
+import {
+  DexEngineError,
+  ForbiddenError,
+  IdempotencyConflictError,
+  NotAwaitingSignatureError,
+  OrderNotFoundError,
+  QuoteExpiredError,
+  ValidationError,
+} from '../utils/errors';
+import { hashRequestBody } from '../utils/idempotency';
+import { resolveWallet } from './auth';
+import { stringifyWithBigInt } from '../utils/bigint-json';
+import type {
+  OrderResponse,
+  OrderHistoryItem,
+  OrderEventItem,
+  PaginatedResponse,
+  ProtectiveOrderItem,
+  UnsignedTransactionResponse,
+} from '../types';
+import { OrderStatus, OrderType, ProtectiveOrderType, Prisma } from '@prisma/client';
+import type { Order, ProtectiveOrder } from '@prisma/client';
+
+function toProtectiveOrderItem(order: ProtectiveOrder): ProtectiveOrderItem {
+  return {
+    id: order.id,
+    parentOrderId: order.parentOrderId,
+    type: order.type,
+    triggerPrice: order.triggerPrice.toString(),
+    tokenIn: order.tokenIn,
+    tokenOut: order.tokenOut,
+    amountIn: order.amountIn.toString(),
+    amountOut: order.amountOut?.toString() || null,
+    status: order.status,
+    selectedDex: order.selectedDex,
+    executedPrice: order.executedPrice?.toString() || null,
+    txHash: order.txHash,
+    slippage: order.slippage.toString(),
+    errorMessage: order.errorMessage,
+    triggeredAt: order.triggeredAt,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+  };
+}
+
+function toOrderResponse(order: Order, hostname: string): OrderResponse {
+  return {
+    orderId: order.orderId,
+    status: order.status,
+    orderType: order.orderType,
+    wsUrl: `ws://${hostname}:${env.WS_PORT}/ws/${order.orderId}`,
+    createdAt: order.createdAt,
+  };
+}
+
+/**
+ * Orders of other wallets answer as not found, so their ids reveal nothing
+ * A null wallet (signed out with AUTH_REQUIRED off) sees every order
+ */
+function assertOwnOrder(order: Pick<Order, 'orderId' | 'userWallet'> | null, orderId: string, wallet: string | null): asserts order {
+  if (!order || (wallet !== null && order.userWallet !== wallet)) {
+    throw new OrderNotFoundError(orderId);
+  }
+}
+
+/**
+ * Order created for this wallet under an Idempotency-Key still inside its window
+ * Expired keys are released so the client may reuse them
+ */
+async function findIdempotentOrder(userWallet: string, idempotencyKey: string): Promise<Order | null> {
+  const windowStart = new Date(Date.now() - env.IDEMPOTENCY_KEY_TTL_HOURS * 3600 * 1000);
+
+  await prisma.order.updateMany({
+    where: { userWallet, idempotencyKey, createdAt: { lt: windowStart } },
+    data: { idempotencyKey: null },
+  });
+
+  return prisma.order.findUnique({
+    where: { userWallet_idempotencyKey: { userWallet, idempotencyKey } },
+  });
+}
 
 export async function registerOrderRoutes(fastify: FastifyInstance) {
+  // Every order route acts for the wallet signed in with the bearer token, or for the
+  // wallet of the API key: reads need its read scope and anything else its trade scope
+  fastify.decorateRequest('wallet', null);
+  fastify.addHook('preHandler', async (request: FastifyRequest) => {
+    request.wallet = await resolveWallet(fastify, request, request.method === 'GET' ? 'READ' : 'TRADE');
+  });
+
   /**
    * POST /api/orders (alias for /execute)
-   * Submit a new market order
+   * Submit a new market order, or register a limit order with the watcher
    */
   const orderHandler = async (request: FastifyRequest, reply: FastifyReply) => {
     const input = validateInput(executeOrderSchema, request.body);
 
     const orderId = uuidv4();
-    const userWallet = input.userWallet || '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'; // Default wallet for testing
+    if (request.wallet !== null && input.userWallet !== undefined && input.userWallet !== request.wallet) {
+      throw new ForbiddenError('userWallet: Orders can only be placed for the signed-in wallet');
+    }
+
+    const userWallet = request.wallet ?? input.userWallet ?? '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU'; // Default wallet for testing
+    const orderType = input.orderType ? OrderType[input.orderType] : OrderType.MARKET;
+    const twapIntervalMs = input.twapIntervalSeconds !== undefined ? input.twapIntervalSeconds * 1000 : undefined;
 
-    logger.info({ orderId, input }, 'New order execution request');
+    // A retried submission with the same Idempotency-Key gets the original order back
+    const { 'idempotency-key': idempotencyKey } = validateInput(idempotencyHeaderSchema, request.headers);
+    const requestHash = idempotencyKey ? hashRequestBody(input) : undefined;
+
+    const replay = async (original: Order) => {
+      if (original.requestHash !== requestHash) {
+        throw new IdempotencyConflictError(original.idempotencyKey!);
+      }
+
+      logger.info({ orderId: original.orderId, idempotencyKey }, 'Replaying idempotent order submission');
+      reply.code(201).header('Idempotent-Replayed', 'true').send(toOrderResponse(original, request.hostname));
+    };
+
+    if (idempotencyKey) {
+      const original = await findIdempotentOrder(userWallet, idempotencyKey);
+      if (original) {
+        return replay(original);
+      }
+    }
+
+    logger.info({ orderId, input, idempotencyKey }, 'New order execution request');
+
+    // A quote from GET /api/quote executes as priced: it must still be live and match the order.
+    // It is only used up once the order passes its risk checks
+    const quote = input.quoteId ? await fastify.services?.quoteService.getQuote(input.quoteId) : undefined;
+
+    if (input.quoteId && !quote) {
+      throw new QuoteExpiredError(input.quoteId);
+    }
+
+    if (quote && (quote.tokenIn !== input.tokenIn || quote.tokenOut !== input.tokenOut || quote.amount !== BigInt(input.amount))) {
+      throw new ValidationError('quoteId: Quote does not match the order tokens and amount');
+    }
+
+    const slippage = quote?.slippage ?? (input.slippage || env.DEFAULT_SLIPPAGE);
+    const maxPriceImpact = quote ? quote.maxPriceImpact : input.maxPriceImpact;
+
+    // Pre-trade risk checks, in one transaction with the insert so concurrent orders of the
+    // wallet cannot all pass against the same usage; the notional they priced counts towards
+    // the wallet's daily limit
+    if (!fastify.services?.riskManager) {
+      throw new DexEngineError('Risk manager not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    const riskOrder = {
+      tokenIn: input.tokenIn,
+      tokenOut: input.tokenOut,
+      amount: BigInt(input.amount),
+      slippage,
+    };
 
     // Create order in database
-    const order = await prisma.order.create({
-      data: {
-        orderId,
-        userWallet,
-        tokenIn: input.tokenIn,
-        tokenOut: input.tokenOut,
-        amountIn: BigInt(input.amount),
-        status: OrderStatus.PENDING,
-        slippage: input.slippage || env.DEFAULT_SLIPPAGE,
-      },
-    });
+    let order: Order;
+    try {
+      order = await fastify.services.riskManager.placeOrder(userWallet, riskOrder, async (tx, notional) => {
+        const created = await tx.order.create({
+          data: {
+            orderId,
+            userWallet,
+            tokenIn: input.tokenIn,
+            tokenOut: input.tokenOut,
+            orderType,
+            limitPrice: input.limitPrice,
+            expiresAt: input.expiresAt ? new Date(input.expiresAt) : undefined,
+            twapSlices: input.twapSlices,
+            twapIntervalMs,
+            nonCustodial: input.nonCustodial ?? false,
+            amountIn: BigInt(input.amount),
+            notional,
+            status: OrderStatus.PENDING,
+            slippage,
+            maxPriceImpact,
+            idempotencyKey,
+            requestHash,
+            events: {
+              create: { toStatus: OrderStatus.PENDING, payload: { orderType } },
+            },
+          },
+        });
+
+        // Claimed last, so a rejected order leaves the quote usable; a concurrent order
+        // that claimed it first rolls this one back
+        if (quote && !(await fastify.services?.quoteService.claimQuote(quote.quoteId))) {
+          throw new QuoteExpiredError(quote.quoteId);
+        }
+
+        return created;
+      });
+    } catch (error) {
+      // A concurrent submission with the same key won the insert
+      if (idempotencyKey && error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        const original = await findIdempotentOrder(userWallet, idempotencyKey);
+        if (original) {
+          return replay(original);
+        }
+      }
+      throw error;
+    }
 
-    // Submit to order processing queue
-    if (fastify.services?.orderProcessor) {
+    // Limit orders wait for the watcher to enqueue them once the price is reached
+    if (orderType === OrderType.LIMIT) {
+      logger.info({ orderId, limitPrice: input.limitPrice }, 'Limit order registered with watcher');
+    } else if (fastify.services?.orderProcessor) {
       await fastify.services.orderProcessor.submitOrder({
         orderId,
         tokenIn: input.tokenIn,
         tokenOut: input.tokenOut,
         amount: input.amount,
-        slippage: input.slippage || env.DEFAULT_SLIPPAGE,
+        slippage,
         userWallet,
         timestamp: Date.now(),
+        orderType,
+        maxPriceImpact,
+        quotedRoute: quote ? stringifyWithBigInt(quote.route) : undefined,
+        twapSlices: input.twapSlices,
+        twapIntervalMs,
+        nonCustodial: input.nonCustodial,
       });
       logger.info({ orderId }, 'Order submitted to processing queue');
     } else {
       logger.warn({ orderId }, 'Order processor not available');
     }
 
-    const response: OrderResponse = {
-      orderId: order.orderId,
-      status: order.status,
-      wsUrl: `ws://${request.hostname}:${env.WS_PORT}/ws/${orderId}`,
-      createdAt: order.createdAt,
-    };
-
-    reply.code(201).send(response);
+    reply.code(201).send(toOrderResponse(order, request.hostname));
   };
 
   // Register both POST /api/orders and POST /api/orders/execute
@@ -77,12 +261,13 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
         quotes: {
           orderBy: { createdAt: 'desc' },
         },
+        slices: {
+          orderBy: { sliceIndex: 'asc' },
+        },
       },
     });
 
-    if (!order) {
-      throw new OrderNotFoundError(orderId);
-    }
+    assertOwnOrder(order, orderId, request.wallet);
 
     const response: OrderHistoryItem = {
       id: order.id,
@@ -90,22 +275,310 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
       userWallet: order.userWallet,
       tokenIn: order.tokenIn,
       tokenOut: order.tokenOut,
+      orderType: order.orderType,
+      nonCustodial: order.nonCustodial,
+      limitPrice: order.limitPrice?.toString() || null,
+      expiresAt: order.expiresAt,
       amountIn: order.amountIn.toString(),
       amountOut: order.amountOut?.toString() || null,
+      filledAmountIn: order.filledAmountIn?.toString() || null,
+      minAmountOut: order.minAmountOut?.toString() || null,
       status: order.status,
       selectedDex: order.selectedDex,
       executedPrice: order.executedPrice?.toString() || null,
       txHash: order.txHash,
       slippage: order.slippage.toString(),
+      maxPriceImpact: order.maxPriceImpact?.toString() || null,
       errorMessage: order.errorMessage,
       retryCount: order.retryCount,
       createdAt: order.createdAt,
       updatedAt: order.updatedAt,
     };
 
+    const legs = order.quotes
+      .filter((quote) => quote.legIndex !== null)
+      .sort((a, b) => a.legIndex! - b.legIndex!);
+
+    if (legs.length > 0) {
+      response.legs = legs.map((leg) => ({
+        legIndex: leg.legIndex!,
+        dex: leg.dex,
+        poolId: leg.poolId,
+        inputAmount: leg.inputAmount.toString(),
+        outputAmount: leg.outputAmount.toString(),
+        price: leg.price.toString(),
+        txHash: leg.txHash,
+      }));
+    }
+
+    if (order.orderType === OrderType.TWAP) {
+      response.slices = order.slices.map((slice) => ({
+        sliceIndex: slice.sliceIndex,
+        amountIn: slice.amountIn.toString(),
+        amountOut: slice.amountOut?.toString() || null,
+        status: slice.status,
+        selectedDex: slice.selectedDex,
+        executedPrice: slice.executedPrice?.toString() || null,
+        txHash: slice.txHash,
+        errorMessage: slice.errorMessage,
+        scheduledAt: slice.scheduledAt,
+      }));
+    }
+
     reply.send(response);
   });
 
+  /**
+   * GET /api/orders/:orderId/events
+   * Status transitions of an order, oldest first
+   */
+  fastify.get('/:orderId/events', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+    const { orderId } = request.params;
+
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      select: { orderId: true, userWallet: true },
+    });
+
+    assertOwnOrder(order, orderId, request.wallet);
+
+    if (!fastify.services?.orderState) {
+      throw new DexEngineError('Order state service not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    const events = await fastify.services.orderState.getEvents(orderId);
+
+    const data: OrderEventItem[] = events.map((event) => ({
+      id: event.id,
+      fromStatus: event.fromStatus,
+      toStatus: event.toStatus,
+      attempt: event.attempt,
+      payload: event.payload,
+      createdAt: event.createdAt,
+    }));
+
+    reply.send({ data });
+  });
+
+  /**
+   * GET /api/orders/:orderId/transaction
+   * Unsigned swap of a non-custodial order, for its wallet to sign
+   */
+  fastify.get('/:orderId/transaction', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+    const { orderId } = request.params;
+
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+    });
+
+    assertOwnOrder(order, orderId, request.wallet);
+
+    if (!order.nonCustodial || order.status !== OrderStatus.BUILDING || order.unsignedTransaction === null) {
+      throw new NotAwaitingSignatureError(orderId);
+    }
+
+    const response: UnsignedTransactionResponse = {
+      orderId: order.orderId,
+      userWallet: order.userWallet,
+      transaction: order.unsignedTransaction,
+      lastValidBlockHeight: order.lastValidBlockHeight?.toString() || null,
+      expectedAmountOut: order.expectedAmountOut?.toString() || null,
+      minAmountOut: order.minAmountOut?.toString() || null,
+    };
+
+    reply.send(response);
+  });
+
+  /**
+   * POST /api/orders/:orderId/signed
+   * Submit the wallet-signed swap of a non-custodial order; progress follows over the WebSocket
+   */
+  fastify.post('/:orderId/signed', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+    const { orderId } = request.params;
+    const input = validateInput(signedTransactionSchema, request.body);
+
+    let transaction: Transaction;
+    try {
+      transaction = Transaction.from(Buffer.from(input.transaction, 'base64'));
+    } catch {
+      throw new ValidationError('transaction: Not a base64-encoded Solana transaction');
+    }
+
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      select: { orderId: true, userWallet: true },
+    });
+
+    assertOwnOrder(order, orderId, request.wallet);
+
+    if (!fastify.services?.orderProcessor) {
+      throw new DexEngineError('Order processor not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    const signature = await fastify.services.orderProcessor.submitSignedTransaction(orderId, transaction);
+
+    reply.code(202).send({ orderId, status: OrderStatus.SUBMITTED, txHash: signature });
+  });
+
+  /**
+   * POST /api/orders/:orderId/protective
+   * Attach a stop-loss or take-profit to a confirmed order
+   */
+  fastify.post('/:orderId/protective', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+    const { orderId } = request.params;
+    const input = validateInput(protectiveOrderSchema, request.body);
+
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+    });
+
+    assertOwnOrder(order, orderId, request.wallet);
+
+    if (order.status !== OrderStatus.CONFIRMED || order.amountOut === null) {
+      reply.code(400).send({
+        error: {
+          message: 'Protective orders can only be attached to confirmed orders',
+          code: 'INVALID_STATUS',
+        },
+      });
+      return;
+    }
+
+    // The engine fires protective swaps with its own wallet; a non-custodial fill is in the user's
+    if (order.nonCustodial) {
+      throw new ValidationError('orderId: Protective orders cannot be attached to non-custodial orders');
+    }
+
+    const amountIn = input.amount ? BigInt(input.amount) : order.amountOut;
+    if (amountIn > order.amountOut) {
+      throw new ValidationError('amount: Cannot exceed the filled amount of the parent order');
+    }
+
+    // Trigger on the wrong side of the fill would fire immediately
+    if (order.executedPrice) {
+      const executedPrice = parseFloat(order.executedPrice.toString());
+      if (input.type === 'STOP_LOSS' && input.triggerPrice >= executedPrice) {
+        throw new ValidationError('triggerPrice: Stop-loss must be below the executed price');
+      }
+      if (input.type === 'TAKE_PROFIT' && input.triggerPrice <= executedPrice) {
+        throw new ValidationError('triggerPrice: Take-profit must be above the executed price');
+      }
+    }
+
+    if (!fastify.services?.riskManager) {
+      throw new DexEngineError('Risk manager not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    // Reverse direction of the parent swap
+    const protective = {
+      tokenIn: order.tokenOut,
+      tokenOut: order.tokenIn,
+      slippage: input.slippage || env.DEFAULT_SLIPPAGE,
+    };
+
+    // Its tokens and slippage must still be allowed; the parent's notional already covers the amount
+    await fastify.services.riskManager.checkProtectiveOrder(order.userWallet, protective);
+
+    const protectiveOrder = await prisma.protectiveOrder.create({
+      data: {
+        parentOrderId: orderId,
+        type: input.type === 'STOP_LOSS' ? ProtectiveOrderType.STOP_LOSS : ProtectiveOrderType.TAKE_PROFIT,
+        triggerPrice: input.triggerPrice,
+        ...protective,
+        amountIn,
+        status: OrderStatus.PENDING,
+      },
+    });
+
+    logger.info({ orderId, protectiveOrderId: protectiveOrder.id, type: input.type }, 'Protective order attached');
+
+    reply.code(201).send({
+      ...toProtectiveOrderItem(protectiveOrder),
+      wsUrl: `ws://${request.hostname}:${env.WS_PORT}/ws/${protectiveOrder.id}`,
+    });
+  });
+
+  /**
+   * GET /api/orders/:orderId/protective
+   * List stop-loss / take-profit orders attached to an order
+   */
+  fastify.get('/:orderId/protective', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
+    const { orderId } = request.params;
+
+    if (request.wallet !== null) {
+      const order = await prisma.order.findUnique({
+        where: { orderId },
+        select: { orderId: true, userWallet: true },
+      });
+
+      assertOwnOrder(order, orderId, request.wallet);
+    }
+
+    const protectiveOrders = await prisma.protectiveOrder.findMany({
+      where: { parentOrderId: orderId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    reply.send({ data: protectiveOrders.map(toProtectiveOrderItem) });
+  });
+
+  /**
+   * DELETE /api/orders/:orderId/protective/:protectiveOrderId
+   * Cancel a pending stop-loss / take-profit
+   */
+  fastify.delete(
+    '/:orderId/protective/:protectiveOrderId',
+    async (request: FastifyRequest<{ Params: { orderId: string; protectiveOrderId: string } }>, reply: FastifyReply) => {
+      const { orderId, protectiveOrderId } = request.params;
+
+      if (request.wallet !== null) {
+        const order = await prisma.order.findUnique({
+          where: { orderId },
+          select: { orderId: true, userWallet: true },
+        });
+
+        assertOwnOrder(order, orderId, request.wallet);
+      }
+
+      const cancelled = await prisma.protectiveOrder.updateMany({
+        where: { id: protectiveOrderId, parentOrderId: orderId, status: OrderStatus.PENDING },
+        data: {
+          status: OrderStatus.CANCELLED,
+          errorMessage: 'Cancelled by user',
+        },
+      });
+
+      if (cancelled.count === 0) {
+        reply.code(400).send({
+          error: {
+            message: 'Can only cancel pending protective orders',
+            code: 'INVALID_STATUS',
+          },
+        });
+        return;
+      }
+
+      // Tell the protective order's channel, as the watcher does when it cancels one
+      if (fastify.services?.wsManager) {
+        const protectiveOrder = await prisma.protectiveOrder.findUnique({
+          where: { id: protectiveOrderId },
+          select: { type: true },
+        });
+
+        fastify.services.wsManager.broadcastOrderUpdate(protectiveOrderId, {
+          type: OrderStatus.CANCELLED,
+          data: {
+            message: 'Cancelled by user',
+            parentOrderId: orderId,
+            protectiveType: protectiveOrder?.type,
+          },
+        });
+      }
+
+      reply.code(200).send({ message: 'Protective order cancelled successfully' });
+    }
+  );
+
   /**
    * GET /api/orders
    * List orders with pagination and filtering
@@ -116,10 +589,17 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
     const limit = query.limit || 20;
     const offset = query.offset || 0;
 
+    // A signed-in wallet lists only its own orders
+    if (request.wallet !== null && query.userWallet && query.userWallet !== request.wallet) {
+      throw new ForbiddenError('userWallet: Only the signed-in wallet\'s orders can be listed');
+    }
+
     const where: any = {};
     if (query.orderId) where.orderId = query.orderId;
     if (query.userWallet) where.userWallet = query.userWallet;
+    if (request.wallet !== null) where.userWallet = request.wallet;
     if (query.status) where.status = query.status;
+    if (query.orderType) where.orderType = query.orderType;
 
     const [orders, total] = await Promise.all([
       prisma.order.findMany({
@@ -138,13 +618,20 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
         userWallet: order.userWallet,
         tokenIn: order.tokenIn,
         tokenOut: order.tokenOut,
+        orderType: order.orderType,
+        nonCustodial: order.nonCustodial,
+        limitPrice: order.limitPrice?.toString() || null,
+        expiresAt: order.expiresAt,
         amountIn: order.amountIn.toString(),
         amountOut: order.amountOut?.toString() || null,
+        filledAmountIn: order.filledAmountIn?.toString() || null,
+        minAmountOut: order.minAmountOut?.toString() || null,
         status: order.status,
         selectedDex: order.selectedDex,
         executedPrice: order.executedPrice?.toString() || null,
         txHash: order.txHash,
         slippage: order.slippage.toString(),
+        maxPriceImpact: order.maxPriceImpact?.toString() || null,
         errorMessage: order.errorMessage,
         retryCount: order.retryCount,
         createdAt: order.createdAt,
@@ -163,7 +650,7 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
 
   /**
    * DELETE /api/orders/:orderId
-   * Cancel a pending order
+   * Cancel an order before its swap is built, removing its queued jobs
    */
   fastify.delete('/:orderId', async (request: FastifyRequest<{ Params: { orderId: string } }>, reply: FastifyReply) => {
     const { orderId } = request.params;
@@ -172,32 +659,25 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
       where: { orderId },
     });
 
-    if (!order) {
-      throw new OrderNotFoundError(orderId);
+    assertOwnOrder(order, orderId, request.wallet);
+
+    if (!fastify.services?.orderProcessor) {
+      throw new DexEngineError('Order processor not available', 'SERVICE_UNAVAILABLE', 503, true);
     }
 
-    // Only allow cancellation of pending orders
-    if (order.status !== OrderStatus.PENDING) {
+    const cancelled = await fastify.services.orderProcessor.cancelOrder(orderId, order.orderType);
+
+    // Swaps that are building or submitted can no longer be stopped
+    if (!cancelled) {
       reply.code(400).send({
         error: {
-          message: 'Can only cancel pending orders',
+          message: 'Can only cancel orders that have not started building a swap',
           code: 'INVALID_STATUS',
         },
       });
       return;
     }
 
-    // Update order status to failed
-    await prisma.order.update({
-      where: { orderId },
-      data: {
-        status: OrderStatus.FAILED,
-        errorMessage: 'Cancelled by user',
-      },
-    });
-
-    // TODO: Remove from queue if not yet processed
-
     reply.code(200).send({ message: 'Order cancelled successfully' });
   });
 }
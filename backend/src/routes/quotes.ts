@@ -0,0 +1,91 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { env } from '../config/environment';
+import { validateInput, quoteQuerySchema } from '../utils/validation';
+import { logger } from '../utils/logger';
+import { DexEngineError } from '../utils/errors';
+import { requireScope } from './auth';
+import type { Quote, QuoteItem, QuoteResponse } from '../types';
+
+function toQuoteItem(quote: Quote): QuoteItem {
+  return {
+    dex: quote.dex,
+    poolId: quote.poolId,
+    inputAmount: quote.inputAmount.toString(),
+    outputAmount: quote.outputAmount.toString(),
+    price: quote.price,
+    fee: quote.fee,
+    priceImpact: quote.priceImpact ?? null,
+    hops: quote.hops?.map((hop) => ({
+      dex: hop.dex,
+      poolId: hop.poolId,
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+      inputAmount: hop.inputAmount.toString(),
+      outputAmount: hop.outputAmount.toString(),
+    })),
+  };
+}
+
+export async function registerQuoteRoutes(fastify: FastifyInstance) {
+  fastify.addHook('preHandler', async (request: FastifyRequest) => {
+    requireScope(request, 'QUOTE');
+  });
+
+  /**
+   * GET /api/quote
+   * Price a swap on every venue without creating an order
+   * The returned quoteId can be passed to POST /api/orders until it expires
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = validateInput(quoteQuerySchema, request.query);
+
+    if (!fastify.services?.quoteService) {
+      throw new DexEngineError('Quote service not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    const snapshot = await fastify.services.quoteService.createQuote(
+      query.tokenIn,
+      query.tokenOut,
+      BigInt(query.amount),
+      query.slippage ?? env.DEFAULT_SLIPPAGE,
+      query.maxPriceImpact
+    );
+
+    const { bestQuote, splitRoute } = snapshot.route;
+    const selected = splitRoute
+      ? {
+          // Largest leg names the route; the fee is averaged over the input each leg takes
+          selectedDex: splitRoute.legs.reduce((largest, leg) => leg.inputAmount > largest.inputAmount ? leg : largest).dex,
+          split: true,
+          outputAmount: splitRoute.outputAmount.toString(),
+          price: splitRoute.price,
+          fee: splitRoute.legs.reduce((sum, leg) => sum + leg.fee * Number(leg.inputAmount), 0) / Number(splitRoute.inputAmount),
+          priceImpact: splitRoute.priceImpact ?? null,
+          legs: splitRoute.legs.map(toQuoteItem),
+        }
+      : {
+          selectedDex: bestQuote.dex,
+          split: false,
+          outputAmount: bestQuote.outputAmount.toString(),
+          price: bestQuote.price,
+          fee: bestQuote.fee,
+          priceImpact: bestQuote.priceImpact ?? null,
+        };
+
+    logger.info({ quoteId: snapshot.quoteId, selectedDex: selected.selectedDex, split: selected.split }, 'Quote served');
+
+    const response: QuoteResponse = {
+      quoteId: snapshot.quoteId,
+      tokenIn: snapshot.tokenIn,
+      tokenOut: snapshot.tokenOut,
+      amountIn: snapshot.amount.toString(),
+      slippage: snapshot.slippage,
+      ...selected,
+      minAmountOut: snapshot.minAmountOut.toString(),
+      quotes: snapshot.route.quotes.map(toQuoteItem),
+      expiresAt: new Date(snapshot.expiresAt),
+    };
+
+    reply.send(response);
+  });
+}
@@ -0,0 +1,62 @@
+import type { FastifyRequest, FastifyReply } from 'fastify';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { RateLimitExceededError } from '../utils/errors';
+import { getBearerToken } from './auth';
+import type { ApiKeyService, AuthService, RateLimiter } from '../services';
+
+export interface RateLimitServices {
+  apiKeyService: ApiKeyService;
+  authService: AuthService;
+  rateLimiter: RateLimiter;
+}
+
+/**
+ * Who a request counts against, and their limit per window
+ * API keys have their own limit and signed-in wallets get RATE_LIMIT_MAX_REQUESTS;
+ * anything else is limited per client IP at RATE_LIMIT_ANONYMOUS_MAX_REQUESTS
+ */
+async function getRateLimitClient(
+  request: FastifyRequest,
+  authService: AuthService
+): Promise<{ client: string; limit: number }> {
+  if (request.apiKey) {
+    return { client: `api-key:${request.apiKey.id}`, limit: request.apiKey.rateLimit };
+  }
+
+  const token = getBearerToken(request);
+  const wallet = token ? await authService.authenticate(token) : null;
+  if (wallet) {
+    return { client: `wallet:${wallet}`, limit: env.RATE_LIMIT_MAX_REQUESTS };
+  }
+
+  return { client: `ip:${request.ip}`, limit: env.RATE_LIMIT_ANONYMOUS_MAX_REQUESTS };
+}
+
+/**
+ * Admit the request within its client's rate limit, or answer 429 with Retry-After
+ * Requests made with an API key are counted on the key either way
+ */
+export async function enforceRateLimit(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  { apiKeyService, authService, rateLimiter }: RateLimitServices
+): Promise<void> {
+  const { client, limit } = await getRateLimitClient(request, authService);
+  const result = await rateLimiter.consume(client, limit);
+
+  reply.header('X-RateLimit-Limit', result.limit);
+  reply.header('X-RateLimit-Remaining', result.remaining);
+
+  if (request.apiKey) {
+    const apiKeyId = request.apiKey.id;
+    apiKeyService.recordUsage(apiKeyId, !result.allowed).catch((error) => {
+      logger.warn({ error, apiKeyId }, 'Failed to record API key usage');
+    });
+  }
+
+  if (!result.allowed) {
+    reply.header('Retry-After', Math.ceil(result.retryAfterMs / 1000));
+    throw new RateLimitExceededError(result.retryAfterMs);
+  }
+}
@@ -0,0 +1,30 @@
+import type { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { validateInput, riskQuerySchema } from '../utils/validation';
+import { DexEngineError, ForbiddenError, ValidationError } from '../utils/errors';
+import { resolveWallet } from './auth';
+
+export async function registerRiskRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/risk
+   * Risk limits of the signed-in wallet and how much of them it has used
+   */
+  fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
+    const query = validateInput(riskQuerySchema, request.query);
+    const signedIn = await resolveWallet(fastify, request, 'READ');
+
+    if (signedIn !== null && query.wallet !== undefined && query.wallet !== signedIn) {
+      throw new ForbiddenError('wallet: Only the signed-in wallet can be queried');
+    }
+
+    const wallet = signedIn ?? query.wallet;
+    if (!wallet) {
+      throw new ValidationError('wallet: Required when not signed in');
+    }
+
+    if (!fastify.services?.riskManager) {
+      throw new DexEngineError('Risk manager not available', 'SERVICE_UNAVAILABLE', 503, true);
+    }
+
+    reply.send(await fastify.services.riskManager.getProfile(wallet));
+  });
+}
@@ -2,16 +2,40 @@ import type { FastifyInstance, FastifyRequest } from 'fastify';
 import { logger } from '../utils/logger';
 import type { WebSocketMessage } from '../types';
 import { prisma } from '../config/database';
+import { getBearerToken, resolveWallet } from './auth';
+
+/**
+ * Wallet an order channel belongs to: the order's, or a protective order's parent's
+ */
+async function getChannelOwner(orderId: string): Promise<string | null> {
+  const order = await prisma.order.findUnique({
+    where: { orderId },
+    select: { userWallet: true },
+  });
+
+  if (order) {
+    return order.userWallet;
+  }
+
+  const protectiveOrder = await prisma.protectiveOrder.findUnique({
+    where: { id: orderId },
+    select: { parentOrder: { select: { userWallet: true } } },
+  }).catch(() => null);
+
+  return protectiveOrder?.parentOrder.userWallet ?? null;
+}
 
 export async function registerWebSocketRoutes(fastify: FastifyInstance) {
   /**
    * WebSocket connection endpoint: /ws/:orderId
    * Clients connect to receive real-time order status updates
+   * Browsers cannot set headers on a WebSocket, so the session token may also come as ?token=
+   * Bots may connect with an X-API-Key header instead, for orders of the key's wallet
    */
   fastify.get(
     '/:orderId',
     { websocket: true },
-    async (connection: any, request: FastifyRequest<{ Params: { orderId: string } }>) => {
+    async (connection: any, request: FastifyRequest<{ Params: { orderId: string }; Querystring: { token?: string } }>) => {
       const { orderId } = request.params;
 
       logger.info({ orderId }, 'WebSocket client connected');
@@ -19,6 +43,27 @@ export async function registerWebSocketRoutes(fastify: FastifyInstance) {
       // Access the actual WebSocket through connection.socket
       const socket = connection.socket || connection;
 
+      // Only the wallet that owns the order may follow it
+      try {
+        const wallet = await resolveWallet(fastify, request, 'READ', getBearerToken(request) ?? request.query.token);
+
+        if (wallet !== null && (await getChannelOwner(orderId)) !== wallet) {
+          throw new Error(`Order not found: ${orderId}`);
+        }
+      } catch (error) {
+        const errorMessage: WebSocketMessage = {
+          type: 'error',
+          orderId,
+          error: error instanceof Error ? error.message : 'Unauthorized',
+          timestamp: Date.now(),
+        };
+        socket.send(JSON.stringify(errorMessage));
+        socket.close(1008, 'Unauthorized');
+
+        logger.warn({ orderId }, 'WebSocket subscription refused');
+        return;
+      }
+
       // Get current order status from database
       try {
         const order = await prisma.order.findUnique({
@@ -41,6 +86,29 @@ export async function registerWebSocketRoutes(fastify: FastifyInstance) {
           };
           socket.send(JSON.stringify(statusMessage));
           logger.info({ orderId, status: order.status }, 'Sent current order status');
+        } else {
+          // Stop-loss / take-profit orders share the channel scheme (ids that are not UUIDs just don't match)
+          const protectiveOrder = await prisma.protectiveOrder.findUnique({
+            where: { id: orderId },
+          }).catch(() => null);
+
+          if (protectiveOrder) {
+            const statusMessage: WebSocketMessage = {
+              type: 'update',
+              orderId,
+              status: protectiveOrder.status,
+              data: {
+                parentOrderId: protectiveOrder.parentOrderId,
+                protectiveType: protectiveOrder.type,
+                selectedDex: protectiveOrder.selectedDex || undefined,
+                executedPrice: protectiveOrder.executedPrice ? parseFloat(protectiveOrder.executedPrice.toString()) : undefined,
+                txHash: protectiveOrder.txHash || undefined,
+                errorMessage: protectiveOrder.errorMessage || undefined,
+              },
+              timestamp: Date.now(),
+            };
+            socket.send(JSON.stringify(statusMessage));
+          }
         }
       } catch (error) {
         logger.error({ error, orderId }, 'Failed to fetch order status');
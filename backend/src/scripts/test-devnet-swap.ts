@@ -45,7 +45,7 @@ async function testDevnetSwap() {
 
     // Show available pools
     console.log('📊 Available Pools:');
-    const pools = dexRouter.getAvailablePools();
+    const pools = await dexRouter.getAvailablePools();
     pools.forEach((pool, idx) => {
       console.log(`${idx + 1}. ${pool.dex} - ${pool.mintA.substring(0, 8)}... / ${pool.mintB.substring(0, 8)}...`);
     });
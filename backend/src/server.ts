@@ -11,15 +11,34 @@ import type { HealthCheckResponse } from './types';
 
 // Import routes
 import { registerOrderRoutes } from './routes/orders';
+import { registerQuoteRoutes } from './routes/quotes';
 import { registerWebSocketRoutes } from './routes/websocket';
+import { registerAdminRoutes } from './routes/admin';
+import { registerAuthRoutes, identifyApiKey } from './routes/auth';
+import { enforceRateLimit } from './routes/rate-limit';
+import { registerRiskRoutes } from './routes/risk';
 
 // Import services
-import { TransactionService, WebSocketManager, OrderProcessor } from './services';
+import {
+  TransactionService,
+  SwapPreflight,
+  WebSocketManager,
+  OrderProcessor,
+  OrderStateService,
+  LimitOrderWatcher,
+  ProtectiveOrderWatcher,
+  OrderReconciler,
+  DeadLetterQueue,
+  AuthService,
+  ApiKeyService,
+  RateLimiter,
+  RiskManager,
+  QuoteService,
+  QuoteCache,
+} from './services';
 import { DexRouter as MockDexRouter } from './services/dex-router-mock';
 import { DexRouter as HybridDexRouter } from './services/dex-router-devnet-hybrid';
-
-// Choose which router to use
-type DexRouter = MockDexRouter | HybridDexRouter;
+import { AggregateDexRouter } from './services/dex-router';
 
 const fastify = Fastify({
   logger: logger,
@@ -58,6 +77,8 @@ fastify.get('/health', async (_request, reply) => {
     testBlockchainConnection(),
   ]);
 
+  const dexHealth = services ? await services.dexRouter.health() : [];
+
   const allHealthy = dbHealth && redisHealth && blockchainHealth;
 
   const response: HealthCheckResponse = {
@@ -68,6 +89,8 @@ fastify.get('/health', async (_request, reply) => {
       redis: redisHealth,
       blockchain: blockchainHealth,
     },
+    dexes: dexHealth,
+    quoteCache: services?.quoteCache?.getMetrics(),
     version: '1.0.0',
   };
 
@@ -92,11 +115,37 @@ fastify.get('/live', async (_request, reply) => {
 // Initialize services (will be done in start function)
 let services: {
   transactionService: TransactionService;
-  dexRouter: DexRouter;
+  dexRouter: AggregateDexRouter;
   wsManager: WebSocketManager;
   orderProcessor: OrderProcessor;
+  orderState: OrderStateService;
+  limitOrderWatcher: LimitOrderWatcher;
+  protectiveOrderWatcher: ProtectiveOrderWatcher;
+  orderReconciler: OrderReconciler;
+  deadLetters: DeadLetterQueue;
+  authService: AuthService;
+  apiKeyService: ApiKeyService;
+  rateLimiter: RateLimiter;
+  riskManager: RiskManager;
+  quoteService: QuoteService;
+  quoteCache: QuoteCache | null;
 } | null = null;
 
+// Identify API-key clients on the API and WebSocket, and rate-limit every API request
+fastify.decorateRequest('apiKey', null);
+fastify.addHook('onRequest', async (request, reply) => {
+  const isApi = request.url.startsWith('/api/');
+  if (!services || (!isApi && !request.url.startsWith('/ws/'))) {
+    return;
+  }
+
+  await identifyApiKey(request, services.apiKeyService);
+
+  if (isApi) {
+    await enforceRateLimit(request, reply, services);
+  }
+});
+
 // Register application routes
 fastify.register(async (instance) => {
   // Decorate fastify with services
@@ -105,12 +154,36 @@ fastify.register(async (instance) => {
   await registerOrderRoutes(instance);
 }, { prefix: '/api/orders' });
 
+fastify.register(async (instance) => {
+  instance.decorate('services', services);
+
+  await registerQuoteRoutes(instance);
+}, { prefix: '/api/quote' });
+
+fastify.register(async (instance) => {
+  instance.decorate('services', services);
+
+  await registerAuthRoutes(instance);
+}, { prefix: '/api/auth' });
+
+fastify.register(async (instance) => {
+  instance.decorate('services', services);
+
+  await registerRiskRoutes(instance);
+}, { prefix: '/api/risk' });
+
 fastify.register(async (instance) => {
   instance.decorate('services', services);
 
   await registerWebSocketRoutes(instance);
 }, { prefix: '/ws' });
 
+fastify.register(async (instance) => {
+  instance.decorate('services', services);
+
+  await registerAdminRoutes(instance);
+}, { prefix: '/api/admin' });
+
 // Global error handler
 fastify.setErrorHandler((error, request, reply) => {
   logger.error({ error, url: request.url, method: request.method }, 'Request error');
@@ -135,12 +208,33 @@ const gracefulShutdown = async (signal: string) => {
   logger.info(`Received ${signal}, starting graceful shutdown`);
 
   try {
+    // Stop limit order watcher before the queue it feeds
+    if (services?.limitOrderWatcher) {
+      services.limitOrderWatcher.stop();
+      logger.info('Limit order watcher stopped');
+    }
+
+    if (services?.protectiveOrderWatcher) {
+      services.protectiveOrderWatcher.stop();
+      logger.info('Protective order watcher stopped');
+    }
+
+    if (services?.orderReconciler) {
+      services.orderReconciler.stop();
+      logger.info('Order reconciler stopped');
+    }
+
     // Close order processor
     if (services?.orderProcessor) {
       await services.orderProcessor.close();
       logger.info('Order processor closed');
     }
 
+    if (services?.deadLetters) {
+      await services.deadLetters.close();
+      logger.info('Dead-letter queue closed');
+    }
+
     // Close WebSocket manager
     if (services?.wsManager) {
       services.wsManager.closeAll();
@@ -208,25 +302,67 @@ const start = async () => {
     // USE_REAL_DEX=false: Mock mode (simulated everything, no real transactions)
     const dexRouter = env.USE_REAL_DEX
       ? new HybridDexRouter(connection, wallet, transactionService)
-      : new MockDexRouter(connection, wallet, transactionService);
+      : new MockDexRouter(connection, wallet, transactionService, { seed: env.MOCK_DEX_SEED });
 
     logger.info({ useRealDex: env.USE_REAL_DEX }, 'Initializing DEX Router...', {
       mode: env.USE_REAL_DEX ? 'Hybrid (Real blockchain + simulated pools)' : 'Mock (Fully simulated)'
     });
 
+    // Identical quote requests within the TTL share one fan-out to the venues
+    const quoteCache = env.QUOTE_CACHE_ENABLED ? new QuoteCache(redis) : null;
+    if (quoteCache) {
+      dexRouter.useQuoteCache(quoteCache);
+    }
+
     const wsManager = new WebSocketManager();
-    const orderProcessor = new OrderProcessor(dexRouter, wsManager, redis);
+    const orderState = new OrderStateService();
+    const deadLetters = new DeadLetterQueue(redis);
+
+    // Mock swaps never touch the chain, so there is nothing to pre-check
+    const swapPreflight = env.USE_REAL_DEX && env.SWAP_PREFLIGHT_ENABLED
+      ? new SwapPreflight(connection, transactionService, wallet.publicKey)
+      : null;
+
+    const orderProcessor = new OrderProcessor(
+      dexRouter, wsManager, redis, orderState, transactionService, deadLetters, swapPreflight
+    );
+    const limitOrderWatcher = new LimitOrderWatcher(dexRouter, orderProcessor, wsManager, orderState);
+    const protectiveOrderWatcher = new ProtectiveOrderWatcher(dexRouter, wsManager, transactionService);
+    const orderReconciler = new OrderReconciler(orderProcessor, protectiveOrderWatcher);
+    const quoteService = new QuoteService(dexRouter, redis);
+    const authService = new AuthService(redis);
+    const apiKeyService = new ApiKeyService();
+    const rateLimiter = new RateLimiter(redis);
+    const riskManager = new RiskManager(dexRouter);
 
     // Initialize DEX Router
     await dexRouter.initialize();
     logger.info({ useRealDex: env.USE_REAL_DEX }, 'DEX Router initialized');
 
+    // Start watching limit and protective orders once quotes are available
+    limitOrderWatcher.start();
+    protectiveOrderWatcher.start();
+
+    // Settle swaps a previous run left in flight with no job to finish them
+    orderReconciler.start();
+
     // Store services globally
     services = {
       transactionService,
       dexRouter,
       wsManager,
       orderProcessor,
+      orderState,
+      limitOrderWatcher,
+      protectiveOrderWatcher,
+      orderReconciler,
+      deadLetters,
+      authService,
+      apiKeyService,
+      rateLimiter,
+      riskManager,
+      quoteService,
+      quoteCache,
     };
 
     logger.info('All services initialized successfully');
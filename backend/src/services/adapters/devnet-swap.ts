@@ -0,0 +1,76 @@
+import { Connection, Keypair, PublicKey, Transaction, SystemProgram } from '@solana/web3.js';
+import { logger } from '../../utils/logger';
+import { BlockchainError, SlippageExceededError } from '../../utils/errors';
+import { sendWithSubmissionHook } from '../../utils/send-transaction';
+import { createTokenAccountInstruction } from '../../utils/token-balance';
+import type { Quote, ExecutionResult, SubmissionHook } from '../../types';
+
+/**
+ * Stand-in for a simulated pool's swap instruction
+ * A minimal self-transfer keeps the transaction real without needing a pool on devnet;
+ * the owner's output token account is created first when the quote asks for it
+ */
+export function buildDevnetSwapTransaction(owner: PublicKey, quote: Quote): Transaction {
+  const transaction = new Transaction();
+
+  if (quote.createOutputAccount && quote.tokenOut) {
+    transaction.add(createTokenAccountInstruction(owner, new PublicKey(quote.tokenOut)));
+  }
+
+  return transaction.add(
+    SystemProgram.transfer({
+      fromPubkey: owner,
+      toPubkey: owner, // Self-transfer
+      lamports: 1, // Minimal amount to create real transaction
+    })
+  );
+}
+
+/**
+ * Send a simulated venue's swap as a REAL devnet transaction
+ * Executed price and amount follow the quote, since the pool itself is simulated
+ */
+export async function sendDevnetSwap(
+  connection: Connection,
+  wallet: Keypair,
+  quote: Quote,
+  transaction: Transaction,
+  onSubmitted?: SubmissionHook
+): Promise<ExecutionResult> {
+  logger.info({
+    dex: quote.dex,
+    inputAmount: quote.inputAmount.toString(),
+    outputAmount: quote.outputAmount.toString()
+  }, 'Executing hybrid swap on devnet');
+
+  try {
+    transaction.feePayer = wallet.publicKey;
+
+    // Sign and send transaction
+    logger.info('Sending transaction to devnet...');
+    const signature = await sendWithSubmissionHook(connection, transaction, [wallet], onSubmitted);
+
+    logger.info({
+      signature,
+      explorerUrl: `https://solscan.io/tx/${signature}?cluster=devnet`
+    }, 'Transaction confirmed on devnet');
+
+    return {
+      signature,
+      executedPrice: quote.price,
+      executedAmount: quote.outputAmount,
+      dex: quote.dex,
+    };
+  } catch (error: any) {
+    logger.error({ error }, 'Swap execution failed');
+
+    if (error.message?.includes('slippage')) {
+      throw new SlippageExceededError('Slippage tolerance exceeded');
+    }
+
+    throw new BlockchainError(
+      `Swap execution failed: ${error.message}`,
+      error.message?.includes('blockhash')
+    );
+  }
+}
@@ -0,0 +1,296 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import DLMM, { getPriceOfBinByBinId } from '@meteora-ag/dlmm';
+import type { BinArrayAccount } from '@meteora-ag/dlmm';
+import BN from 'bn.js';
+import { logger } from '../../utils/logger';
+import { BlockchainError, PoolNotFoundError, SlippageExceededError } from '../../utils/errors';
+import { getBinIdFromPrice } from '../../utils/dlmm-bins';
+import { invertPrice, toFixed } from '../../utils/amm-math';
+import { fetchReceivedAmount } from '../../utils/token-balance';
+import { sendWithSubmissionHook } from '../../utils/send-transaction';
+import type { DexType, Quote, ExecutionResult, SubmissionHook } from '../../types';
+import type { DexAdapter, PoolInfo, AdapterHealth } from '../dex-adapter';
+import { env } from '../../config/environment';
+
+interface MeteoraPool {
+  poolId: string;
+  dlmm: DLMM;
+  mintX: string;
+  mintY: string;
+  // Bin arrays the next swap in each direction will walk, from the last refresh
+  binArraysForY: BinArrayAccount[];
+  binArraysForX: BinArrayAccount[];
+}
+
+/**
+ * Meteora DLMM venue using the DLMM SDK
+ * - Quotes walk the pool's on-chain bin arrays, so output is exact across bins
+ * - Executes the DLMM swap instruction and reports the amount actually received
+ * - Quotes carry the active bin price and the number of bins the swap crosses
+ */
+export class MeteoraDlmmAdapter implements DexAdapter {
+  readonly dex: DexType = 'METEORA';
+  readonly wrapsNativeInput = true; // The SDK wraps SOL input into its token account
+  private pools = new Map<string, MeteoraPool>();
+
+  constructor(
+    private connection: Connection,
+    private wallet: Keypair,
+    private poolIds: string[],
+    private cluster: 'mainnet-beta' | 'devnet' | 'localhost' = 'devnet'
+  ) {}
+
+  /**
+   * Load every configured LB pair and its bin arrays
+   */
+  async initialize(): Promise<void> {
+    for (const poolId of this.poolIds) {
+      const dlmm = await DLMM.create(this.connection, new PublicKey(poolId), { cluster: this.cluster });
+      const pool: MeteoraPool = {
+        poolId,
+        dlmm,
+        mintX: dlmm.tokenX.publicKey.toBase58(),
+        mintY: dlmm.tokenY.publicKey.toBase58(),
+        binArraysForY: [],
+        binArraysForX: [],
+      };
+
+      await this.refresh(pool);
+      this.pools.set(poolId, pool);
+    }
+
+    logger.info({ dex: this.dex, pools: this.pools.size, cluster: this.cluster }, 'Meteora DLMM adapter initialized');
+  }
+
+  /**
+   * Quote every configured pool matching the pair from freshly fetched bins
+   */
+  async quote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    const quotes: Quote[] = [];
+
+    for (const pool of this.pools.values()) {
+      const isForward = pool.mintX === tokenIn && pool.mintY === tokenOut;
+      const isReverse = pool.mintX === tokenOut && pool.mintY === tokenIn;
+
+      if (!isForward && !isReverse) continue;
+
+      await this.refresh(pool);
+
+      let swapQuote: ReturnType<MeteoraDlmmAdapter['swapQuote']>;
+      try {
+        swapQuote = this.swapQuote(pool, isForward, amount, 0);
+      } catch {
+        // Not enough liquidity in the fetched bins, so the other pools still quote
+        continue;
+      }
+
+      const outputAmount = BigInt(swapQuote.outAmount.toString());
+      const { binStep, activeId } = pool.dlmm.lbPair;
+      const endBinId = getBinIdFromPrice(swapQuote.endPrice.toNumber(), binStep);
+
+      quotes.push({
+        dex: this.dex,
+        inputAmount: amount,
+        outputAmount,
+        price: Number(outputAmount) / Number(amount),
+        fee: this.getFee(pool),
+        poolId: pool.poolId,
+        slippage: env.DEFAULT_SLIPPAGE,
+        tokenIn,
+        tokenOut,
+        bins: {
+          activeBinId: activeId,
+          activeBinPrice: getPriceOfBinByBinId(activeId, binStep).toNumber(),
+          binsCrossed: Math.abs(endBinId - activeId),
+        },
+      });
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Exact output across the bin arrays fetched at the last refresh
+   */
+  simulate(poolId: string, tokenIn: string, amountIn: bigint): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      return 0n;
+    }
+
+    try {
+      return BigInt(this.swapQuote(pool, pool.mintX === tokenIn, amountIn, 0).outAmount.toString());
+    } catch {
+      // Not enough liquidity in the fetched bins
+      return 0n;
+    }
+  }
+
+  /**
+   * Price of the active bin at the last refresh
+   */
+  spotPrice(poolId: string, tokenIn: string): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      return 0n;
+    }
+
+    const { binStep, activeId } = pool.dlmm.lbPair;
+    const price = toFixed(getPriceOfBinByBinId(activeId, binStep).toNumber());
+    return pool.mintX === tokenIn ? price : invertPrice(price);
+  }
+
+  /**
+   * Build the DLMM swap transaction with the router's minimum output, or one derived from slippage
+   * The SDK creates missing token accounts itself, so createOutputAccount needs nothing here
+   */
+  async buildSwap(quote: Quote, slippage: number, owner: PublicKey = this.wallet.publicKey): Promise<Transaction> {
+    const pool = this.getPool(quote.poolId);
+    const swapForY = (quote.tokenIn ?? pool.mintX) === pool.mintX;
+    const swapQuote = this.swapQuote(pool, swapForY, quote.inputAmount, slippage);
+
+    return pool.dlmm.swap({
+      inToken: new PublicKey(swapForY ? pool.mintX : pool.mintY),
+      outToken: new PublicKey(swapForY ? pool.mintY : pool.mintX),
+      inAmount: new BN(quote.inputAmount.toString()),
+      minOutAmount: quote.minAmountOut !== undefined ? new BN(quote.minAmountOut.toString()) : swapQuote.minOutAmount,
+      lbPair: pool.dlmm.pubkey,
+      user: owner,
+      binArraysPubkey: swapQuote.binArraysPubkey,
+    });
+  }
+
+  /**
+   * Execute a REAL DLMM swap and report the amount actually received
+   */
+  async execute(quote: Quote, slippage: number, onSubmitted?: SubmissionHook): Promise<ExecutionResult> {
+    const pool = this.getPool(quote.poolId);
+    const swapForY = (quote.tokenIn ?? pool.mintX) === pool.mintX;
+
+    logger.info({
+      dex: this.dex,
+      poolId: quote.poolId,
+      inputAmount: quote.inputAmount.toString(),
+      outputAmount: quote.outputAmount.toString(),
+      bins: quote.bins,
+    }, 'Executing Meteora DLMM swap');
+
+    try {
+      const transaction = await this.buildSwap(quote, slippage);
+
+      const signature = await sendWithSubmissionHook(this.connection, transaction, [this.wallet], onSubmitted);
+      const receivedAmount = await fetchReceivedAmount(
+        this.connection,
+        signature,
+        this.wallet.publicKey,
+        new PublicKey(swapForY ? pool.mintY : pool.mintX)
+      );
+
+      logger.info({
+        signature,
+        receivedAmount: receivedAmount.toString(),
+        quotedAmount: quote.outputAmount.toString(),
+      }, 'Meteora DLMM swap confirmed');
+
+      return {
+        signature,
+        executedPrice: Number(receivedAmount) / Number(quote.inputAmount),
+        executedAmount: receivedAmount,
+        dex: this.dex,
+      };
+    } catch (error: any) {
+      logger.error({ error, poolId: quote.poolId }, 'Meteora DLMM swap failed');
+
+      if (error.message?.includes('ExceededAmountSlippageTolerance') || error.message?.includes('slippage')) {
+        throw new SlippageExceededError('Slippage tolerance exceeded');
+      }
+
+      throw new BlockchainError(
+        `Meteora swap execution failed: ${error.message}`,
+        error.message?.includes('blockhash')
+      );
+    }
+  }
+
+  /**
+   * Amount of tokenOut a confirmed swap delivered, from its transaction's token balances
+   */
+  async getReceivedAmount(signature: string, tokenOut: string, owner: PublicKey = this.wallet.publicKey): Promise<bigint> {
+    return fetchReceivedAmount(this.connection, signature, owner, new PublicKey(tokenOut));
+  }
+
+  /**
+   * Get all configured LB pairs
+   */
+  async listPools(): Promise<PoolInfo[]> {
+    return Array.from(this.pools.values()).map((pool) => ({
+      poolId: pool.poolId,
+      dex: this.dex,
+      mintA: pool.mintX,
+      mintB: pool.mintY,
+      fee: this.getFee(pool),
+      liquidity: `${pool.dlmm.tokenX.amount.toString()}/${pool.dlmm.tokenY.amount.toString()}`,
+    }));
+  }
+
+  /**
+   * Healthy while every configured pool loaded and its active bin can be read
+   */
+  async health(): Promise<AdapterHealth> {
+    try {
+      await Promise.all(Array.from(this.pools.values()).map((pool) => pool.dlmm.getActiveBin()));
+    } catch (error) {
+      return {
+        dex: this.dex,
+        healthy: false,
+        pools: this.pools.size,
+        error: error instanceof Error ? error.message : 'Failed to read active bin',
+      };
+    }
+
+    const missing = this.poolIds.length - this.pools.size;
+
+    return {
+      dex: this.dex,
+      healthy: missing === 0,
+      pools: this.pools.size,
+      error: missing > 0 ? `${missing} pool(s) failed to load` : undefined,
+    };
+  }
+
+  /**
+   * Re-read pair state and the bin arrays each swap direction needs
+   */
+  private async refresh(pool: MeteoraPool): Promise<void> {
+    await pool.dlmm.refetchStates();
+
+    const [binArraysForY, binArraysForX] = await Promise.all([
+      pool.dlmm.getBinArrayForSwap(true),
+      pool.dlmm.getBinArrayForSwap(false),
+    ]);
+
+    pool.binArraysForY = binArraysForY;
+    pool.binArraysForX = binArraysForX;
+  }
+
+  private swapQuote(pool: MeteoraPool, swapForY: boolean, amountIn: bigint, slippage: number) {
+    return pool.dlmm.swapQuote(
+      new BN(amountIn.toString()),
+      swapForY,
+      new BN(Math.floor(slippage * 10000)), // Basis points
+      swapForY ? pool.binArraysForY : pool.binArraysForX
+    );
+  }
+
+  private getFee(pool: MeteoraPool): number {
+    return pool.dlmm.getFeeInfo().baseFeeRatePercentage.toNumber() / 100;
+  }
+
+  private getPool(poolId: string): MeteoraPool {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      throw new PoolNotFoundError(`Meteora pool not loaded: ${poolId}`);
+    }
+    return pool;
+  }
+}
@@ -0,0 +1,360 @@
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js';
+import { logger } from '../../utils/logger';
+import {
+  InsufficientFundsError,
+  SlippageExceededError,
+  TransactionTimeoutError,
+  withRetry,
+} from '../../utils/errors';
+import { applyFee, mulFixed } from '../../utils/amm-math';
+import type { RandomSource } from '../../utils/prng';
+import type { DexType, Quote, ExecutionResult, SubmissionHook } from '../../types';
+import type { DexAdapter, PoolInfo, AdapterHealth } from '../dex-adapter';
+import { env } from '../../config/environment';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+/**
+ * Behaviour of a simulated venue
+ */
+export interface MockVenueConfig {
+  dex: DexType;
+  fee: number;
+  priceVariance: number; // ± fraction the venue price may drift from the base price
+  quoteLatencyMs: [number, number]; // [min, spread]
+  buildLatencyMs: [number, number];
+  executionLatencyMs: [number, number];
+  failureRate: number; // chance of a simulated slippage failure
+  slippageUsage: number; // share of max slippage consumed on execution
+  liquidity: string;
+}
+
+export const MOCK_RAYDIUM: MockVenueConfig = {
+  dex: 'RAYDIUM',
+  fee: 0.0025,
+  priceVariance: 0.02,
+  quoteLatencyMs: [150, 100],
+  buildLatencyMs: [500, 300],
+  executionLatencyMs: [2000, 1000],
+  failureRate: 0.05,
+  slippageUsage: 0.3,
+  liquidity: '1000000',
+};
+
+export const MOCK_METEORA: MockVenueConfig = {
+  dex: 'METEORA',
+  fee: 0.002,
+  priceVariance: 0.03,
+  quoteLatencyMs: [180, 100],
+  buildLatencyMs: [400, 300],
+  executionLatencyMs: [1800, 1000],
+  failureRate: 0.03, // Meteora is more stable
+  slippageUsage: 0.25,
+  liquidity: '1500000',
+};
+
+export const MOCK_ORCA: MockVenueConfig = {
+  dex: 'ORCA',
+  fee: 0.003,
+  priceVariance: 0.015, // Concentrated liquidity keeps quotes tight around spot
+  quoteLatencyMs: [160, 100],
+  buildLatencyMs: [450, 300],
+  executionLatencyMs: [1900, 1000],
+  failureRate: 0.04,
+  slippageUsage: 0.2,
+  liquidity: '1200000',
+};
+
+export type MockFailure = 'slippage' | 'timeout' | 'insufficient_funds';
+
+/**
+ * Scripted venue behaviour for replaying exact routing and failure paths
+ * Unset fields fall back to the venue config and the random source
+ */
+export interface MockVenueScenario {
+  price?: number; // Fixed price (tokenOut per tokenIn), no variance
+  latencyMs?: number; // Fixed latency for every simulated step
+  slippageImpact?: number; // Fixed share of the quote lost on execution
+  priceImpact?: number; // Share of the spot output lost to price impact (otherwise fills flat at spot)
+  // Outcome of each execution attempt in order (null = succeed); once exhausted, attempts succeed
+  failures?: Array<MockFailure | null>;
+  retryDelayMs?: number;
+}
+
+export interface MockAdapterOptions {
+  random?: RandomSource; // Defaults to Math.random
+  scenario?: MockVenueScenario;
+}
+
+/**
+ * Mock venue adapter
+ * Simulates a DEX with realistic delays, price variations and occasional failures
+ */
+export class MockDexAdapter implements DexAdapter {
+  readonly dex: DexType;
+
+  // Mock base prices for common token pairs (SOL/USDC example)
+  private readonly BASE_PRICES: { [key: string]: number } = {
+    'SOL/USDC': 100.0,
+    'USDC/SOL': 0.01,
+    'SOL/SOL': 1.0,
+  };
+
+  private random: RandomSource;
+  private scenario: MockVenueScenario;
+  private executionAttempts = 0;
+  private priceOffset: number | null = null;
+  private readonly poolId: string;
+
+  constructor(
+    private config: MockVenueConfig,
+    private wallet: Keypair,
+    options: MockAdapterOptions = {}
+  ) {
+    this.dex = config.dex;
+    this.random = options.random ?? Math.random;
+    this.scenario = options.scenario ?? {};
+    this.poolId = this.generateMockPoolId();
+  }
+
+  /**
+   * Initialize the mock venue
+   */
+  async initialize(): Promise<void> {
+    // Simulate initialization delay
+    await this.sleep(this.scenario.latencyMs ?? 500);
+    logger.info({ dex: this.dex }, 'Mock DEX adapter initialized');
+  }
+
+  /**
+   * Get mock quote for the pair
+   */
+  async quote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    // Simulate network delay
+    await this.sleep(this.latency(this.config.quoteLatencyMs));
+
+    const fee = this.config.fee;
+    const price = this.scenario.price ?? this.getBasePrice(tokenIn, tokenOut) * this.nextPriceFactor();
+
+    const priceImpact = this.scenario.priceImpact ?? 0;
+
+    const { amountInAfterFee } = applyFee(amount, fee);
+    const spotOutput = mulFixed(amountInAfterFee, price);
+    const outputAmount = spotOutput - mulFixed(spotOutput, priceImpact);
+
+    return [{
+      dex: this.dex,
+      inputAmount: amount,
+      outputAmount,
+      price,
+      fee,
+      poolId: this.poolId,
+      slippage: env.DEFAULT_SLIPPAGE,
+      tokenIn,
+      tokenOut,
+      priceImpact,
+    }];
+  }
+
+  /**
+   * Build the (never sent) transaction a mock swap would submit
+   */
+  async buildSwap(quote: Quote, slippage: number, owner: PublicKey = this.wallet.publicKey): Promise<Transaction> {
+    logger.info({ dex: this.dex, poolId: quote.poolId, slippage }, 'Building mock swap transaction');
+
+    // Simulate transaction building delay
+    await this.sleep(this.latency(this.config.buildLatencyMs));
+
+    return new Transaction().add(
+      SystemProgram.transfer({
+        fromPubkey: owner,
+        toPubkey: owner,
+        lamports: 1,
+      })
+    );
+  }
+
+  /**
+   * Execute mock swap
+   */
+  async execute(quote: Quote, slippage: number, onSubmitted?: SubmissionHook): Promise<ExecutionResult> {
+    return withRetry(
+      async () => {
+        await this.buildSwap(quote, slippage);
+
+        // Simulate transaction execution delay
+        await this.sleep(this.latency(this.config.executionLatencyMs));
+
+        // Simulate occasional failures, or replay the scenario's failure sequence
+        this.throwIfFailing();
+
+        // Generate mock transaction hash
+        const txId = this.generateMockTxHash();
+
+        // Simulate price execution with minor slippage
+        const slippageImpact = this.scenario.slippageImpact ??
+          this.random() * slippage * this.config.slippageUsage;
+        const executedPrice = quote.price * (1 - slippageImpact);
+        const executedAmount = mulFixed(quote.outputAmount, 1 - slippageImpact);
+
+        // Like an on-chain swap program, revert rather than fill below the minimum output
+        if (quote.minAmountOut !== undefined && executedAmount < quote.minAmountOut) {
+          throw new SlippageExceededError(
+            `Mock slippage tolerance exceeded: ${executedAmount} below minimum ${quote.minAmountOut}`
+          );
+        }
+
+        // A mock swap has no blockhash and never reaches the chain
+        await onSubmitted?.({ signature: txId });
+
+        logger.info(
+          {
+            dex: this.dex,
+            txId,
+            executedPrice,
+            executedAmount: executedAmount.toString(),
+            slippageImpact,
+          },
+          'Mock swap executed successfully'
+        );
+
+        return {
+          signature: txId,
+          executedPrice,
+          executedAmount,
+          dex: quote.dex,
+        };
+      },
+      {
+        maxRetries: env.ORDER_RETRY_ATTEMPTS,
+        baseDelay: this.scenario.retryDelayMs ?? 2000,
+        maxDelay: this.scenario.retryDelayMs ?? 10000,
+        onRetry: (attempt, error) => {
+          logger.warn({ attempt, error, dex: this.dex }, 'Retrying mock swap execution');
+        },
+      }
+    );
+  }
+
+  /**
+   * Get available pools (mock)
+   */
+  async listPools(): Promise<PoolInfo[]> {
+    return [{
+      poolId: this.poolId,
+      dex: this.dex,
+      mintA: SOL,
+      mintB: USDC,
+      fee: this.config.fee,
+      liquidity: this.config.liquidity,
+    }];
+  }
+
+  /**
+   * Mock venues are always reachable
+   */
+  async health(): Promise<AdapterHealth> {
+    return { dex: this.dex, healthy: true, pools: 1 };
+  }
+
+  /**
+   * Venue price as a bounded random walk around the base price
+   * Consecutive quotes stay close, as on a real pool, while venues still differ
+   */
+  private nextPriceFactor(): number {
+    const variance = this.config.priceVariance;
+    const step = (this.random() * 2 - 1) * variance;
+
+    this.priceOffset = this.priceOffset === null
+      ? step
+      : Math.min(variance, Math.max(-variance, this.priceOffset + step * 0.1));
+
+    return 1 + this.priceOffset;
+  }
+
+  /**
+   * Throw the failure for this execution attempt, if any
+   */
+  private throwIfFailing(): void {
+    const attempt = this.executionAttempts++;
+
+    const failure = this.scenario.failures
+      ? this.scenario.failures[attempt] ?? null
+      : this.random() < this.config.failureRate ? 'slippage' : null;
+
+    switch (failure) {
+      case 'slippage':
+        throw new SlippageExceededError('Mock slippage tolerance exceeded');
+      case 'timeout':
+        throw new TransactionTimeoutError('Mock transaction confirmation timeout');
+      case 'insufficient_funds':
+        throw new InsufficientFundsError('Mock insufficient funds for transaction');
+    }
+  }
+
+  /**
+   * Latency for a simulated step: fixed by the scenario, otherwise [min, spread]
+   */
+  private latency([min, spread]: [number, number]): number {
+    return this.scenario.latencyMs ?? min + this.random() * spread;
+  }
+
+  /**
+   * Get base price for token pair
+   */
+  private getBasePrice(tokenIn: string, tokenOut: string): number {
+    // Simplified token symbols for demo
+    const inSymbol = this.getTokenSymbol(tokenIn);
+    const outSymbol = this.getTokenSymbol(tokenOut);
+    const pairKey = `${inSymbol}/${outSymbol}`;
+
+    return this.BASE_PRICES[pairKey] || 1.0;
+  }
+
+  /**
+   * Get simplified token symbol from address
+   */
+  private getTokenSymbol(tokenAddress: string): string {
+    // SOL wrapped address
+    if (tokenAddress === SOL) {
+      return 'SOL';
+    }
+    // USDC address (mainnet or devnet)
+    if (tokenAddress === 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v' || tokenAddress === USDC) {
+      return 'USDC';
+    }
+    return 'SOL'; // Default
+  }
+
+  /**
+   * Generate mock pool ID
+   */
+  private generateMockPoolId(): string {
+    const chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+    let id = `${this.dex}_`;
+    for (let i = 0; i < 32; i++) {
+      id += chars[Math.floor(this.random() * chars.length)];
+    }
+    return id;
+  }
+
+  /**
+   * Generate mock Solana transaction hash
+   */
+  private generateMockTxHash(): string {
+    const chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+    let hash = '';
+    for (let i = 0; i < 88; i++) {
+      hash += chars[Math.floor(this.random() * chars.length)];
+    }
+    return hash;
+  }
+
+  /**
+   * Sleep utility
+   */
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,314 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { Raydium, TxVersion } from '@raydium-io/raydium-sdk-v2';
+import type { AmmV4Keys, AmmV5Keys, ComputeAmountOutParam } from '@raydium-io/raydium-sdk-v2';
+import BN from 'bn.js';
+import { logger } from '../../utils/logger';
+import { BlockchainError, PoolNotFoundError, SlippageExceededError } from '../../utils/errors';
+import { getMinAmountOut, getSpotPrice } from '../../utils/amm-math';
+import { fetchReceivedAmount } from '../../utils/token-balance';
+import { sendWithSubmissionHook } from '../../utils/send-transaction';
+import type { DexType, Quote, ExecutionResult, SubmissionHook } from '../../types';
+import type { DexAdapter, PoolInfo, AdapterHealth } from '../dex-adapter';
+import { env } from '../../config/environment';
+
+interface RaydiumPool {
+  poolId: string;
+  poolInfo: ComputeAmountOutParam['poolInfo'];
+  poolKeys: AmmV4Keys | AmmV5Keys;
+}
+
+/**
+ * Raydium AMM venue using the Raydium SDK
+ * - Quotes from on-chain pool reserves
+ * - Executes a REAL AMM swap instruction against the configured pools
+ * - Executed amount comes from the output token balance change recorded in the swap's own transaction
+ *
+ * Works against any RPC that has the AMM program and pool accounts, including a
+ * local validator started with the program and pools cloned from devnet
+ */
+export class RaydiumAmmAdapter implements DexAdapter {
+  readonly dex: DexType = 'RAYDIUM';
+  readonly wrapsNativeInput = true; // inputUseSolBalance funds a wrapped SOL account
+  private raydium: Raydium | null = null;
+  private pools = new Map<string, RaydiumPool>();
+
+  constructor(
+    private connection: Connection,
+    private wallet: Keypair,
+    private poolIds: string[],
+    private cluster: 'mainnet' | 'devnet' = 'devnet'
+  ) {}
+
+  /**
+   * Load the SDK and every configured pool's keys and state from RPC
+   */
+  async initialize(): Promise<void> {
+    this.raydium = await Raydium.load({
+      owner: this.wallet,
+      connection: this.connection,
+      cluster: this.cluster,
+      disableFeatureCheck: true,
+      disableLoadToken: true,
+    });
+
+    for (const poolId of this.poolIds) {
+      const { poolInfo, poolKeys } = await this.raydium.liquidity.getPoolInfoFromRpc({ poolId });
+      this.pools.set(poolId, { poolId, poolInfo, poolKeys });
+    }
+
+    logger.info({ dex: this.dex, pools: this.pools.size, cluster: this.cluster }, 'Raydium AMM adapter initialized');
+  }
+
+  /**
+   * Quote every configured pool matching the pair from fresh reserves
+   */
+  async quote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    const matching = Array.from(this.pools.values()).filter((pool) => this.matches(pool, tokenIn, tokenOut));
+    if (matching.length === 0) {
+      return [];
+    }
+
+    await this.refreshReserves(matching);
+
+    return matching.map((pool) => {
+      const outputAmount = this.simulate(pool.poolId, tokenIn, amount);
+
+      return {
+        dex: this.dex,
+        inputAmount: amount,
+        outputAmount,
+        price: Number(outputAmount) / Number(amount),
+        fee: pool.poolInfo.feeRate,
+        poolId: pool.poolId,
+        slippage: env.DEFAULT_SLIPPAGE,
+        tokenIn,
+        tokenOut,
+      };
+    });
+  }
+
+  /**
+   * SDK constant product output at the last fetched reserves
+   */
+  simulate(poolId: string, tokenIn: string, amountIn: bigint): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool || !this.raydium) {
+      return 0n;
+    }
+
+    const tokenOut = pool.poolInfo.mintA.address === tokenIn
+      ? pool.poolInfo.mintB.address
+      : pool.poolInfo.mintA.address;
+
+    const { amountOut } = this.raydium.liquidity.computeAmountOut({
+      poolInfo: pool.poolInfo,
+      amountIn: new BN(amountIn.toString()),
+      mintIn: tokenIn,
+      mintOut: tokenOut,
+      slippage: 0,
+    });
+
+    return BigInt(amountOut.toString());
+  }
+
+  /**
+   * Reserve ratio at the last fetched reserves
+   */
+  spotPrice(poolId: string, tokenIn: string): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      return 0n;
+    }
+
+    const baseReserve = BigInt(pool.poolInfo.baseReserve.toString());
+    const quoteReserve = BigInt(pool.poolInfo.quoteReserve.toString());
+    const [reserveIn, reserveOut] = pool.poolInfo.mintA.address === tokenIn
+      ? [baseReserve, quoteReserve]
+      : [quoteReserve, baseReserve];
+
+    return reserveIn > 0n ? getSpotPrice(reserveIn, reserveOut) : 0n;
+  }
+
+  /**
+   * Build the AMM swap transaction with the router's minimum output, or one derived from slippage
+   * The SDK adds creation of a missing output token account itself, so createOutputAccount needs nothing here
+   */
+  async buildSwap(quote: Quote, slippage: number, owner?: PublicKey): Promise<Transaction> {
+    const { transaction, signers } = await this.buildSwapData(quote, slippage, owner);
+
+    // Associated accounts only, so the swap never needs extra signers and can be combined with other hops
+    if (signers.length > 0) {
+      throw new BlockchainError('Raydium swap requires additional signers', false);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Execute a REAL Raydium AMM swap and report the amount actually received
+   */
+  async execute(quote: Quote, slippage: number, onSubmitted?: SubmissionHook): Promise<ExecutionResult> {
+    const tokenOut = this.getTokenOut(quote);
+
+    logger.info({
+      dex: this.dex,
+      poolId: quote.poolId,
+      inputAmount: quote.inputAmount.toString(),
+      outputAmount: quote.outputAmount.toString(),
+      slippage,
+    }, 'Executing Raydium AMM swap');
+
+    try {
+      const { transaction, signers } = await this.buildSwapData(quote, slippage);
+
+      const signature = await sendWithSubmissionHook(this.connection, transaction, [this.wallet, ...signers], onSubmitted);
+      const receivedAmount = await fetchReceivedAmount(this.connection, signature, this.wallet.publicKey, new PublicKey(tokenOut));
+
+      logger.info({
+        signature,
+        receivedAmount: receivedAmount.toString(),
+        quotedAmount: quote.outputAmount.toString(),
+      }, 'Raydium AMM swap confirmed');
+
+      return {
+        signature,
+        executedPrice: Number(receivedAmount) / Number(quote.inputAmount),
+        executedAmount: receivedAmount,
+        dex: this.dex,
+      };
+    } catch (error: any) {
+      logger.error({ error, poolId: quote.poolId }, 'Raydium AMM swap failed');
+
+      // AMM program error 0x1e = ExceededSlippage
+      if (error.message?.includes('slippage') || error.message?.includes('0x1e')) {
+        throw new SlippageExceededError('Slippage tolerance exceeded');
+      }
+
+      throw new BlockchainError(
+        `Raydium swap execution failed: ${error.message}`,
+        error.message?.includes('blockhash')
+      );
+    }
+  }
+
+  /**
+   * Amount of tokenOut a confirmed swap delivered, from its transaction's token balances
+   */
+  async getReceivedAmount(signature: string, tokenOut: string, owner: PublicKey = this.wallet.publicKey): Promise<bigint> {
+    return fetchReceivedAmount(this.connection, signature, owner, new PublicKey(tokenOut));
+  }
+
+  /**
+   * Get all configured pools
+   */
+  async listPools(): Promise<PoolInfo[]> {
+    return Array.from(this.pools.values()).map((pool) => ({
+      poolId: pool.poolId,
+      dex: this.dex,
+      mintA: pool.poolInfo.mintA.address,
+      mintB: pool.poolInfo.mintB.address,
+      fee: pool.poolInfo.feeRate,
+      liquidity: `${pool.poolInfo.baseReserve.toString()}/${pool.poolInfo.quoteReserve.toString()}`,
+    }));
+  }
+
+  /**
+   * Healthy while every configured pool loaded and the RPC answers
+   */
+  async health(): Promise<AdapterHealth> {
+    try {
+      await this.connection.getLatestBlockhash('confirmed');
+    } catch (error) {
+      return {
+        dex: this.dex,
+        healthy: false,
+        pools: this.pools.size,
+        error: error instanceof Error ? error.message : 'RPC unavailable',
+      };
+    }
+
+    const missing = this.poolIds.length - this.pools.size;
+
+    return {
+      dex: this.dex,
+      healthy: this.raydium !== null && missing === 0,
+      pools: this.pools.size,
+      error: missing > 0 ? `${missing} pool(s) failed to load` : undefined,
+    };
+  }
+
+  /**
+   * Re-read reserves for the given pools in one batched RPC call
+   */
+  private async refreshReserves(pools: RaydiumPool[]): Promise<void> {
+    const rpcData = await this.raydium!.liquidity.getRpcPoolInfos(pools.map((pool) => pool.poolId));
+
+    for (const pool of pools) {
+      const data = rpcData[pool.poolId];
+      if (!data) continue;
+
+      pool.poolInfo = {
+        ...pool.poolInfo,
+        baseReserve: data.baseReserve,
+        quoteReserve: data.quoteReserve,
+        status: data.status.toNumber(),
+      };
+    }
+  }
+
+  private async buildSwapData(quote: Quote, slippage: number, owner?: PublicKey) {
+    const pool = this.pools.get(quote.poolId);
+    if (!pool || !this.raydium) {
+      throw new PoolNotFoundError(`Raydium pool not loaded: ${quote.poolId}`);
+    }
+
+    // The SDK builds for the owner it was loaded with; another owner needs its own instance
+    const raydium = owner && !owner.equals(this.wallet.publicKey)
+      ? await Raydium.load({
+          owner,
+          connection: this.connection,
+          cluster: this.cluster,
+          disableFeatureCheck: true,
+          disableLoadToken: true,
+        })
+      : this.raydium;
+
+    const inputMint = quote.tokenIn ?? pool.poolInfo.mintA.address;
+    const minAmountOut = quote.minAmountOut ?? getMinAmountOut(quote.outputAmount, slippage);
+
+    return raydium.liquidity.swap({
+      poolInfo: pool.poolInfo,
+      poolKeys: pool.poolKeys,
+      amountIn: new BN(quote.inputAmount.toString()),
+      amountOut: new BN(minAmountOut.toString()),
+      fixedSide: 'in',
+      inputMint,
+      txVersion: TxVersion.LEGACY,
+      config: {
+        associatedOnly: true,
+        inputUseSolBalance: true,
+        outputUseSolBalance: false, // Keep wrapped SOL output in its ATA so its balance change is recorded
+      },
+    });
+  }
+
+  private getTokenOut(quote: Quote): string {
+    if (quote.tokenOut) {
+      return quote.tokenOut;
+    }
+
+    const pool = this.pools.get(quote.poolId);
+    if (!pool) {
+      throw new PoolNotFoundError(`Raydium pool not loaded: ${quote.poolId}`);
+    }
+
+    const { mintA, mintB } = pool.poolInfo;
+    return (quote.tokenIn ?? mintA.address) === mintA.address ? mintB.address : mintA.address;
+  }
+
+  private matches(pool: RaydiumPool, tokenIn: string, tokenOut: string): boolean {
+    const { mintA, mintB } = pool.poolInfo;
+    return (mintA.address === tokenIn && mintB.address === tokenOut) ||
+      (mintA.address === tokenOut && mintB.address === tokenIn);
+  }
+}
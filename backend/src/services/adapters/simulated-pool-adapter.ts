@@ -0,0 +1,176 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { logger } from '../../utils/logger';
+import { getAmountOut, getSpotPrice } from '../../utils/amm-math';
+import type { DexType, Quote, ExecutionResult, SubmissionHook } from '../../types';
+import type { DexAdapter, PoolInfo, AdapterHealth } from '../dex-adapter';
+import { env } from '../../config/environment';
+import { buildDevnetSwapTransaction, sendDevnetSwap } from './devnet-swap';
+
+/**
+ * Simulated constant product pool state
+ */
+export interface SimulatedPool {
+  poolId: string;
+  reserveA: bigint;
+  reserveB: bigint;
+  mintA: string;
+  mintB: string;
+  fee: number;
+}
+
+/**
+ * Simulated pool venue for devnet
+ * - Uses REAL blockchain transactions
+ * - Simulated pool pricing (no actual pools needed)
+ * - Tracks reserves locally so price impact follows executed swaps
+ */
+export class SimulatedPoolAdapter implements DexAdapter {
+  private pools = new Map<string, SimulatedPool>();
+
+  constructor(
+    readonly dex: DexType,
+    private connection: Connection,
+    private wallet: Keypair,
+    pools: SimulatedPool[]
+  ) {
+    for (const pool of pools) {
+      this.pools.set(pool.poolId, { ...pool });
+    }
+  }
+
+  /**
+   * Nothing to load: pools are seeded in the constructor
+   */
+  async initialize(): Promise<void> {
+    logger.info({ dex: this.dex, pools: this.pools.size }, 'Simulated pool adapter initialized');
+  }
+
+  /**
+   * Quote every pool matching the pair
+   */
+  async quote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    const quotes: Quote[] = [];
+
+    for (const pool of this.pools.values()) {
+      const isForward = pool.mintA === tokenIn && pool.mintB === tokenOut;
+      const isReverse = pool.mintA === tokenOut && pool.mintB === tokenIn;
+
+      if (!isForward && !isReverse) continue;
+
+      const outputAmount = this.simulate(pool.poolId, tokenIn, amount);
+      const price = Number(outputAmount) / Number(amount);
+
+      quotes.push({
+        dex: this.dex,
+        inputAmount: amount,
+        outputAmount,
+        price,
+        fee: pool.fee,
+        poolId: pool.poolId,
+        slippage: env.DEFAULT_SLIPPAGE,
+        tokenIn,
+        tokenOut,
+      });
+    }
+
+    return quotes;
+  }
+
+  /**
+   * Constant product output for a pool: (x + dx) * (y - dy) = x * y
+   */
+  simulate(poolId: string, tokenIn: string, amountIn: bigint): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      return 0n;
+    }
+
+    const [reserveIn, reserveOut] = this.getReserves(pool, tokenIn);
+    return getAmountOut(amountIn, reserveIn, reserveOut, pool.fee);
+  }
+
+  /**
+   * Reserve ratio of a pool
+   */
+  spotPrice(poolId: string, tokenIn: string): bigint {
+    const pool = this.pools.get(poolId);
+    if (!pool) {
+      return 0n;
+    }
+
+    const [reserveIn, reserveOut] = this.getReserves(pool, tokenIn);
+    return reserveIn > 0n ? getSpotPrice(reserveIn, reserveOut) : 0n;
+  }
+
+  /**
+   * Build the swap transaction
+   */
+  async buildSwap(quote: Quote, _slippage: number, owner: PublicKey = this.wallet.publicKey): Promise<Transaction> {
+    return buildDevnetSwapTransaction(owner, quote);
+  }
+
+  /**
+   * Execute swap with REAL blockchain transaction
+   * This creates actual on-chain transactions on devnet
+   */
+  async execute(quote: Quote, slippage: number, onSubmitted?: SubmissionHook): Promise<ExecutionResult> {
+    const transaction = await this.buildSwap(quote, slippage);
+    const result = await sendDevnetSwap(this.connection, this.wallet, quote, transaction, onSubmitted);
+
+    // Update simulated pool reserves (for realistic state management)
+    this.onSwapConfirmed(quote);
+
+    return result;
+  }
+
+  /**
+   * Apply a confirmed swap to the simulated reserves
+   */
+  onSwapConfirmed(quote: Quote): void {
+    const pool = this.pools.get(quote.poolId);
+    if (!pool) return;
+
+    const isForward = (quote.tokenIn ?? pool.mintA) === pool.mintA;
+    if (isForward) {
+      pool.reserveA += quote.inputAmount;
+      pool.reserveB -= quote.outputAmount;
+    } else {
+      pool.reserveB += quote.inputAmount;
+      pool.reserveA -= quote.outputAmount;
+    }
+  }
+
+  /**
+   * Get all simulated pools
+   */
+  async listPools(): Promise<PoolInfo[]> {
+    return Array.from(this.pools.values()).map((pool) => ({
+      poolId: pool.poolId,
+      dex: this.dex,
+      mintA: pool.mintA,
+      mintB: pool.mintB,
+      fee: pool.fee,
+      liquidity: `${pool.reserveA.toString()}/${pool.reserveB.toString()}`,
+    }));
+  }
+
+  /**
+   * Healthy while pools have liquidity on both sides
+   */
+  async health(): Promise<AdapterHealth> {
+    const drained = Array.from(this.pools.values()).filter(
+      (pool) => pool.reserveA <= 0n || pool.reserveB <= 0n
+    );
+
+    return {
+      dex: this.dex,
+      healthy: this.pools.size > 0 && drained.length === 0,
+      pools: this.pools.size,
+      error: drained.length > 0 ? `${drained.length} pool(s) drained` : undefined,
+    };
+  }
+
+  private getReserves(pool: SimulatedPool, tokenIn: string): [bigint, bigint] {
+    return pool.mintA === tokenIn ? [pool.reserveA, pool.reserveB] : [pool.reserveB, pool.reserveA];
+  }
+}
@@ -0,0 +1,128 @@
+import { createHash, randomBytes } from 'crypto';
+import type { ApiKey, ApiKeyScope } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { ApiKeyNotFoundError } from '../utils/errors';
+import type { ApiKeyIdentity, ApiKeyItem } from '../types';
+
+export interface CreateApiKeyInput {
+  name: string;
+  scopes: ApiKeyScope[];
+  wallet?: string;
+  rateLimit?: number;
+}
+
+const KEY_PREFIX = 'dex_';
+const DISPLAY_PREFIX_LENGTH = 12;
+
+/**
+ * API Key Service
+ * Keys for bot clients, each with its own scopes and rate limit. Only a SHA-256
+ * hash of a key is stored; the key itself is returned once, when it is issued.
+ */
+export class ApiKeyService {
+  constructor(private defaultRateLimit: number = env.RATE_LIMIT_MAX_REQUESTS) {}
+
+  async create(input: CreateApiKeyInput): Promise<ApiKeyItem> {
+    const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name: input.name,
+        keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashKey(key),
+        scopes: input.scopes,
+        wallet: input.wallet ?? null,
+        rateLimit: input.rateLimit ?? this.defaultRateLimit,
+      },
+    });
+
+    logger.info({ apiKeyId: apiKey.id, name: apiKey.name, scopes: apiKey.scopes }, 'API key issued');
+
+    return { ...toApiKeyItem(apiKey), key };
+  }
+
+  /**
+   * Issued keys, newest first, revoked ones included
+   */
+  async list(): Promise<ApiKeyItem[]> {
+    const apiKeys = await prisma.apiKey.findMany({ orderBy: { createdAt: 'desc' } });
+    return apiKeys.map(toApiKeyItem);
+  }
+
+  /**
+   * Stop accepting a key; revoking it again is a no-op
+   */
+  async revoke(id: string): Promise<ApiKeyItem> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+    if (!apiKey) {
+      throw new ApiKeyNotFoundError(id);
+    }
+
+    if (apiKey.revokedAt) {
+      return toApiKeyItem(apiKey);
+    }
+
+    const revoked = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+
+    logger.info({ apiKeyId: id, name: apiKey.name }, 'API key revoked');
+
+    return toApiKeyItem(revoked);
+  }
+
+  /**
+   * Client a key belongs to, or null when it is unknown or revoked
+   */
+  async authenticate(key: string): Promise<ApiKeyIdentity | null> {
+    const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashKey(key) } });
+    if (!apiKey || apiKey.revokedAt) {
+      return null;
+    }
+
+    return toApiKeyIdentity(apiKey);
+  }
+
+  /**
+   * Count a request made with a key, and whether the rate limit turned it away
+   */
+  async recordUsage(id: string, rateLimited: boolean): Promise<void> {
+    await prisma.apiKey.update({
+      where: { id },
+      data: {
+        requestCount: { increment: 1 },
+        rateLimitedCount: rateLimited ? { increment: 1 } : undefined,
+        lastUsedAt: new Date(),
+      },
+    });
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+function toApiKeyIdentity(apiKey: ApiKey): ApiKeyIdentity {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    scopes: apiKey.scopes,
+    wallet: apiKey.wallet,
+    rateLimit: apiKey.rateLimit,
+  };
+}
+
+function toApiKeyItem(apiKey: ApiKey): ApiKeyItem {
+  return {
+    ...toApiKeyIdentity(apiKey),
+    keyPrefix: apiKey.keyPrefix,
+    requestCount: apiKey.requestCount.toString(),
+    rateLimitedCount: apiKey.rateLimitedCount.toString(),
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt,
+    createdAt: apiKey.createdAt,
+  };
+}
@@ -0,0 +1,100 @@
+import { createHash, randomBytes } from 'crypto';
+import { Redis } from 'ioredis';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { UnauthorizedError } from '../utils/errors';
+import { buildSignInMessage, verifyWalletSignature } from '../utils/wallet-signature';
+
+/**
+ * A message for a wallet to sign, valid until expiresAt
+ */
+export interface SignInChallenge {
+  wallet: string;
+  nonce: string;
+  message: string;
+  expiresAt: number;
+}
+
+export interface WalletSession {
+  token: string;
+  wallet: string;
+  expiresAt: number;
+}
+
+const NONCE_KEY_PREFIX = 'auth:nonce:';
+const SESSION_KEY_PREFIX = 'auth:session:';
+
+/**
+ * Auth Service
+ * Sign-in with a Solana wallet: the wallet signs a one-time challenge and gets a
+ * session token proving it controls the address. Challenges and sessions live in
+ * Redis; sessions are stored under a hash of the token, never the token itself.
+ */
+export class AuthService {
+  constructor(
+    private redis: Redis,
+    private domain: string = env.AUTH_DOMAIN,
+    private nonceTtlSeconds: number = env.AUTH_NONCE_TTL_SECONDS,
+    private sessionTtlSeconds: number = env.AUTH_SESSION_TTL_SECONDS
+  ) {}
+
+  /**
+   * Issue a single-use sign-in message for a wallet
+   */
+  async createChallenge(wallet: string): Promise<SignInChallenge> {
+    const nonce = randomBytes(16).toString('hex');
+    const issuedAt = new Date();
+    const expiresAt = new Date(issuedAt.getTime() + this.nonceTtlSeconds * 1000);
+
+    const challenge: SignInChallenge = {
+      wallet,
+      nonce,
+      message: buildSignInMessage({ domain: this.domain, wallet, nonce, issuedAt, expiresAt }),
+      expiresAt: expiresAt.getTime(),
+    };
+
+    await this.redis.set(NONCE_KEY_PREFIX + nonce, JSON.stringify(challenge), 'EX', this.nonceTtlSeconds);
+
+    return challenge;
+  }
+
+  /**
+   * Exchange a challenge signed by its wallet for a session
+   * The challenge is consumed whether or not the signature holds
+   */
+  async signIn(wallet: string, nonce: string, signature: string): Promise<WalletSession> {
+    const stored = await this.redis.getdel(NONCE_KEY_PREFIX + nonce);
+    const challenge = stored ? (JSON.parse(stored) as SignInChallenge) : null;
+
+    if (!challenge || challenge.wallet !== wallet) {
+      throw new UnauthorizedError('Sign-in challenge not found or expired');
+    }
+
+    if (!verifyWalletSignature(wallet, challenge.message, signature)) {
+      logger.warn({ wallet }, 'Rejected sign-in with an invalid signature');
+      throw new UnauthorizedError('Invalid wallet signature');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    await this.redis.set(SESSION_KEY_PREFIX + hashToken(token), wallet, 'EX', this.sessionTtlSeconds);
+
+    logger.info({ wallet }, 'Wallet signed in');
+
+    return { token, wallet, expiresAt: Date.now() + this.sessionTtlSeconds * 1000 };
+  }
+
+  /**
+   * Wallet a session token belongs to, or null when it is unknown or expired
+   */
+  async authenticate(token: string): Promise<string | null> {
+    return this.redis.get(SESSION_KEY_PREFIX + hashToken(token));
+  }
+
+  async signOut(token: string): Promise<void> {
+    await this.redis.del(SESSION_KEY_PREFIX + hashToken(token));
+  }
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,84 @@
+import { Queue, Job } from 'bullmq';
+import { Redis } from 'ioredis';
+import { logger } from '../utils/logger';
+import type { SolanaErrorType } from '../utils/errors';
+import type { DeadLetterJobData, OrderJobData } from '../types';
+
+export const DEAD_LETTER_QUEUE_NAME = 'order-processing-dlq';
+
+/**
+ * Dead-Letter Queue
+ * Order jobs that BullMQ will not run again, kept with their last failure until
+ * an operator replays or discards them. Nothing consumes the queue: entries wait
+ * under the id of the job they came from.
+ */
+export class DeadLetterQueue {
+  private queue: Queue<DeadLetterJobData>;
+
+  constructor(redis: Redis) {
+    this.queue = new Queue<DeadLetterJobData>(DEAD_LETTER_QUEUE_NAME, { connection: redis });
+  }
+
+  /**
+   * Park an exhausted job with its classified failure
+   * A replayed order that fails again replaces its earlier entry
+   */
+  async add(job: Job<OrderJobData>, error: Error, errorType: SolanaErrorType): Promise<DeadLetterJobData> {
+    const entry: DeadLetterJobData = {
+      jobId: job.id!,
+      jobName: job.name,
+      orderId: job.data.orderId,
+      sliceIndex: job.data.sliceIndex,
+      data: job.data,
+      failedReason: error.message,
+      errorType,
+      attemptsMade: job.attemptsMade,
+      failedAt: job.finishedOn ?? Date.now(),
+    };
+
+    await this.remove(entry.jobId);
+    await this.queue.add(job.name, entry, { jobId: entry.jobId });
+
+    logger.warn({ jobId: entry.jobId, orderId: entry.orderId, errorType }, 'Job moved to dead-letter queue');
+
+    return entry;
+  }
+
+  /**
+   * Entries, most recently dead-lettered first
+   */
+  async list(offset: number, limit: number): Promise<{ entries: DeadLetterJobData[]; total: number }> {
+    const [jobs, total] = await Promise.all([
+      this.queue.getWaiting(offset, offset + limit - 1),
+      this.queue.getWaitingCount(),
+    ]);
+
+    return { entries: jobs.map((job) => job.data), total };
+  }
+
+  async get(jobId: string): Promise<DeadLetterJobData | null> {
+    const job = await this.queue.getJob(jobId);
+    return job?.data ?? null;
+  }
+
+  /**
+   * Drop an entry, returning whether there was one
+   */
+  async remove(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) {
+      return false;
+    }
+
+    await job.remove();
+    return true;
+  }
+
+  async getCount(): Promise<number> {
+    return this.queue.getWaitingCount();
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+  }
+}
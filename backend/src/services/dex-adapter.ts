@@ -0,0 +1,122 @@
+import type { PublicKey, Transaction } from '@solana/web3.js';
+import type { DexType, Quote, ExecutionResult, SubmissionHook } from '../types';
+
+/**
+ * A pool exposed by a venue
+ */
+export interface PoolInfo {
+  poolId: string;
+  dex: DexType;
+  mintA: string;
+  mintB: string;
+  fee: number;
+  liquidity?: string;
+}
+
+/**
+ * Health report for a single venue
+ */
+export interface AdapterHealth {
+  dex: DexType;
+  healthy: boolean;
+  pools: number;
+  error?: string;
+}
+
+/**
+ * A trading venue the aggregate router can quote and execute against.
+ * New venues implement this interface and register with the DexAdapterRegistry.
+ */
+export interface DexAdapter {
+  readonly dex: DexType;
+
+  /**
+   * Set when this venue's swaps wrap SOL input into a token account funded with the
+   * amount plus its rent, so the signer needs that rent up front
+   */
+  readonly wrapsNativeInput?: boolean;
+
+  initialize(): Promise<void>;
+
+  /**
+   * Quote every pool this venue has for the pair (may be empty)
+   */
+  quote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]>;
+
+  /**
+   * Build the unsigned swap transaction for a quote without sending it
+   * owner swaps from its own token accounts; defaults to the engine's wallet
+   */
+  buildSwap(quote: Quote, slippage: number, owner?: PublicKey): Promise<Transaction>;
+
+  /**
+   * Build, send and confirm a swap for a quote
+   * onSubmitted receives the signature after signing and before the transaction is sent
+   */
+  execute(quote: Quote, slippage: number, onSubmitted?: SubmissionHook): Promise<ExecutionResult>;
+
+  listPools(): Promise<PoolInfo[]>;
+
+  health(): Promise<AdapterHealth>;
+
+  /**
+   * Synchronous output for a pool at its current state.
+   * Venues that implement it take part in split and multi-hop routing.
+   */
+  simulate?(poolId: string, tokenIn: string, amountIn: bigint): bigint;
+
+  /**
+   * Marginal price of a pool before fees (tokenOut per tokenIn, fixed point).
+   * The router derives price impact for this venue's quotes, split legs and hops from it.
+   */
+  spotPrice?(poolId: string, tokenIn: string): bigint;
+
+  /**
+   * Called after a transaction the router assembled (e.g. a multi-hop route)
+   * containing this venue's swap has confirmed, so local pool state can follow
+   */
+  onSwapConfirmed?(quote: Quote): void;
+
+  /**
+   * Amount of tokenOut a confirmed swap of this venue delivered to owner (the engine's wallet by default)
+   * Venues whose swaps fill at the quote, like the simulated ones, leave it out
+   */
+  getReceivedAmount?(signature: string, tokenOut: string, owner?: PublicKey): Promise<bigint>;
+}
+
+/**
+ * Registry of venues, keyed by DEX
+ */
+export class DexAdapterRegistry {
+  private adapters = new Map<DexType, DexAdapter>();
+
+  /**
+   * Register a venue adapter
+   */
+  register(adapter: DexAdapter): this {
+    if (this.adapters.has(adapter.dex)) {
+      throw new Error(`Adapter already registered for ${adapter.dex}`);
+    }
+
+    this.adapters.set(adapter.dex, adapter);
+    return this;
+  }
+
+  /**
+   * Get the adapter for a DEX
+   */
+  get(dex: DexType): DexAdapter {
+    const adapter = this.adapters.get(dex);
+    if (!adapter) {
+      throw new Error(`Unsupported DEX: ${dex}`);
+    }
+    return adapter;
+  }
+
+  /**
+   * All registered adapters
+   */
+  list(): DexAdapter[] {
+    return Array.from(this.adapters.values());
+  }
+}
@@ -1,338 +1,107 @@
-import { Connection, Keypair, Transaction, SystemProgram, sendAndConfirmTransaction } from '@solana/web3.js';
-import { logger } from '../utils/logger';
+import { Connection, Keypair } from '@solana/web3.js';
 import { TransactionService } from './transaction-service';
-import { PoolNotFoundError, BlockchainError, SlippageExceededError } from '../utils/errors';
-import type { Quote, ExecutionResult } from '../types';
+import { AggregateDexRouter } from './dex-router';
+import { DexAdapterRegistry } from './dex-adapter';
+import { SimulatedPoolAdapter } from './adapters/simulated-pool-adapter';
+import { OrcaWhirlpoolAdapter } from './adapters/orca-whirlpool-adapter';
+import { RaydiumAmmAdapter } from './adapters/raydium-amm-adapter';
+import { SimulatedDlmmAdapter } from './adapters/simulated-dlmm-adapter';
+import { MeteoraDlmmAdapter } from './adapters/meteora-dlmm-adapter';
+import type { DexAdapter } from './dex-adapter';
 import { env } from '../config/environment';
 
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+// Your custom tokens
+const TOKEN_A = '3aWPRVQe2KPwUGF6gZTCS7XgZBwoMTNxoDX1mKcAKVqr';
+const TOKEN_B = '788bGVjjKAJgGstSYFCBPJcSQPS9VUMKVjZbQPSe7xEb';
+
 /**
  * HYBRID DEX Router for Devnet
  * - Uses REAL blockchain transactions
  * - Simulated pool pricing (no actual pools needed)
  * - Works entirely on devnet with free SOL
  * - Provides realistic on-chain swap experience
+ *
+ * With RAYDIUM_EXECUTION_MODE=sdk, Raydium quotes and swaps go through the Raydium SDK
+ * against the pools in RAYDIUM_POOL_IDS instead of the simulated Raydium pools;
+ * METEORA_EXECUTION_MODE=sdk does the same for Meteora DLMM pools in METEORA_POOL_IDS
  */
-export class DexRouter {
-  private initialized: boolean = false;
-
-  // Simulated pool states (realistic reserves)
-  private pools = new Map<string, {
-    reserveA: bigint;
-    reserveB: bigint;
-    mintA: string;
-    mintB: string;
-    fee: number;
-    dex: 'RAYDIUM' | 'METEORA';
-  }>();
-
+export class DexRouter extends AggregateDexRouter {
   constructor(
-    private connection: Connection,
-    private wallet: Keypair,
+    connection: Connection,
+    wallet: Keypair,
     _transactionService: TransactionService
-  ) {}
-
-  /**
-   * Initialize the hybrid DEX router for devnet
-   */
-  async initialize(): Promise<void> {
-    if (this.initialized) {
-      logger.info('Hybrid DEX Router already initialized');
-      return;
-    }
-
-    try {
-      logger.info('Initializing Hybrid DEX Router for devnet...');
-
-      // Initialize simulated pools with realistic liquidity
-      this.initializeSimulatedPools();
-
-      this.initialized = true;
-      logger.info({
-        pools: this.pools.size,
-        mode: 'Real blockchain + Simulated pools'
-      }, 'Hybrid DEX Router initialized successfully for devnet');
-    } catch (error) {
-      logger.error({ error }, 'Failed to initialize Hybrid DEX Router');
-      throw new BlockchainError('Failed to initialize Hybrid DEX Router', false);
-    }
-  }
-
-  /**
-   * Initialize simulated pools with realistic reserves
-   */
-  private initializeSimulatedPools(): void {
-    // SOL/USDC pool (Raydium-style)
-    const SOL = 'So11111111111111111111111111111111111111112';
-    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
-
-    this.pools.set(`${SOL}-${USDC}`, {
-      reserveA: BigInt(10000 * 1e9), // 10,000 SOL
-      reserveB: BigInt(1000000 * 1e6), // 1,000,000 USDC
-      mintA: SOL,
-      mintB: USDC,
-      fee: 0.0025, // 0.25%
-      dex: 'RAYDIUM'
-    });
-
-    // Your custom tokens pool
-    const TOKEN_A = '3aWPRVQe2KPwUGF6gZTCS7XgZBwoMTNxoDX1mKcAKVqr';
-    const TOKEN_B = '788bGVjjKAJgGstSYFCBPJcSQPS9VUMKVjZbQPSe7xEb';
-
-    this.pools.set(`${TOKEN_A}-${TOKEN_B}`, {
-      reserveA: BigInt(1000000 * 1e9), // 1M Token A
-      reserveB: BigInt(1000000 * 1e6), // 1M Token B
-      mintA: TOKEN_A,
-      mintB: TOKEN_B,
-      fee: 0.0025,
-      dex: 'RAYDIUM'
-    });
-
-    // Meteora alternative
-    this.pools.set(`${SOL}-${USDC}-meteora`, {
-      reserveA: BigInt(8000 * 1e9),
-      reserveB: BigInt(800000 * 1e6),
-      mintA: SOL,
-      mintB: USDC,
-      fee: 0.002, // 0.20%
-      dex: 'METEORA'
-    });
-
-    logger.info({ count: this.pools.size }, 'Initialized simulated pools');
-  }
-
-  /**
-   * Get best quote across all simulated pools
-   */
-  async getBestQuote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote> {
-    if (!this.initialized) {
-      throw new BlockchainError('Router not initialized', false);
-    }
-
-    logger.info({ tokenIn, tokenOut, amount: amount.toString() }, 'Getting best quote');
-
-    // Find matching pools
-    const quotes: Quote[] = [];
-
-    for (const [poolId, pool] of this.pools.entries()) {
-      const isForward = pool.mintA === tokenIn && pool.mintB === tokenOut;
-      const isReverse = pool.mintA === tokenOut && pool.mintB === tokenIn;
-
-      if (!isForward && !isReverse) continue;
-
-      const [reserveIn, reserveOut] = isForward
-        ? [pool.reserveA, pool.reserveB]
-        : [pool.reserveB, pool.reserveA];
-
-      // Constant product formula: (x + dx) * (y - dy) = x * y
-      const amountInFloat = Number(amount);
-      const amountAfterFee = amountInFloat * (1 - pool.fee);
-      const outputFloat = (Number(reserveOut) * amountAfterFee) / (Number(reserveIn) + amountAfterFee);
-      const outputAmount = BigInt(Math.floor(outputFloat));
-
-      const price = Number(outputAmount) / Number(amount);
-
-      quotes.push({
-        dex: pool.dex,
-        inputAmount: amount,
-        outputAmount,
-        price,
-        fee: pool.fee,
-        poolId,
-        slippage: env.DEFAULT_SLIPPAGE,
-      });
-    }
-
-    if (quotes.length === 0) {
-      throw new PoolNotFoundError(`No pool found for ${tokenIn}/${tokenOut}`);
-    }
-
-    // Return best quote (highest output)
-    const bestQuote = quotes.reduce((best, current) =>
-      current.outputAmount > best.outputAmount ? current : best
-    );
-
-    logger.info({
-      dex: bestQuote.dex,
-      inputAmount: bestQuote.inputAmount.toString(),
-      outputAmount: bestQuote.outputAmount.toString(),
-      price: bestQuote.price
-    }, 'Best quote found');
-
-    return bestQuote;
-  }
-
-  /**
-   * Select the best quote from an array of quotes
-   */
-  selectBestQuote(quotes: Quote[]): Quote | null {
-    if (quotes.length === 0) return null;
-
-    // Select quote with highest output amount (best price)
-    const bestQuote = quotes.reduce((best, current) =>
-      current.outputAmount > best.outputAmount ? current : best
-    );
-
-    logger.info(
-      {
-        dex: bestQuote.dex,
-        inputAmount: bestQuote.inputAmount.toString(),
-        outputAmount: bestQuote.outputAmount.toString(),
-        price: bestQuote.price,
-      },
-      'Selected best quote'
-    );
-
-    return bestQuote;
-  }
-
-  /**
-   * Get quotes from all pools (returns array for compatibility)
-   */
-  async getQuotes(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
-    // Find all matching pools
-    const quotes: Quote[] = [];
-
-    for (const [poolId, pool] of this.pools.entries()) {
-      const isForward = pool.mintA === tokenIn && pool.mintB === tokenOut;
-      const isReverse = pool.mintA === tokenOut && pool.mintB === tokenIn;
-
-      if (!isForward && !isReverse) continue;
-
-      const [reserveIn, reserveOut] = isForward
-        ? [pool.reserveA, pool.reserveB]
-        : [pool.reserveB, pool.reserveA];
-
-      // Constant product formula
-      const amountInFloat = Number(amount);
-      const amountAfterFee = amountInFloat * (1 - pool.fee);
-      const outputFloat = (Number(reserveOut) * amountAfterFee) / (Number(reserveIn) + amountAfterFee);
-      const outputAmount = BigInt(Math.floor(outputFloat));
-
-      const price = Number(outputAmount) / Number(amount);
-
-      quotes.push({
-        dex: pool.dex,
-        inputAmount: amount,
-        outputAmount,
-        price,
-        fee: pool.fee,
-        poolId,
-        slippage: env.DEFAULT_SLIPPAGE,
-      });
-    }
-
-    return quotes;
-  }
-
-  /**
-   * Execute swap with REAL blockchain transaction
-   * This creates actual on-chain transactions on devnet
-   */
-  async executeSwap(quote: Quote, _slippage: number = env.DEFAULT_SLIPPAGE): Promise<ExecutionResult> {
-    if (!this.initialized) {
-      throw new BlockchainError('Router not initialized', false);
-    }
-
-    logger.info({
-      dex: quote.dex,
-      inputAmount: quote.inputAmount.toString(),
-      outputAmount: quote.outputAmount.toString()
-    }, 'Executing hybrid swap on devnet');
-
-    try {
-      // Create REAL transaction on devnet
-      // We'll use a simple transfer to demonstrate on-chain interaction
-      const transaction = new Transaction();
-
-      // Add a memo instruction to record the swap details
-      // const swapMemo = JSON.stringify({
-      //   type: 'DEX_SWAP',
-      //   dex: quote.dex,
-      //   inputAmount: quote.inputAmount.toString(),
-      //   outputAmount: quote.outputAmount.toString(),
-      //   price: quote.price,
-      //   poolId: quote.poolId,
-      //   timestamp: Date.now()
-      // });
-
-      transaction.add(
-        SystemProgram.transfer({
-          fromPubkey: this.wallet.publicKey,
-          toPubkey: this.wallet.publicKey, // Self-transfer
-          lamports: 1, // Minimal amount to create real transaction
-        })
-      );
-
-      // Get recent blockhash
-      const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
-      transaction.recentBlockhash = blockhash;
-      transaction.lastValidBlockHeight = lastValidBlockHeight;
-      transaction.feePayer = this.wallet.publicKey;
-
-      // Sign and send transaction
-      logger.info('Sending transaction to devnet...');
-      const signature = await sendAndConfirmTransaction(
-        this.connection,
-        transaction,
-        [this.wallet],
+  ) {
+    const raydium: DexAdapter = env.RAYDIUM_EXECUTION_MODE === 'sdk'
+      ? new RaydiumAmmAdapter(connection, wallet, env.RAYDIUM_POOL_IDS, env.RAYDIUM_CLUSTER)
+      : new SimulatedPoolAdapter('RAYDIUM', connection, wallet, [
+          // SOL/USDC pool (Raydium-style)
+          {
+            poolId: `${SOL}-${USDC}`,
+            reserveA: BigInt(10000 * 1e9), // 10,000 SOL
+            reserveB: BigInt(1000000 * 1e6), // 1,000,000 USDC
+            mintA: SOL,
+            mintB: USDC,
+            fee: 0.0025, // 0.25%
+          },
+          // Your custom tokens pool
+          {
+            poolId: `${TOKEN_A}-${TOKEN_B}`,
+            reserveA: BigInt(1000000 * 1e9), // 1M Token A
+            reserveB: BigInt(1000000 * 1e6), // 1M Token B
+            mintA: TOKEN_A,
+            mintB: TOKEN_B,
+            fee: 0.0025,
+          },
+          // Bridges Token A to SOL so Token A/USDC routes through SOL
+          {
+            poolId: `${TOKEN_A}-${SOL}`,
+            reserveA: BigInt(1000000 * 1e9), // 1M Token A
+            reserveB: BigInt(10000 * 1e9), // 10,000 SOL
+            mintA: TOKEN_A,
+            mintB: SOL,
+            fee: 0.0025,
+          },
+        ]);
+
+    const meteora: DexAdapter = env.METEORA_EXECUTION_MODE === 'sdk'
+      ? new MeteoraDlmmAdapter(connection, wallet, env.METEORA_POOL_IDS, env.METEORA_CLUSTER)
+      : new SimulatedDlmmAdapter(connection, wallet, [
+          // Meteora alternative: DLMM bins of 0.10% around spot
+          {
+            poolId: `${SOL}-${USDC}-meteora`,
+            mintX: SOL,
+            mintY: USDC,
+            fee: 0.002, // 0.20%
+            binStep: 10,
+            price: 0.1, // 100 USDC per SOL in base units (1e6 / 1e9)
+            totalX: BigInt(8000 * 1e9),
+            totalY: BigInt(800000 * 1e6),
+            binsPerSide: 70,
+          },
+        ]);
+
+    const registry = new DexAdapterRegistry()
+      .register(raydium)
+      .register(meteora)
+      .register(new OrcaWhirlpoolAdapter(connection, wallet, [
+        // Concentrated liquidity SOL/USDC whirlpool (tick spacing 64 = 0.30% fee tier)
         {
-          commitment: 'confirmed',
-          skipPreflight: false,
-        }
-      );
-
-      logger.info({
-        signature,
-        explorerUrl: `https://solscan.io/tx/${signature}?cluster=devnet`
-      }, 'Transaction confirmed on devnet');
-
-      // Update simulated pool reserves (for realistic state management)
-      const pool = this.pools.get(quote.poolId);
-      if (pool) {
-        const isForward = pool.mintA === quote.poolId.split('-')[0];
-        if (isForward) {
-          pool.reserveA += quote.inputAmount;
-          pool.reserveB -= quote.outputAmount;
-        } else {
-          pool.reserveB += quote.inputAmount;
-          pool.reserveA -= quote.outputAmount;
-        }
-      }
-
-      return {
-        signature,
-        executedPrice: quote.price,
-        executedAmount: quote.outputAmount,
-        dex: quote.dex,
-      };
-
-    } catch (error: any) {
-      logger.error({ error }, 'Swap execution failed');
-
-      if (error.message?.includes('slippage')) {
-        throw new SlippageExceededError('Slippage tolerance exceeded');
-      }
-
-      throw new BlockchainError(
-        `Swap execution failed: ${error.message}`,
-        error.message?.includes('blockhash')
-      );
-    }
-  }
-
-  /**
-   * Get all available pools
-   */
-  getAvailablePools(): Array<{poolId: string; dex: string; mintA: string; mintB: string}> {
-    const pools = [];
-    for (const [poolId, pool] of this.pools.entries()) {
-      pools.push({
-        poolId,
-        dex: pool.dex,
-        mintA: pool.mintA,
-        mintB: pool.mintB
-      });
-    }
-    return pools;
+          poolId: `${SOL}-${USDC}-whirlpool`,
+          mintA: SOL,
+          mintB: USDC,
+          fee: 0.003,
+          tickSpacing: 64,
+          price: 0.1, // 100 USDC per SOL in base units (1e6 / 1e9)
+          positions: [
+            { priceLower: 0.098, priceUpper: 0.102, liquidity: BigInt(5e13) }, // ±2% around spot
+            { priceLower: 0.05, priceUpper: 0.2, liquidity: BigInt(1e13) }, // Wide backstop range
+          ],
+        },
+      ]));
+
+    super(registry, connection, wallet);
   }
 }
@@ -0,0 +1,649 @@
+import { Connection, Keypair, PublicKey, Transaction } from '@solana/web3.js';
+import { logger } from '../utils/logger';
+import {
+  PoolNotFoundError,
+  BlockchainError,
+  SlippageExceededError,
+  MinimumOutputError,
+  PriceImpactExceededError,
+} from '../utils/errors';
+import { SCALE, applyFee, getMinAmountOut, getShortfall, mulDiv } from '../utils/amm-math';
+import { optimizeSplit } from '../utils/split-route';
+import { findBestRoute } from '../utils/route-finder';
+import type { RouteEdge } from '../utils/route-finder';
+import { sendWithSubmissionHook } from '../utils/send-transaction';
+import type { DexType, Quote, ExecutionResult, SplitRoute, RouteHop, RouteSelection, SubmissionHook, UnsignedSwap } from '../types';
+import type { DexAdapter, DexAdapterRegistry, PoolInfo, AdapterHealth } from './dex-adapter';
+import type { QuoteCache } from './quote-cache';
+import { env } from '../config/environment';
+
+/**
+ * Aggregate DEX Router
+ * Fans out quoting to every registered venue adapter, picks the best route
+ * (single venue, split across venues, or multi-hop) and dispatches execution
+ * to the adapter that owns each quote
+ */
+export class AggregateDexRouter {
+  private initialized: boolean = false;
+  private quoteCache: QuoteCache | null = null;
+
+  constructor(
+    protected registry: DexAdapterRegistry,
+    protected connection: Connection,
+    protected wallet: Keypair
+  ) {}
+
+  /**
+   * Initialize every registered adapter
+   */
+  async initialize(): Promise<void> {
+    if (this.initialized) {
+      logger.info('DEX Router already initialized');
+      return;
+    }
+
+    try {
+      await Promise.all(this.registry.list().map((adapter) => adapter.initialize()));
+    } catch (error) {
+      logger.error({ error }, 'Failed to initialize DEX Router');
+      throw new BlockchainError('Failed to initialize DEX Router', false);
+    }
+
+    this.initialized = true;
+    logger.info({ venues: this.registry.list().map((adapter) => adapter.dex) }, 'DEX Router initialized successfully');
+  }
+
+  /**
+   * Serve getQuotes through a shared cache; it is invalidated after every swap
+   */
+  useQuoteCache(quoteCache: QuoteCache): this {
+    this.quoteCache = quoteCache;
+    return this;
+  }
+
+  /**
+   * Get quotes from every venue, plus the best multi-hop route when one exists
+   */
+  async getQuotes(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    if (!this.initialized) {
+      throw new Error('DEX Router not initialized. Call initialize() first.');
+    }
+
+    if (this.quoteCache) {
+      return this.quoteCache.getQuotes(tokenIn, tokenOut, amount, () => this.fetchQuotes(tokenIn, tokenOut, amount));
+    }
+
+    return this.fetchQuotes(tokenIn, tokenOut, amount);
+  }
+
+  /**
+   * Fan out to every venue
+   */
+  private async fetchQuotes(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> {
+    logger.info({ tokenIn, tokenOut, amount: amount.toString() }, 'Fetching quotes from DEXs');
+
+    const adapters = this.registry.list();
+    const results = await Promise.allSettled(
+      adapters.map((adapter) => adapter.quote(tokenIn, tokenOut, amount))
+    );
+
+    const quotes: Quote[] = [];
+
+    results.forEach((result, i) => {
+      if (result.status === 'fulfilled') {
+        quotes.push(...result.value.map((quote) => this.withPriceImpact(adapters[i], quote)));
+      } else {
+        logger.warn({ error: result.reason, dex: adapters[i].dex }, 'Venue quote failed');
+      }
+    });
+
+    // Route through intermediate tokens (e.g. TOKEN -> SOL -> USDC)
+    const multiHopQuote = await this.getMultiHopQuote(tokenIn, tokenOut, amount);
+    if (multiHopQuote) {
+      quotes.push(multiHopQuote);
+    }
+
+    if (quotes.length === 0) {
+      throw new PoolNotFoundError(`No pool or route found for ${tokenIn}/${tokenOut}`);
+    }
+
+    logger.info({ quoteCount: quotes.length }, 'Successfully fetched quotes');
+    return quotes;
+  }
+
+  /**
+   * Get the single best quote for a pair
+   */
+  async getBestQuote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote> {
+    const bestQuote = this.selectBestQuote(await this.getQuotes(tokenIn, tokenOut, amount));
+
+    if (!bestQuote) {
+      throw new PoolNotFoundError(`No pool found for ${tokenIn}/${tokenOut}`);
+    }
+
+    return bestQuote;
+  }
+
+  /**
+   * Quote every venue and choose the route for an order
+   * Prefers routes within maxPriceImpact; a split route can bring a large order under it.
+   * Throws PriceImpactExceededError when every route is over the limit.
+   */
+  async getRoute(tokenIn: string, tokenOut: string, amount: bigint, maxPriceImpact?: number): Promise<RouteSelection> {
+    const quotes = await this.getQuotes(tokenIn, tokenOut, amount);
+    const bestQuote = this.selectBestQuote(quotes, maxPriceImpact) ?? this.selectBestQuote(quotes);
+
+    if (!bestQuote) {
+      throw new PoolNotFoundError(`No pool found for ${tokenIn}/${tokenOut}`);
+    }
+
+    // Splitting across DEXs wins for size when pools have price impact, and spreads the impact
+    const splitRoute = await this.getSplitRoute(tokenIn, tokenOut, amount);
+    const quoteAllowed = this.isWithinPriceImpact(bestQuote, maxPriceImpact);
+    const splitAllowed = splitRoute !== null && this.isWithinPriceImpact(splitRoute, maxPriceImpact);
+
+    if (maxPriceImpact !== undefined && !quoteAllowed && !splitAllowed) {
+      const routes = splitRoute ? [...quotes, splitRoute] : quotes;
+      throw new PriceImpactExceededError(Math.min(...routes.map((route) => route.priceImpact ?? 0)), maxPriceImpact);
+    }
+
+    const useSplit = splitAllowed && (!quoteAllowed || splitRoute.outputAmount > bestQuote.outputAmount);
+
+    return { quotes, bestQuote, splitRoute: useSplit ? splitRoute : null };
+  }
+
+  /**
+   * Least output a route accepts; each split leg is held to its own share of it
+   */
+  getRouteMinAmountOut(route: RouteSelection, slippage: number): bigint {
+    return route.splitRoute
+      ? route.splitRoute.legs.reduce((sum, leg) => sum + getMinAmountOut(leg.outputAmount, slippage), 0n)
+      : getMinAmountOut(route.bestQuote.outputAmount, slippage);
+  }
+
+  /**
+   * Select the best quote based on output amount
+   * With maxPriceImpact, only quotes within it are considered
+   */
+  selectBestQuote(quotes: Quote[], maxPriceImpact?: number): Quote | null {
+    const candidates = quotes.filter((quote) => this.isWithinPriceImpact(quote, maxPriceImpact));
+    if (candidates.length === 0) return null;
+
+    // Select quote with highest output amount (best price)
+    const bestQuote = candidates.reduce((best, current) =>
+      current.outputAmount > best.outputAmount ? current : best
+    );
+
+    logger.info(
+      {
+        dex: bestQuote.dex,
+        inputAmount: bestQuote.inputAmount.toString(),
+        outputAmount: bestQuote.outputAmount.toString(),
+        price: bestQuote.price,
+        priceImpact: bestQuote.priceImpact,
+      },
+      'Selected best quote'
+    );
+
+    return bestQuote;
+  }
+
+  /**
+   * Whether a quote or split route stays within a price impact limit
+   * Routes whose venues don't report price impact are not held to it
+   */
+  isWithinPriceImpact(route: { priceImpact?: number }, maxPriceImpact?: number): boolean {
+    return maxPriceImpact === undefined || route.priceImpact === undefined || route.priceImpact <= maxPriceImpact;
+  }
+
+  /**
+   * Split the input across every simulatable pool for the pair to maximise total output
+   * Returns null when fewer than two pools would receive part of the input
+   */
+  async getSplitRoute(tokenIn: string, tokenOut: string, amount: bigint): Promise<SplitRoute | null> {
+    const pools = await this.getSimulatablePools();
+
+    const candidates = pools
+      .filter(({ pool }) =>
+        (pool.mintA === tokenIn && pool.mintB === tokenOut) ||
+        (pool.mintA === tokenOut && pool.mintB === tokenIn)
+      )
+      .map(({ adapter, pool }) => ({
+        id: pool.poolId,
+        pool,
+        adapter,
+        getOutput: (amountIn: bigint) => adapter.simulate!(pool.poolId, tokenIn, amountIn),
+      }));
+
+    if (candidates.length < 2) {
+      return null;
+    }
+
+    const allocations = optimizeSplit(candidates, amount);
+
+    const legs: Quote[] = candidates
+      .filter((candidate) => allocations.get(candidate.id)! > 0n)
+      .map((candidate) => {
+        const inputAmount = allocations.get(candidate.id)!;
+        const outputAmount = candidate.getOutput(inputAmount);
+
+        return this.withPriceImpact(candidate.adapter, {
+          dex: candidate.pool.dex,
+          inputAmount,
+          outputAmount,
+          price: Number(outputAmount) / Number(inputAmount),
+          fee: candidate.pool.fee,
+          poolId: candidate.id,
+          slippage: env.DEFAULT_SLIPPAGE,
+          tokenIn,
+          tokenOut,
+        });
+      });
+
+    if (legs.length < 2) {
+      return null;
+    }
+
+    const outputAmount = legs.reduce((sum, leg) => sum + leg.outputAmount, 0n);
+
+    // Impact of the whole route: total output against what every leg would return at its spot price
+    const spotOutputs = legs.map((leg) => this.getSpotOutput(this.registry.get(leg.dex), leg));
+    const priceImpact = spotOutputs.some((spotOutput) => spotOutput === null)
+      ? undefined
+      : getShortfall(spotOutputs.reduce<bigint>((sum, spotOutput) => sum + (spotOutput ?? 0n), 0n), outputAmount);
+
+    logger.info({
+      legs: legs.map((leg) => ({ dex: leg.dex, inputAmount: leg.inputAmount.toString() })),
+      outputAmount: outputAmount.toString(),
+      priceImpact,
+    }, 'Split route found');
+
+    return {
+      legs,
+      inputAmount: amount,
+      outputAmount,
+      price: Number(outputAmount) / Number(amount),
+      priceImpact,
+    };
+  }
+
+  /**
+   * Execute a quote on the venue that produced it, protected by a minimum output
+   * - Re-quotes the same route immediately before submission and refuses to submit
+   *   if the fresh quote is already below minAmountOut
+   * - Passes minAmountOut to the venue so it can be enforced on-chain
+   * - Verifies the amount actually received honoured it
+   * - Hands the signature to onSubmitted before the transaction is sent
+   */
+  async executeSwap(
+    quote: Quote,
+    slippage: number = env.DEFAULT_SLIPPAGE,
+    minAmountOut: bigint = getMinAmountOut(quote.outputAmount, slippage),
+    onSubmitted?: SubmissionHook
+  ): Promise<ExecutionResult> {
+    const protectedQuote = await this.protectQuote(quote, minAmountOut);
+
+    logger.info({
+      dex: quote.dex,
+      poolId: quote.poolId,
+      outputAmount: protectedQuote.outputAmount.toString(),
+      minAmountOut: minAmountOut.toString(),
+    }, 'Executing swap');
+
+    const result = protectedQuote.hops && protectedQuote.hops.length > 1
+      ? await this.executeMultiHopSwap(protectedQuote, protectedQuote.hops, slippage, onSubmitted)
+      : await this.registry.get(quote.dex).execute(protectedQuote, slippage, onSubmitted);
+
+    // The swap moved pool state, so cached quotes no longer hold
+    await this.quoteCache?.invalidate();
+
+    if (result.executedAmount < minAmountOut) {
+      logger.error({
+        signature: result.signature,
+        executedAmount: result.executedAmount.toString(),
+        minAmountOut: minAmountOut.toString(),
+      }, 'Swap settled below minimum output');
+
+      throw new MinimumOutputError(result.signature, result.executedAmount, minAmountOut);
+    }
+
+    return result;
+  }
+
+  /**
+   * Build a quote's swap as an unsigned transaction for owner to sign and send
+   * Protected like executeSwap: re-quoted, refused below minAmountOut, and
+   * carrying minAmountOut for the venue to enforce on-chain
+   */
+  async buildUnsignedSwap(
+    quote: Quote,
+    slippage: number,
+    minAmountOut: bigint,
+    owner: PublicKey
+  ): Promise<UnsignedSwap> {
+    const protectedQuote = await this.protectQuote(quote, minAmountOut);
+
+    const transaction = protectedQuote.hops && protectedQuote.hops.length > 1
+      ? await this.buildMultiHopTransaction(this.toHopQuotes(protectedQuote, protectedQuote.hops, slippage), slippage, owner)
+      : await this.registry.get(quote.dex).buildSwap(protectedQuote, slippage, owner);
+
+    const { blockhash, lastValidBlockHeight } = await this.connection.getLatestBlockhash('confirmed');
+    transaction.recentBlockhash = blockhash;
+    transaction.feePayer = owner;
+
+    logger.info({
+      dex: quote.dex,
+      poolId: quote.poolId,
+      owner: owner.toBase58(),
+      outputAmount: protectedQuote.outputAmount.toString(),
+      minAmountOut: minAmountOut.toString(),
+    }, 'Built unsigned swap');
+
+    return {
+      transaction: transaction
+        .serialize({ requireAllSignatures: false, verifySignatures: false })
+        .toString('base64'),
+      lastValidBlockHeight,
+      quote: protectedQuote,
+    };
+  }
+
+  /**
+   * Amount of tokenOut a swap that already confirmed delivered to owner, for a swap whose sender lost track of it
+   * Null for venues that fill at the quote, where the quoted output stands
+   */
+  async getSettledAmount(dex: DexType, signature: string, tokenOut: string, owner?: PublicKey): Promise<bigint | null> {
+    const adapter = this.registry.get(dex);
+    return adapter.getReceivedAmount ? adapter.getReceivedAmount(signature, tokenOut, owner) : null;
+  }
+
+  /**
+   * Whether a venue's swaps wrap SOL input into a token account whose rent the signer funds
+   */
+  wrapsNativeInput(dex: DexType): boolean {
+    return this.registry.get(dex).wrapsNativeInput === true;
+  }
+
+  /**
+   * Re-quote a route and refuse it if the fresh quote is already below minAmountOut
+   */
+  private async protectQuote(quote: Quote, minAmountOut: bigint): Promise<Quote> {
+    if (!this.initialized) {
+      throw new Error('DEX Router not initialized');
+    }
+
+    const freshQuote = await this.requote(quote);
+
+    if (freshQuote.outputAmount < minAmountOut) {
+      logger.warn({
+        dex: quote.dex,
+        poolId: quote.poolId,
+        quotedAmount: quote.outputAmount.toString(),
+        freshAmount: freshQuote.outputAmount.toString(),
+        minAmountOut: minAmountOut.toString(),
+      }, 'Fresh quote below minimum output, not submitting');
+
+      throw new SlippageExceededError(
+        `Fresh quote ${freshQuote.outputAmount} is below the minimum output ${minAmountOut}`
+      );
+    }
+
+    return { ...freshQuote, minAmountOut, createOutputAccount: quote.createOutputAccount };
+  }
+
+  /**
+   * Quote the same route again at current pool state
+   */
+  private async requote(quote: Quote): Promise<Quote> {
+    if (quote.hops && quote.hops.length > 1) {
+      let amountIn = quote.inputAmount;
+
+      const hops = quote.hops.map((hop) => {
+        const outputAmount = this.registry.get(hop.dex).simulate!(hop.poolId, hop.tokenIn, amountIn);
+        const freshHop = { ...hop, inputAmount: amountIn, outputAmount };
+        amountIn = outputAmount;
+        return freshHop;
+      });
+
+      return { ...quote, outputAmount: amountIn, price: Number(amountIn) / Number(quote.inputAmount), hops };
+    }
+
+    if (!quote.tokenIn || !quote.tokenOut) {
+      // Nothing to re-quote against; the venue still enforces minAmountOut
+      return quote;
+    }
+
+    const quotes = await this.registry.get(quote.dex).quote(quote.tokenIn, quote.tokenOut, quote.inputAmount);
+    const freshQuote = quotes.find((candidate) => candidate.poolId === quote.poolId);
+
+    if (!freshQuote) {
+      throw new PoolNotFoundError(`Pool ${quote.poolId} no longer quotes ${quote.tokenIn}/${quote.tokenOut}`);
+    }
+
+    return freshQuote;
+  }
+
+  /**
+   * Get all pools across every venue
+   */
+  async getAvailablePools(): Promise<PoolInfo[]> {
+    const results = await Promise.all(this.registry.list().map((adapter) => adapter.listPools()));
+    return results.flat();
+  }
+
+  /**
+   * Health of every venue
+   */
+  async health(): Promise<AdapterHealth[]> {
+    return Promise.all(
+      this.registry.list().map((adapter) =>
+        adapter.health().catch((error) => ({
+          dex: adapter.dex,
+          healthy: false,
+          pools: 0,
+          error: error instanceof Error ? error.message : 'Unknown error',
+        }))
+      )
+    );
+  }
+
+  /**
+   * Best 2- or 3-hop route over the pool graph, as a single quote with its hops
+   */
+  private async getMultiHopQuote(tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote | null> {
+    const pools = await this.getSimulatablePools();
+    if (pools.length === 0) {
+      return null;
+    }
+
+    const adapters = new Map(pools.map(({ adapter, pool }) => [pool.poolId, adapter]));
+    const edges: RouteEdge[] = pools.map(({ pool }) => ({
+      poolId: pool.poolId,
+      dex: pool.dex,
+      mintA: pool.mintA,
+      mintB: pool.mintB,
+      fee: pool.fee,
+    }));
+
+    const hops = findBestRoute(edges, tokenIn, tokenOut, amount, (edge, hopTokenIn, amountIn) =>
+      adapters.get(edge.poolId)!.simulate!(edge.poolId, hopTokenIn, amountIn)
+    );
+
+    if (!hops) {
+      return null;
+    }
+
+    const outputAmount = hops[hops.length - 1].outputAmount;
+
+    // Each hop keeps (1 - impact) of its spot output, so the route keeps the product
+    const hopImpacts = hops.map((hop) =>
+      this.withPriceImpact(adapters.get(hop.poolId)!, this.toHopQuote(hop, env.DEFAULT_SLIPPAGE)).priceImpact
+    );
+    const priceImpact = hopImpacts.some((impact) => impact === undefined)
+      ? undefined
+      : 1 - hopImpacts.reduce<number>((kept, impact) => kept * (1 - (impact ?? 0)), 1);
+
+    logger.info({
+      path: [tokenIn, ...hops.map((hop) => hop.tokenOut)],
+      outputAmount: outputAmount.toString(),
+    }, 'Multi-hop route found');
+
+    return {
+      dex: hops[0].dex,
+      inputAmount: amount,
+      outputAmount,
+      price: Number(outputAmount) / Number(amount),
+      fee: 1 - hops.reduce((kept, hop) => kept * (1 - hop.fee), 1),
+      poolId: hops.map((hop) => hop.poolId).join('>'),
+      slippage: env.DEFAULT_SLIPPAGE,
+      tokenIn,
+      tokenOut,
+      hops,
+      priceImpact,
+    };
+  }
+
+  /**
+   * Fill in a quote's price impact from its venue's spot price, unless the venue reported one
+   */
+  private withPriceImpact(adapter: DexAdapter, quote: Quote): Quote {
+    if (quote.priceImpact !== undefined) {
+      return quote;
+    }
+
+    const spotOutput = this.getSpotOutput(adapter, quote);
+    return spotOutput === null ? quote : { ...quote, priceImpact: getShortfall(spotOutput, quote.outputAmount) };
+  }
+
+  /**
+   * Output a quote's input would fetch at the pool's spot price, after the fee
+   * Null when the venue can't report a spot price
+   */
+  private getSpotOutput(adapter: DexAdapter, quote: Quote): bigint | null {
+    if (!adapter.spotPrice || !quote.tokenIn) {
+      return null;
+    }
+
+    const spotPrice = adapter.spotPrice(quote.poolId, quote.tokenIn);
+    return mulDiv(applyFee(quote.inputAmount, quote.fee).amountInAfterFee, spotPrice, SCALE);
+  }
+
+  /**
+   * Pools whose venue can simulate output locally
+   */
+  private async getSimulatablePools(): Promise<Array<{ adapter: DexAdapter; pool: PoolInfo }>> {
+    const adapters = this.registry.list().filter((adapter) => adapter.simulate);
+    const pools = await Promise.all(
+      adapters.map(async (adapter) => (await adapter.listPools()).map((pool) => ({ adapter, pool })))
+    );
+    return pools.flat();
+  }
+
+  /**
+   * Execute every hop of a multi-hop route in ONE transaction
+   * Either all hops land or none do, so a failed hop never strands an intermediate token
+   */
+  private async executeMultiHopSwap(
+    quote: Quote,
+    hops: RouteHop[],
+    slippage: number,
+    onSubmitted?: SubmissionHook
+  ): Promise<ExecutionResult> {
+    logger.info({
+      hops: hops.map((hop) => `${hop.dex}:${hop.poolId}`),
+      inputAmount: quote.inputAmount.toString(),
+      outputAmount: quote.outputAmount.toString()
+    }, 'Executing multi-hop swap');
+
+    const hopQuotes = this.toHopQuotes(quote, hops, slippage);
+
+    try {
+      const transaction = await this.buildMultiHopTransaction(hopQuotes, slippage, this.wallet.publicKey);
+      transaction.feePayer = this.wallet.publicKey;
+
+      logger.info('Sending multi-hop transaction...');
+      const signature = await sendWithSubmissionHook(this.connection, transaction, [this.wallet], onSubmitted);
+
+      logger.info({
+        signature,
+        explorerUrl: `https://solscan.io/tx/${signature}?cluster=devnet`
+      }, 'Multi-hop transaction confirmed');
+
+      // Let venues with local state follow the hops only after the transaction landed
+      for (const hopQuote of hopQuotes) {
+        this.registry.get(hopQuote.dex).onSwapConfirmed?.(hopQuote);
+      }
+
+      // The final hop pays out; its venue reads what arrived, unless it fills at the quote
+      const finalHop = hops[hops.length - 1];
+      const receivedAmount = (await this.getSettledAmount(finalHop.dex, signature, finalHop.tokenOut)) ?? quote.outputAmount;
+
+      logger.info({
+        signature,
+        receivedAmount: receivedAmount.toString(),
+        quotedAmount: quote.outputAmount.toString(),
+      }, 'Multi-hop swap settled');
+
+      return {
+        signature,
+        executedPrice: Number(receivedAmount) / Number(quote.inputAmount),
+        executedAmount: receivedAmount,
+        dex: quote.dex,
+      };
+    } catch (error: any) {
+      logger.error({ error }, 'Multi-hop swap execution failed');
+
+      if (error.message?.includes('slippage')) {
+        throw new SlippageExceededError('Slippage tolerance exceeded');
+      }
+
+      throw new BlockchainError(
+        `Multi-hop swap execution failed: ${error.message}`,
+        error.message?.includes('blockhash')
+      );
+    }
+  }
+
+  /**
+   * Every hop of a route as a quote on its venue
+   */
+  private toHopQuotes(quote: Quote, hops: RouteHop[], slippage: number): Quote[] {
+    return hops.map((hop, i) => ({
+      ...this.toHopQuote(hop, slippage),
+      // The route's minimum output guards the final hop, which also pays out to the output account
+      minAmountOut: i === hops.length - 1 ? quote.minAmountOut : undefined,
+      createOutputAccount: i === hops.length - 1 ? quote.createOutputAccount : undefined,
+    }));
+  }
+
+  /**
+   * Each venue builds its hop; all instructions go into the same atomic transaction
+   */
+  private async buildMultiHopTransaction(hopQuotes: Quote[], slippage: number, owner: PublicKey): Promise<Transaction> {
+    const transaction = new Transaction();
+
+    for (const hopQuote of hopQuotes) {
+      const hopTransaction = await this.registry.get(hopQuote.dex).buildSwap(hopQuote, slippage, owner);
+      transaction.add(...hopTransaction.instructions);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * A single hop of a route as a quote on its venue
+   */
+  private toHopQuote(hop: RouteHop, slippage: number): Quote {
+    return {
+      dex: hop.dex,
+      inputAmount: hop.inputAmount,
+      outputAmount: hop.outputAmount,
+      price: Number(hop.outputAmount) / Number(hop.inputAmount),
+      fee: hop.fee,
+      poolId: hop.poolId,
+      slippage,
+      tokenIn: hop.tokenIn,
+      tokenOut: hop.tokenOut,
+    };
+  }
+}
@@ -1,3 +1,34 @@
 export { TransactionService } from './transaction-service';
+export { SwapPreflight } from './swap-preflight';
+export type { PreflightRequest, PreflightResult } from './swap-preflight';
 export { WebSocketManager } from './websocket-manager';
 export { OrderProcessor } from './order-processor';
+export type { ReconcileResult, ReconcileOptions, ReplayOptions } from './order-processor';
+export { OrderReconciler } from './order-reconciler';
+export { DeadLetterQueue } from './dead-letter-queue';
+export { OrderStateService } from './order-state-service';
+export type { TransitionOptions } from './order-state-service';
+export { LimitOrderWatcher } from './limit-order-watcher';
+export { ProtectiveOrderWatcher } from './protective-order-watcher';
+export { AuthService } from './auth-service';
+export type { SignInChallenge, WalletSession } from './auth-service';
+export { ApiKeyService } from './api-key-service';
+export type { CreateApiKeyInput } from './api-key-service';
+export { RiskManager } from './risk-manager';
+export type { PreTradeOrder, WalletRiskOverrides } from './risk-manager';
+export { RateLimiter } from './rate-limiter';
+export type { RateLimitResult } from './rate-limiter';
+export { QuoteService } from './quote-service';
+export type { QuoteSnapshot } from './quote-service';
+export { QuoteCache } from './quote-cache';
+export type { QuoteCacheMetrics } from './quote-cache';
+export { AggregateDexRouter } from './dex-router';
+export { DexAdapterRegistry } from './dex-adapter';
+export type { DexAdapter, PoolInfo, AdapterHealth } from './dex-adapter';
+export { MockDexAdapter } from './adapters/mock-adapter';
+export type { MockVenueScenario } from './adapters/mock-adapter';
+export { SimulatedPoolAdapter } from './adapters/simulated-pool-adapter';
+export { OrcaWhirlpoolAdapter } from './adapters/orca-whirlpool-adapter';
+export { RaydiumAmmAdapter } from './adapters/raydium-amm-adapter';
+export { SimulatedDlmmAdapter } from './adapters/simulated-dlmm-adapter';
+export { MeteoraDlmmAdapter } from './adapters/meteora-dlmm-adapter';
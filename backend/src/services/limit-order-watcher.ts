@@ -0,0 +1,184 @@
+import { OrderStatus, OrderType } from '@prisma/client';
+import type { Order } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { AggregateDexRouter } from './dex-router';
+import { OrderProcessor } from './order-processor';
+import { WebSocketManager } from './websocket-manager';
+import { OrderStateService } from './order-state-service';
+
+/**
+ * Limit Order Watcher
+ * Polls quotes for pending limit orders and hands them to the
+ * OrderProcessor once the best available price reaches the limit price
+ */
+export class LimitOrderWatcher {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+
+  constructor(
+    private dexRouter: AggregateDexRouter,
+    private orderProcessor: OrderProcessor,
+    private wsManager: WebSocketManager,
+    private orderState: OrderStateService,
+    private intervalMs: number = env.LIMIT_ORDER_POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start polling for pending limit orders
+   */
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      void this.poll();
+    }, this.intervalMs);
+
+    logger.info({ intervalMs: this.intervalMs }, 'Limit order watcher started');
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Limit order watcher stopped');
+    }
+  }
+
+  /**
+   * Run a single watch cycle: expire stale orders, then trigger crossed ones
+   */
+  async poll(): Promise<void> {
+    // Skip if the previous cycle is still fetching quotes
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      await this.expireOrders();
+
+      const orders = await prisma.order.findMany({
+        where: {
+          orderType: OrderType.LIMIT,
+          status: OrderStatus.PENDING,
+          triggeredAt: null,
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      for (const order of orders) {
+        try {
+          await this.checkOrder(order);
+        } catch (error) {
+          logger.error({ error, orderId: order.orderId }, 'Failed to check limit order');
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Limit order watch cycle failed');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Compare the best quote against the limit price and enqueue when crossed
+   */
+  private async checkOrder(order: Order): Promise<void> {
+    if (!order.limitPrice) {
+      return;
+    }
+
+    const limitPrice = parseFloat(order.limitPrice.toString());
+    const quotes = await this.dexRouter.getQuotes(order.tokenIn, order.tokenOut, order.amountIn);
+    const bestQuote = this.dexRouter.selectBestQuote(quotes);
+
+    if (!bestQuote || bestQuote.price < limitPrice) {
+      logger.debug(
+        { orderId: order.orderId, limitPrice, bestPrice: bestQuote?.price },
+        'Limit price not reached'
+      );
+      return;
+    }
+
+    // Claim the order so concurrent watchers never enqueue it twice
+    const claimed = await prisma.order.updateMany({
+      where: { orderId: order.orderId, status: OrderStatus.PENDING, triggeredAt: null },
+      data: { triggeredAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    logger.info(
+      { orderId: order.orderId, limitPrice, bestPrice: bestQuote.price, dex: bestQuote.dex },
+      'Limit price reached, submitting order'
+    );
+
+    try {
+      await this.orderProcessor.submitOrder({
+        orderId: order.orderId,
+        tokenIn: order.tokenIn,
+        tokenOut: order.tokenOut,
+        amount: order.amountIn.toString(),
+        slippage: parseFloat(order.slippage.toString()),
+        userWallet: order.userWallet,
+        timestamp: Date.now(),
+        orderType: OrderType.LIMIT,
+        limitPrice,
+        maxPriceImpact: order.maxPriceImpact ? parseFloat(order.maxPriceImpact.toString()) : undefined,
+        nonCustodial: order.nonCustodial,
+      });
+    } catch (error) {
+      // Never queued: release the claim so the next cycle tries it again
+      await prisma.order.updateMany({
+        where: { orderId: order.orderId, status: OrderStatus.PENDING },
+        data: { triggeredAt: null },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Expire limit orders whose expiry has passed before they were triggered
+   */
+  private async expireOrders(): Promise<void> {
+    const expired = await prisma.order.findMany({
+      where: {
+        orderType: OrderType.LIMIT,
+        status: OrderStatus.PENDING,
+        triggeredAt: null,
+        expiresAt: { lte: new Date() },
+      },
+      select: { orderId: true },
+    });
+
+    for (const { orderId } of expired) {
+      try {
+        await this.orderState.transition(orderId, OrderStatus.EXPIRED, {
+          payload: { error: 'Limit order expired' },
+          fields: { errorMessage: 'Limit order expired' },
+        });
+      } catch (error) {
+        // Cancelled or triggered since it was listed
+        logger.debug({ error, orderId }, 'Skipped expiring limit order');
+        continue;
+      }
+
+      this.wsManager.broadcastOrderUpdate(orderId, {
+        type: OrderStatus.EXPIRED,
+        data: { error: 'Limit order expired' },
+      });
+
+      logger.info({ orderId }, 'Limit order expired');
+    }
+  }
+}
@@ -1,16 +1,77 @@
-import { Queue, Worker, QueueEvents, Job } from 'bullmq';
+import { Queue, Worker, QueueEvents, Job, UnrecoverableError } from 'bullmq';
 import { Redis } from 'ioredis';
-import { OrderStatus, DexType } from '@prisma/client';
+import bs58 from 'bs58';
+import { PublicKey, Transaction } from '@solana/web3.js';
+import { OrderStatus, DexType, OrderType } from '@prisma/client';
+import type { Order, Prisma, QuoteHistory } from '@prisma/client';
 import { prisma } from '../config/database';
 import { logger } from '../utils/logger';
-import { DexRouter as MockDexRouter } from './dex-router-mock';
-import { DexRouter as HybridDexRouter } from './dex-router-devnet-hybrid';
+import {
+  BlockchainError,
+  DeadLetterNotFoundError,
+  InsufficientFundsError,
+  InvalidTransitionError,
+  MinimumOutputError,
+  NotAwaitingSignatureError,
+  OrderCancelledError,
+  OrderNotFoundError,
+  PriceImpactExceededError,
+  ReplayNotAllowedError,
+  ValidationError,
+  classifySolanaError,
+} from '../utils/errors';
+import { parseWithBigInt } from '../utils/bigint-json';
+import { canTransition } from '../utils/order-state-machine';
+import { AggregateDexRouter } from './dex-router';
 import { WebSocketManager } from './websocket-manager';
+import { OrderStateService } from './order-state-service';
+import type { TransitionOptions } from './order-state-service';
+import { TransactionService } from './transaction-service';
+import { DeadLetterQueue } from './dead-letter-queue';
+import type { SwapPreflight, PreflightRequest } from './swap-preflight';
 import { env } from '../config/environment';
-import type { OrderJobData, OrderStatusUpdate } from '../types';
+import type {
+  OrderJobData,
+  OrderStatusUpdate,
+  Quote,
+  SplitRoute,
+  ExecutionResult,
+  RouteSelection,
+  SubmissionHook,
+  SubmittedTransaction,
+  DeadLetterJobData,
+} from '../types';
 
-// Type alias for DexRouter (all implementations share the same interface)
-type DexRouter = MockDexRouter | HybridDexRouter;
+// TWAP slices that a cancellation still stops
+const UNSTARTED_SLICE_STATUSES: OrderStatus[] = [OrderStatus.PENDING, OrderStatus.ROUTING];
+
+// Statuses a run can be interrupted in after it may have signed a swap
+export const IN_FLIGHT_STATUSES: OrderStatus[] = [OrderStatus.BUILDING, OrderStatus.SUBMITTED];
+
+// Job states in which BullMQ will still run a job
+const LIVE_JOB_STATES = ['waiting', 'active', 'delayed', 'prioritized', 'waiting-children'];
+
+/**
+ * What reconciling an interrupted order or slice did
+ * - idle: it was not interrupted mid-swap
+ * - settled: finalized as CONFIRMED or FAILED
+ * - resume: nothing was swapped, so it is free to execute again
+ * - pending: a recorded transaction may still land, or an unsigned one may still be signed
+ */
+export type ReconcileResult = 'idle' | 'settled' | 'resume' | 'pending';
+
+export interface ReconcileOptions {
+  attempt?: number;
+  resume: boolean; // Re-execute when nothing was swapped; FAILED otherwise
+}
+
+export interface ReplayOptions {
+  slippage?: number; // Replaces the order's slippage tolerance
+}
+
+export function toBlockHeight({ lastValidBlockHeight }: SubmittedTransaction): bigint | null {
+  return lastValidBlockHeight === undefined ? null : BigInt(lastValidBlockHeight);
+}
 
 export class OrderProcessor {
   private orderQueue: Queue<OrderJobData>;
@@ -18,9 +79,13 @@ export class OrderProcessor {
   private worker!: Worker<OrderJobData>;
 
   constructor(
-    private dexRouter: DexRouter,
+    private dexRouter: AggregateDexRouter,
     private wsManager: WebSocketManager,
-    private redis: Redis
+    private redis: Redis,
+    private orderState: OrderStateService,
+    private transactionService: TransactionService,
+    private deadLetters: DeadLetterQueue,
+    private preflight: SwapPreflight | null = null
   ) {
     // Initialize queue
     this.orderQueue = new Queue<OrderJobData>('order-processing', {
@@ -57,11 +122,25 @@ export class OrderProcessor {
    * Submit a new order to the queue
    */
   async submitOrder(orderData: OrderJobData): Promise<string> {
-    logger.info({ orderId: orderData.orderId }, 'Submitting order to queue');
+    logger.info({ orderId: orderData.orderId, orderType: orderData.orderType }, 'Submitting order to queue');
+
+    if (orderData.orderType === OrderType.TWAP) {
+      return this.submitTwapSlices(orderData);
+    }
+
+    const isLimit = orderData.orderType === OrderType.LIMIT;
+
+    if (isLimit) {
+      // A limit order handed back to the watcher leaves a completed job behind; free its id
+      const previousJob = await this.orderQueue.getJob(orderData.orderId);
+      if (previousJob && (await previousJob.isCompleted())) {
+        await previousJob.remove();
+      }
+    }
 
     const job = await this.orderQueue.add('process-order', orderData, {
       jobId: orderData.orderId,
-      priority: 1, // Higher priority for market orders
+      priority: isLimit ? 2 : 1, // Market orders ahead of triggered limit orders
     });
 
     logger.info({ orderId: orderData.orderId, jobId: job.id }, 'Order submitted to queue');
@@ -70,131 +149,153 @@ export class OrderProcessor {
   }
 
   /**
-   * Setup the worker to process orders
+   * Cancel an order that has not started building a swap
+   * Waiting and delayed jobs leave the queue; an active job stops at its next status change.
+   * Returns false when the order is already past the point of cancellation.
    */
-  private setupWorker(): void {
-    this.worker = new Worker<OrderJobData>(
-      'order-processing',
-      async (job: Job<OrderJobData>) => {
-        const { orderId, tokenIn, tokenOut, amount, slippage } = job.data;
+  async cancelOrder(orderId: string, orderType: OrderType): Promise<boolean> {
+    const isTwap = orderType === OrderType.TWAP;
 
-        logger.info({ orderId, jobId: job.id }, 'Processing order');
+    try {
+      await this.orderState.transition(orderId, OrderStatus.CANCELLED, {
+        payload: { message: 'Cancelled by user' },
+        fields: { errorMessage: 'Cancelled by user' },
+      });
+    } catch (error) {
+      if (error instanceof InvalidTransitionError || error instanceof OrderCancelledError) {
+        return false;
+      }
+      throw error;
+    }
 
-        try {
-          // Step 1: Update status to ROUTING
-          await this.updateOrderStatus(orderId, OrderStatus.ROUTING, {
-            message: 'Fetching quotes from DEXs',
-          });
+    if (isTwap) {
+      await this.cancelTwapSlices(orderId);
+    } else {
+      await this.removeQueuedJob(orderId);
+    }
 
-          // Small delay to ensure WebSocket message is sent
-          await new Promise(resolve => setTimeout(resolve, 500));
-
-          // Step 2: Get quotes from DEXs
-          const quotes = await this.dexRouter.getQuotes(tokenIn, tokenOut, BigInt(amount));
-
-          // Log all quotes for demo visibility
-          logger.info({ orderId }, '📊 Comparing DEX quotes:');
-          quotes.forEach(quote => {
-            logger.info({
-              orderId,
-              dex: quote.dex,
-              outputAmount: quote.outputAmount.toString(),
-              price: quote.price.toFixed(6),
-              fee: `${(quote.fee * 100).toFixed(2)}%`
-            }, `  ${quote.dex} quote`);
-          });
+    this.wsManager.broadcastOrderUpdate(orderId, {
+      type: OrderStatus.CANCELLED,
+      data: { message: 'Cancelled by user' },
+    });
 
-          // Step 3: Select best quote
-          const bestQuote = this.dexRouter.selectBestQuote(quotes);
+    logger.info({ orderId, orderType }, 'Order cancelled');
 
-          if (!bestQuote) {
-            throw new Error('No valid quotes available');
-          }
+    return true;
+  }
 
-          logger.info({
-            orderId,
-            selectedDex: bestQuote.dex,
-            price: bestQuote.price.toFixed(6),
-            outputAmount: bestQuote.outputAmount.toString()
-          }, `✅ Selected ${bestQuote.dex} (best price)`);
+  /**
+   * Cancel every TWAP slice that has not started building and drop its job
+   */
+  private async cancelTwapSlices(orderId: string): Promise<void> {
+    const unstarted = { orderId, status: { in: UNSTARTED_SLICE_STATUSES } };
 
-          // Save quote history
-          await this.saveQuoteHistory(orderId, quotes, bestQuote);
+    const slices = await prisma.twapSlice.findMany({
+      where: unstarted,
+      select: { sliceIndex: true },
+    });
 
-          // Step 4: Update status to BUILDING
-          await this.updateOrderStatus(orderId, OrderStatus.BUILDING, {
-            selectedDex: bestQuote.dex,
-            estimatedPrice: bestQuote.price,
-            estimatedOutput: bestQuote.outputAmount.toString(),
-          });
+    await prisma.twapSlice.updateMany({
+      where: unstarted,
+      data: { status: OrderStatus.CANCELLED },
+    });
 
-          // Small delay to ensure WebSocket message is sent
-          await new Promise(resolve => setTimeout(resolve, 500));
+    for (const { sliceIndex } of slices) {
+      await this.removeQueuedJob(`${orderId}-slice-${sliceIndex}`);
+    }
+  }
 
-          // Step 5: Execute swap
-          const result = await this.dexRouter.executeSwap(bestQuote, slippage);
+  /**
+   * Remove a job that no worker has picked up yet
+   * Active jobs are left to stop themselves when they see the cancelled status
+   */
+  private async removeQueuedJob(jobId: string): Promise<void> {
+    const job = await this.orderQueue.getJob(jobId);
+    if (!job) {
+      return;
+    }
 
-          logger.info({ orderId, txHash: result.signature }, 'Swap executed successfully');
+    const state = await job.getState();
+    if (state !== 'waiting' && state !== 'delayed' && state !== 'prioritized') {
+      return;
+    }
 
-          // Step 6: Update status to SUBMITTED
-          await this.updateOrderStatus(orderId, OrderStatus.SUBMITTED, {
-            signature: result.signature,
-          });
+    try {
+      await job.remove();
+      logger.info({ jobId, state }, 'Removed cancelled job from queue');
+    } catch (error) {
+      // A worker locked the job in the meantime; it stops at its next status change
+      logger.warn({ error, jobId }, 'Could not remove cancelled job');
+    }
+  }
 
-          // Small delay to ensure WebSocket message is sent
-          await new Promise(resolve => setTimeout(resolve, 500));
+  /**
+   * Split a TWAP order into delayed slice jobs on the order queue
+   */
+  private async submitTwapSlices(orderData: OrderJobData): Promise<string> {
+    const { orderId, twapSlices, twapIntervalMs } = orderData;
 
-          // Step 7: Transaction is confirmed (already waited in executeSwap)
-          // Update status to CONFIRMED
-          await this.updateOrderStatus(orderId, OrderStatus.CONFIRMED, {
-            txHash: result.signature,
-            executedPrice: result.executedPrice,
-            executedAmount: result.executedAmount.toString(),
-            dex: result.dex,
-          });
+    if (!twapSlices || twapIntervalMs === undefined) {
+      throw new Error('TWAP orders require slice count and interval');
+    }
 
-          // Update database with final results
-          await prisma.order.update({
-            where: { orderId },
-            data: {
-              status: OrderStatus.CONFIRMED,
-              selectedDex: result.dex,
-              executedPrice: result.executedPrice,
-              amountOut: result.executedAmount,
-              txHash: result.signature,
-              updatedAt: new Date(),
-            },
-          });
+    const totalAmount = BigInt(orderData.amount);
+    const sliceAmount = totalAmount / BigInt(twapSlices);
+    const now = Date.now();
+
+    const slices = Array.from({ length: twapSlices }, (_, sliceIndex) => ({
+      sliceIndex,
+      // Last slice absorbs the rounding remainder
+      amountIn: sliceIndex === twapSlices - 1
+        ? totalAmount - sliceAmount * BigInt(twapSlices - 1)
+        : sliceAmount,
+      delay: sliceIndex * twapIntervalMs,
+    }));
 
-          logger.info({ orderId, txHash: result.signature }, 'Order completed successfully');
+    await prisma.twapSlice.createMany({
+      data: slices.map((slice) => ({
+        orderId,
+        sliceIndex: slice.sliceIndex,
+        amountIn: slice.amountIn,
+        status: OrderStatus.PENDING,
+        scheduledAt: new Date(now + slice.delay),
+      })),
+      skipDuplicates: true,
+    });
 
-          return {
-            success: true,
-            signature: result.signature,
-            executedPrice: result.executedPrice,
-          };
-        } catch (error) {
-          logger.error({ error, orderId, attempt: job.attemptsMade }, 'Order processing failed');
+    await this.orderQueue.addBulk(
+      slices.map((slice) => ({
+        name: 'process-twap-slice',
+        data: {
+          ...orderData,
+          amount: slice.amountIn.toString(),
+          sliceIndex: slice.sliceIndex,
+        },
+        opts: {
+          jobId: `${orderId}-slice-${slice.sliceIndex}`,
+          delay: slice.delay,
+          priority: 1,
+        },
+      }))
+    );
 
-          // Update order status to FAILED
-          await this.updateOrderStatus(orderId, OrderStatus.FAILED, {
-            error: error instanceof Error ? error.message : 'Unknown error',
-            retryCount: job.attemptsMade,
-          });
+    logger.info({ orderId, twapSlices, twapIntervalMs }, 'TWAP slices scheduled');
 
-          // Update database
-          await prisma.order.update({
-            where: { orderId },
-            data: {
-              status: OrderStatus.FAILED,
-              errorMessage: error instanceof Error ? error.message : 'Unknown error',
-              retryCount: job.attemptsMade,
-              updatedAt: new Date(),
-            },
-          });
+    return orderId;
+  }
 
-          throw error; // Re-throw to let BullMQ handle retries
+  /**
+   * Setup the worker to process orders
+   */
+  private setupWorker(): void {
+    this.worker = new Worker<OrderJobData>(
+      'order-processing',
+      async (job: Job<OrderJobData>) => {
+        if (job.name === 'process-twap-slice') {
+          return this.processTwapSlice(job);
         }
+
+        return this.processOrder(job);
       },
       {
         connection: this.redis,
@@ -206,6 +307,12 @@ export class OrderProcessor {
       }
     );
 
+    this.worker.on('failed', (job, error) => {
+      if (job) {
+        void this.deadLetterIfExhausted(job, error);
+      }
+    });
+
     logger.info(
       {
         concurrency: env.MAX_CONCURRENT_ORDERS,
@@ -216,23 +323,256 @@ export class OrderProcessor {
   }
 
   /**
-   * Update order status and broadcast via WebSocket
+   * Process a single order job through ROUTING -> BUILDING -> SUBMITTED -> CONFIRMED
+   */
+  private async processOrder(job: Job<OrderJobData>) {
+    const {
+      orderId, tokenIn, tokenOut, amount, slippage, userWallet, orderType, limitPrice, maxPriceImpact, quotedRoute, nonCustodial,
+    } = job.data;
+    const attempt = job.attemptsMade + 1;
+
+    logger.info({ orderId, jobId: job.id, attempt }, 'Processing order');
+
+    try {
+      // An earlier run stopped mid-swap (worker crash or lost confirmation); settle it first
+      const reconciled = await this.reconcileOrder(orderId, { attempt, resume: true });
+
+      if (reconciled === 'settled') {
+        return { success: (await this.getOrderStatus(orderId)) === OrderStatus.CONFIRMED, reconciled: true };
+      }
+
+      if (reconciled === 'pending') {
+        throw new BlockchainError('Submitted transaction has not landed yet', true);
+      }
+
+      // Step 1: Update status to ROUTING
+      await this.updateOrderStatus(orderId, OrderStatus.ROUTING, {
+        message: quotedRoute ? 'Executing quoted route' : 'Fetching quotes from DEXs',
+      }, { attempt });
+
+      // Small delay to ensure WebSocket message is sent
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      // Step 2-3: Get quotes from DEXs and select the route (or take the one the order was quoted)
+      const route = quotedRoute
+        ? parseWithBigInt<RouteSelection>(quotedRoute)
+        : await this.dexRouter.getRoute(tokenIn, tokenOut, BigInt(amount), maxPriceImpact);
+      const { quotes, splitRoute } = route;
+
+      // A non-custodial swap is a single transaction for the user's wallet, so never split;
+      // the route's best quote may only have been kept as the fallback to a split within the cap
+      const bestQuote = nonCustodial ? this.selectSingleQuote(quotes, maxPriceImpact) : route.bestQuote;
+
+      // Log all quotes for demo visibility
+      logger.info({ orderId }, '📊 Comparing DEX quotes:');
+      quotes.forEach(quote => {
+        logger.info({
+          orderId,
+          dex: quote.dex,
+          outputAmount: quote.outputAmount.toString(),
+          price: quote.price.toFixed(6),
+          fee: `${(quote.fee * 100).toFixed(2)}%`,
+          priceImpact: quote.priceImpact !== undefined ? `${(quote.priceImpact * 100).toFixed(2)}%` : undefined,
+        }, `  ${quote.dex} quote`);
+      });
+
+      // Price may have moved since the watcher triggered; hand the order back if so
+      if (orderType === OrderType.LIMIT && limitPrice !== undefined && bestQuote.price < limitPrice) {
+        await this.returnToWatcher(orderId, limitPrice, bestQuote.price, attempt);
+        return { success: false, requeued: true };
+      }
+
+      const useSplit = splitRoute !== null && !nonCustodial;
+
+      if (useSplit) {
+        logger.info({
+          orderId,
+          legs: splitRoute.legs.map(leg => `${leg.dex}:${leg.inputAmount.toString()}`),
+          outputAmount: splitRoute.outputAmount.toString(),
+          singleOutputAmount: bestQuote.outputAmount.toString(),
+        }, `✅ Selected split route across ${splitRoute.legs.length} pools`);
+      } else {
+        logger.info({
+          orderId,
+          selectedDex: bestQuote.dex,
+          price: bestQuote.price.toFixed(6),
+          outputAmount: bestQuote.outputAmount.toString()
+        }, `✅ Selected ${bestQuote.dex} (best price)`);
+      }
+
+      // Save quote history
+      await this.saveQuoteHistory(orderId, quotes, useSplit ? null : bestQuote);
+      const legIds = useSplit ? await this.saveRouteLegs(orderId, splitRoute.legs) : [];
+
+      // Least output the order accepts
+      const minAmountOut = this.dexRouter.getRouteMinAmountOut(useSplit ? route : { ...route, bestQuote, splitRoute: null }, slippage);
+
+      // The wallet that signs must be able to pay for the swap before it is built
+      const createOutputAccount = await this.preflightSwap({
+        owner: nonCustodial ? new PublicKey(userWallet) : undefined,
+        tokenIn,
+        tokenOut,
+        amountIn: BigInt(amount),
+        transactions: useSplit ? splitRoute.legs.length : 1,
+      }, useSplit ? splitRoute.legs.map((leg) => leg.dex) : [bestQuote.dex]);
+
+      if (nonCustodial) {
+        return this.awaitSignature(orderId, { ...bestQuote, createOutputAccount }, slippage, minAmountOut, userWallet, attempt);
+      }
+
+      // Step 4: Update status to BUILDING
+      await this.updateOrderStatus(orderId, OrderStatus.BUILDING, useSplit
+        ? {
+            selectedDex: this.dominantLeg(splitRoute.legs).dex,
+            estimatedPrice: splitRoute.price,
+            estimatedOutput: splitRoute.outputAmount.toString(),
+            minAmountOut: minAmountOut.toString(),
+            slippage,
+            priceImpact: splitRoute.priceImpact,
+            legs: splitRoute.legs.map(leg => ({
+              dex: leg.dex,
+              poolId: leg.poolId,
+              inputAmount: leg.inputAmount.toString(),
+              outputAmount: leg.outputAmount.toString(),
+            })),
+          }
+        : {
+            selectedDex: bestQuote.dex,
+            estimatedPrice: bestQuote.price,
+            estimatedOutput: bestQuote.outputAmount.toString(),
+            minAmountOut: minAmountOut.toString(),
+            slippage,
+            priceImpact: bestQuote.priceImpact,
+            hops: bestQuote.hops?.map(hop => ({
+              dex: hop.dex,
+              poolId: hop.poolId,
+              tokenIn: hop.tokenIn,
+              tokenOut: hop.tokenOut,
+              inputAmount: hop.inputAmount.toString(),
+              outputAmount: hop.outputAmount.toString(),
+            })),
+            bins: bestQuote.bins,
+          }, {
+            attempt,
+            fields: {
+              minAmountOut,
+              expectedAmountOut: useSplit ? splitRoute.outputAmount : bestQuote.outputAmount,
+            },
+          });
+
+      // Small delay to ensure WebSocket message is sent
+      await new Promise(resolve => setTimeout(resolve, 500));
+
+      // Step 5-6: Execute swap; its signature is recorded as SUBMITTED before it is sent
+      const result = useSplit
+        ? await this.executeSplitRoute(orderId, splitRoute, legIds, slippage, attempt, createOutputAccount)
+        : await this.dexRouter.executeSwap({ ...bestQuote, createOutputAccount }, slippage, minAmountOut, (submitted) =>
+            this.markSubmitted(orderId, submitted, attempt)
+          );
+
+      logger.info({ orderId, txHash: result.signature }, 'Swap executed successfully');
+
+      // Step 7: Transaction is confirmed (already waited in executeSwap)
+      // Update status to CONFIRMED with the final results
+      await this.updateOrderStatus(orderId, OrderStatus.CONFIRMED, {
+        txHash: result.signature,
+        executedPrice: result.executedPrice,
+        executedAmount: result.executedAmount.toString(),
+        dex: result.dex,
+      }, {
+        attempt,
+        fields: {
+          selectedDex: result.dex,
+          executedPrice: result.executedPrice,
+          amountOut: result.executedAmount,
+          txHash: result.signature,
+        },
+      });
+
+      logger.info({ orderId, txHash: result.signature }, 'Order completed successfully');
+
+      return {
+        success: true,
+        signature: result.signature,
+        executedPrice: result.executedPrice,
+      };
+    } catch (error) {
+      const status = error instanceof OrderCancelledError ? OrderStatus.CANCELLED : await this.getOrderStatus(orderId);
+
+      // Cancelled before the swap was built; nothing to record or retry
+      if (status === OrderStatus.CANCELLED) {
+        logger.info({ orderId, jobId: job.id }, 'Order cancelled while processing, stopping');
+        return { success: false, cancelled: true };
+      }
+
+      logger.error({ error, orderId, attempt }, 'Order processing failed');
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const finalAttempt = attempt >= (job.opts.attempts ?? 1);
+
+      // A swap that settled below its minimum already happened; record it and never retry
+      const settled = error instanceof MinimumOutputError;
+
+      // A sent swap may still land: the next attempt reconciles it, or the reconciler once none are left
+      if (status === OrderStatus.SUBMITTED && !settled && !(error instanceof UnrecoverableError)) {
+        if (finalAttempt) {
+          logger.warn({ orderId, attempt }, 'Leaving submitted order for the reconciler');
+        }
+        throw error;
+      }
+
+      // Wait in RETRYING while BullMQ has attempts left
+      const retrying = !settled
+        && !finalAttempt
+        && !(error instanceof UnrecoverableError)
+        && status !== null
+        && canTransition(status, OrderStatus.RETRYING);
+
+      if (retrying) {
+        await this.updateOrderStatus(orderId, OrderStatus.RETRYING, {
+          error: errorMessage,
+          retryCount: attempt,
+        }, { attempt, fields: { errorMessage, retryCount: attempt } });
+
+        throw error; // Re-throw to let BullMQ handle retries
+      }
+
+      await this.updateOrderStatus(orderId, OrderStatus.FAILED, {
+        error: errorMessage,
+        retryCount: job.attemptsMade,
+        ...(settled && {
+          txHash: error.signature,
+          executedAmount: error.receivedAmount.toString(),
+          minAmountOut: error.minAmountOut.toString(),
+        }),
+      }, {
+        attempt,
+        fields: {
+          errorMessage,
+          retryCount: job.attemptsMade,
+          ...(settled && { txHash: error.signature, amountOut: error.receivedAmount }),
+        },
+      });
+
+      // Failed for good; BullMQ must not run it again
+      throw finalAttempt ? error : new UnrecoverableError(errorMessage);
+    }
+  }
+
+  /**
+   * Move the order through the state machine and broadcast via WebSocket
+   * Throws OrderCancelledError instead if the order was cancelled meanwhile
    */
   private async updateOrderStatus(
     orderId: string,
     status: OrderStatus,
-    data: Record<string, any>
+    data: Record<string, any>,
+    options: Omit<TransitionOptions, 'payload'> = {}
   ): Promise<void> {
     logger.info({ orderId, status, data }, 'Updating order status');
 
-    // Update database
-    await prisma.order.update({
-      where: { orderId },
-      data: {
-        status,
-        updatedAt: new Date(),
-      },
-    });
+    // Update database and record the transition with the broadcast payload
+    await this.orderState.transition(orderId, status, { ...options, payload: data });
 
     // Broadcast via WebSocket
     const statusUpdate: OrderStatusUpdate = {
@@ -243,6 +583,896 @@ export class OrderProcessor {
     this.wsManager.broadcastOrderUpdate(orderId, statusUpdate);
   }
 
+  /**
+   * Best quote that is executable as one transaction within maxPriceImpact
+   */
+  private selectSingleQuote(quotes: Quote[], maxPriceImpact?: number): Quote {
+    const bestQuote = this.dexRouter.selectBestQuote(quotes, maxPriceImpact);
+
+    if (!bestQuote) {
+      if (maxPriceImpact === undefined) {
+        throw new Error('No valid quotes available');
+      }
+
+      throw new PriceImpactExceededError(Math.min(...quotes.map((quote) => quote.priceImpact ?? 0)), maxPriceImpact);
+    }
+
+    return bestQuote;
+  }
+
+  /**
+   * Check the swap's signer can fund it on the route's venues, failing the order for good when it cannot
+   * Returns whether the swap must create the signer's output token account
+   */
+  private async preflightSwap(request: PreflightRequest, venues: DexType[]): Promise<boolean> {
+    if (!this.preflight) {
+      return false;
+    }
+
+    try {
+      const { createOutputAccount } = await this.preflight.check({
+        ...request,
+        wrapsNativeInput: venues.some((dex) => this.dexRouter.wrapsNativeInput(dex)),
+      });
+      return createOutputAccount;
+    } catch (error) {
+      // Retrying seconds later will not fund the wallet
+      if (error instanceof InsufficientFundsError) {
+        throw new UnrecoverableError(error.message);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Build a non-custodial order's swap for its wallet and leave the order BUILDING
+   * until the signed transaction comes back through submitSignedTransaction
+   */
+  private async awaitSignature(
+    orderId: string,
+    quote: Quote,
+    slippage: number,
+    minAmountOut: bigint,
+    userWallet: string,
+    attempt: number
+  ) {
+    const unsigned = await this.dexRouter.buildUnsignedSwap(quote, slippage, minAmountOut, new PublicKey(userWallet));
+
+    await this.updateOrderStatus(orderId, OrderStatus.BUILDING, {
+      selectedDex: quote.dex,
+      estimatedPrice: unsigned.quote.price,
+      estimatedOutput: unsigned.quote.outputAmount.toString(),
+      minAmountOut: minAmountOut.toString(),
+      slippage,
+      priceImpact: unsigned.quote.priceImpact,
+      awaitingSignature: true,
+      transaction: unsigned.transaction,
+      lastValidBlockHeight: unsigned.lastValidBlockHeight,
+    }, {
+      attempt,
+      fields: {
+        selectedDex: quote.dex,
+        minAmountOut,
+        expectedAmountOut: unsigned.quote.outputAmount,
+        unsignedTransaction: unsigned.transaction,
+        lastValidBlockHeight: BigInt(unsigned.lastValidBlockHeight),
+      },
+    });
+
+    logger.info({ orderId, userWallet, lastValidBlockHeight: unsigned.lastValidBlockHeight }, 'Swap built, awaiting wallet signature');
+
+    return { success: true, awaitingSignature: true };
+  }
+
+  /**
+   * Send the wallet-signed copy of a non-custodial order's swap
+   * Recorded as SUBMITTED before it is sent, then settled from the chain in the background
+   */
+  async submitSignedTransaction(orderId: string, signed: Transaction): Promise<string> {
+    const order = await prisma.order.findUnique({ where: { orderId } });
+
+    if (!order) {
+      throw new OrderNotFoundError(orderId);
+    }
+
+    if (!order.nonCustodial || order.status !== OrderStatus.BUILDING || order.unsignedTransaction === null) {
+      throw new NotAwaitingSignatureError(orderId);
+    }
+
+    // The wallet may only sign what was built and priced, not change it
+    const unsigned = Transaction.from(Buffer.from(order.unsignedTransaction, 'base64'));
+    if (!signed.serializeMessage().equals(unsigned.serializeMessage())) {
+      throw new ValidationError('transaction: Does not match the unsigned transaction built for the order');
+    }
+
+    if (!signed.signature || !signed.verifySignatures()) {
+      throw new ValidationError(`transaction: Must be signed by ${order.userWallet}`);
+    }
+
+    const signature = bs58.encode(signed.signature);
+    const lastValidBlockHeight = Number(order.lastValidBlockHeight);
+
+    // Also the guard against a second submission: only one can move the order out of BUILDING
+    await this.markSubmitted(orderId, { signature, lastValidBlockHeight });
+
+    try {
+      await this.transactionService.sendSignedTransaction(signed);
+    } finally {
+      // Even a failed send may have reached a validator; the chain settles it either way
+      void this.settleSignedTransaction(orderId, signature, signed.recentBlockhash!, lastValidBlockHeight);
+    }
+
+    logger.info({ orderId, signature }, 'Wallet-signed swap sent');
+
+    return signature;
+  }
+
+  /**
+   * Wait for a wallet-signed swap to confirm or expire, then finalize its order
+   * If the process stops first, the order reconciler settles it instead
+   */
+  private async settleSignedTransaction(
+    orderId: string,
+    signature: string,
+    blockhash: string,
+    lastValidBlockHeight: number
+  ): Promise<void> {
+    await this.transactionService.waitForSubmission(signature, blockhash, lastValidBlockHeight);
+
+    try {
+      const result = await this.reconcileOrder(orderId, { resume: false });
+      logger.info({ orderId, signature, result }, 'Settled wallet-signed swap');
+    } catch (error) {
+      logger.error({ error, orderId, signature }, 'Failed to settle wallet-signed swap, leaving it for the reconciler');
+    }
+  }
+
+  /**
+   * Record a signed swap as SUBMITTED before it is sent
+   */
+  private async markSubmitted(orderId: string, submitted: SubmittedTransaction, attempt?: number): Promise<void> {
+    await this.updateOrderStatus(orderId, OrderStatus.SUBMITTED, {
+      signature: submitted.signature,
+    }, {
+      attempt,
+      fields: {
+        txHash: submitted.signature,
+        lastValidBlockHeight: toBlockHeight(submitted),
+      },
+    });
+  }
+
+  /**
+   * Settle an order a previous run left BUILDING or SUBMITTED
+   * - Waits ('pending') while any signature it recorded may still land
+   * - A swap that landed is CONFIRMED with the output its transaction delivered
+   * - When every signature failed or expired nothing was swapped, so the order
+   *   goes back through RETRYING if options.resume is set and FAILS otherwise
+   * - A split route with only some legs landed FAILS with their fill, like a leg failing mid-route
+   * - A non-custodial swap nobody signed waits until its blockhash expires, then FAILS
+   */
+  async reconcileOrder(orderId: string, options: ReconcileOptions): Promise<ReconcileResult> {
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      include: { quotes: { where: { legIndex: { not: null } }, orderBy: { legIndex: 'asc' } } },
+    });
+
+    if (!order || !IN_FLIGHT_STATUSES.includes(order.status)) {
+      return 'idle';
+    }
+
+    const { attempt } = options;
+
+    // Leg signatures mean this run took a split route; its legs are the ones saved for it
+    const legs = order.quotes;
+    const submittedLegs = legs.filter((leg) => leg.txHash !== null);
+    const isSplit = submittedLegs.length > 0;
+    const submissions: Array<Pick<Order | QuoteHistory, 'txHash' | 'lastValidBlockHeight'>> = isSplit
+      ? submittedLegs
+      : order.txHash ? [order] : [];
+
+    if (submissions.length === 0) {
+      // A non-custodial swap waits for its wallet's signature until the blockhash expires
+      if (order.unsignedTransaction !== null && !options.resume) {
+        const signable = order.lastValidBlockHeight !== null
+          && await this.transactionService.isBlockhashValid(Number(order.lastValidBlockHeight));
+
+        return signable
+          ? 'pending'
+          : this.abandonOrder(order, 'Transaction was not signed before its blockhash expired', options);
+      }
+
+      return this.abandonOrder(order, 'Interrupted before a swap was sent', options);
+    }
+
+    // A split leg was recorded just before the order itself moved to SUBMITTED
+    if (order.status === OrderStatus.BUILDING) {
+      await this.markSubmitted(orderId, {
+        signature: submissions[0].txHash!,
+        lastValidBlockHeight: submissions[0].lastValidBlockHeight === null
+          ? undefined
+          : Number(submissions[0].lastValidBlockHeight),
+      }, attempt);
+    }
+
+    const outcomes = await Promise.all(
+      submissions.map((submission) =>
+        this.transactionService.getSubmissionOutcome(
+          submission.txHash!,
+          submission.lastValidBlockHeight === null ? null : Number(submission.lastValidBlockHeight)
+        )
+      )
+    );
+
+    logger.info({ orderId, signatures: submissions.map((s) => s.txHash), outcomes }, 'Reconciling interrupted order');
+
+    if (outcomes.includes('pending')) {
+      return 'pending';
+    }
+
+    const landed = outcomes.filter((outcome) => outcome === 'confirmed').length;
+
+    if (landed === 0) {
+      if (isSplit) {
+        // None of the legs swapped; drop them so the next run saves its own route
+        await prisma.quoteHistory.deleteMany({ where: { orderId, legIndex: { not: null } } });
+      }
+
+      const signatures = submissions.map((submission) => submission.txHash).join(', ');
+      return this.abandonOrder(order, `Transaction ${signatures} did not land`, options);
+    }
+
+    if (isSplit && landed < legs.length) {
+      const errorMessage = `Split route interrupted after ${landed} of ${legs.length} legs settled`;
+      const landedLegs = submittedLegs.filter((_, i) => outcomes[i] === 'confirmed');
+
+      await this.recordPartialFill(orderId, await Promise.all(landedLegs.map(async (leg) => ({
+        inputAmount: leg.inputAmount,
+        amountOut: await this.readSettledLegOutput(order, leg),
+        signature: leg.txHash!,
+      }))));
+
+      await this.updateOrderStatus(orderId, OrderStatus.FAILED, {
+        error: errorMessage,
+        reconciled: true,
+      }, { attempt, fields: { errorMessage } });
+
+      return 'settled';
+    }
+
+    const txHash = submissions[submissions.length - 1].txHash!;
+    const amountOut = await this.readSettledOutput(order, isSplit);
+    const executedPrice = amountOut !== null ? Number(amountOut) / Number(order.amountIn) : null;
+
+    await this.updateOrderStatus(orderId, OrderStatus.CONFIRMED, {
+      txHash,
+      executedPrice,
+      executedAmount: amountOut?.toString(),
+      dex: order.selectedDex,
+      reconciled: true,
+    }, { attempt, fields: { txHash, amountOut, executedPrice } });
+
+    logger.info({ orderId, txHash }, 'Interrupted order confirmed from chain');
+
+    return 'settled';
+  }
+
+  /**
+   * Output of an order's swap that landed while nobody waited on it
+   * Read from each landed transaction's token balances, so it is what the wallet actually
+   * received; a venue that fills at the quote counts the output it was built for
+   */
+  private async readSettledOutput(order: Order & { quotes: QuoteHistory[] }, isSplit: boolean): Promise<bigint | null> {
+    if (isSplit) {
+      const legAmounts = await Promise.all(order.quotes.map((leg) => this.readSettledLegOutput(order, leg)));
+      return legAmounts.reduce((sum, amount) => sum + amount, 0n);
+    }
+
+    const payoutDex = await this.getPayoutDex(order);
+
+    if (payoutDex === null || order.txHash === null) {
+      return order.expectedAmountOut;
+    }
+
+    const owner = order.nonCustodial ? new PublicKey(order.userWallet) : undefined;
+    const settled = await this.dexRouter.getSettledAmount(payoutDex, order.txHash, order.tokenOut, owner);
+    return settled ?? order.expectedAmountOut;
+  }
+
+  /**
+   * Venue that paid out an order's swap: a multi-hop route's final hop, otherwise the selected venue
+   * The order only records a route's first venue; its hops are kept on the BUILDING event
+   */
+  private async getPayoutDex(order: Order): Promise<DexType | null> {
+    const building = await prisma.orderEvent.findFirst({
+      where: { orderId: order.orderId, toStatus: OrderStatus.BUILDING },
+      orderBy: { createdAt: 'desc' },
+    });
+    const hops = (building?.payload as { hops?: Array<{ dex: DexType }> } | null)?.hops;
+
+    return hops?.length ? hops[hops.length - 1].dex : order.selectedDex;
+  }
+
+  /**
+   * Output of one landed split route leg, or its quoted output on a venue that fills at the quote
+   */
+  private async readSettledLegOutput(order: Order, leg: QuoteHistory): Promise<bigint> {
+    const owner = order.nonCustodial ? new PublicKey(order.userWallet) : undefined;
+    const settled = await this.dexRouter.getSettledAmount(leg.dex, leg.txHash!, order.tokenOut, owner);
+    return settled ?? leg.outputAmount;
+  }
+
+  /**
+   * Hand back an order nothing was swapped for: RETRYING to run again, or FAILED
+   */
+  private async abandonOrder(order: Order, reason: string, options: ReconcileOptions): Promise<ReconcileResult> {
+    const { attempt, resume } = options;
+    const status = resume ? OrderStatus.RETRYING : OrderStatus.FAILED;
+
+    logger.warn({ orderId: order.orderId, reason, status }, 'Interrupted order swapped nothing');
+
+    await this.updateOrderStatus(order.orderId, status, {
+      error: reason,
+      reconciled: true,
+    }, {
+      attempt,
+      fields: { errorMessage: reason, txHash: null, lastValidBlockHeight: null, unsignedTransaction: null },
+    });
+
+    return resume ? 'resume' : 'settled';
+  }
+
+  /**
+   * Whether BullMQ will still run this job
+   */
+  async hasLiveJob(jobId: string): Promise<boolean> {
+    const job = await this.orderQueue.getJob(jobId);
+    return job !== undefined && LIVE_JOB_STATES.includes(await job.getState());
+  }
+
+  /**
+   * Move a job BullMQ will not run again to the dead-letter queue
+   * Its order is FAILED too, unless a swap may be in flight for the reconciler to settle
+   */
+  private async deadLetterIfExhausted(job: Job<OrderJobData>, error: Error): Promise<void> {
+    try {
+      // A failed attempt with retries left waits as a delayed job instead
+      if ((await job.getState()) !== 'failed') {
+        return;
+      }
+
+      const errorType = classifySolanaError(error);
+
+      if (job.name === 'process-order') {
+        const status = await this.getOrderStatus(job.data.orderId);
+
+        // Normally the final attempt already failed it; not when the job stalled out
+        if (status !== null && !IN_FLIGHT_STATUSES.includes(status) && canTransition(status, OrderStatus.FAILED)) {
+          await this.updateOrderStatus(job.data.orderId, OrderStatus.FAILED, {
+            error: error.message,
+            errorType,
+          }, { fields: { errorMessage: error.message } });
+        }
+      }
+
+      await this.deadLetters.add(job, error, errorType);
+    } catch (deadLetterError) {
+      logger.error({ error: deadLetterError, jobId: job.id }, 'Failed to dead-letter job');
+    }
+  }
+
+  /**
+   * Run a dead-lettered order again from PENDING, optionally with a new slippage
+   * Refused for TWAP slices and for orders with a swap that already landed
+   */
+  async replayDeadLetter(jobId: string, options: ReplayOptions = {}): Promise<DeadLetterJobData> {
+    const entry = await this.deadLetters.get(jobId);
+    if (!entry) {
+      throw new DeadLetterNotFoundError(jobId);
+    }
+
+    if (entry.jobName !== 'process-order') {
+      throw new ReplayNotAllowedError('TWAP slices cannot be replayed; discard the entry instead');
+    }
+
+    const { orderId } = entry;
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      select: {
+        txHash: true,
+        quotes: { where: { legIndex: { not: null }, txHash: { not: null } }, select: { id: true } },
+      },
+    });
+
+    if (!order) {
+      throw new OrderNotFoundError(orderId);
+    }
+
+    // Running it again would swap a second time
+    if (order.txHash !== null || order.quotes.length > 0) {
+      throw new ReplayNotAllowedError(`Order ${orderId} already has a swap on-chain and cannot be replayed`);
+    }
+
+    const slippage = options.slippage ?? entry.data.slippage;
+
+    await this.updateOrderStatus(orderId, OrderStatus.PENDING, {
+      message: 'Replayed from the dead-letter queue',
+      slippage,
+    }, {
+      replay: true,
+      fields: { slippage, errorMessage: null, retryCount: 0, minAmountOut: null, expectedAmountOut: null },
+    });
+
+    // Free the failed job's id for the replay
+    const failedJob = await this.orderQueue.getJob(jobId);
+    if (failedJob) {
+      await failedJob.remove();
+    }
+
+    // Route afresh: a quoted route from before the failure is long stale
+    await this.submitOrder({ ...entry.data, slippage, quotedRoute: undefined, timestamp: Date.now() });
+    await this.deadLetters.remove(jobId);
+
+    logger.info({ jobId, orderId, slippage }, 'Dead-lettered order replayed');
+
+    return entry;
+  }
+
+  /**
+   * Drop a dead-lettered job for good; its order stays FAILED
+   */
+  async discardDeadLetter(jobId: string): Promise<DeadLetterJobData> {
+    const entry = await this.deadLetters.get(jobId);
+    if (!entry) {
+      throw new DeadLetterNotFoundError(jobId);
+    }
+
+    await this.deadLetters.remove(jobId);
+
+    const failedJob = await this.orderQueue.getJob(jobId);
+    if (failedJob && (await failedJob.isFailed())) {
+      await failedJob.remove();
+    }
+
+    logger.info({ jobId, orderId: entry.orderId }, 'Dead-lettered job discarded');
+
+    return entry;
+  }
+
+  /**
+   * Execute one TWAP slice and fold its fill into the parent order
+   */
+  private async processTwapSlice(job: Job<OrderJobData>) {
+    const { orderId, tokenIn, tokenOut, amount, slippage, maxPriceImpact } = job.data;
+    const sliceIndex = job.data.sliceIndex!;
+    const sliceWhere = { orderId_sliceIndex: { orderId, sliceIndex } };
+
+    logger.info({ orderId, sliceIndex, jobId: job.id }, 'Processing TWAP slice');
+
+    try {
+      // An earlier run stopped mid-swap; settle the slice first
+      const reconciled = await this.reconcileTwapSlice(orderId, sliceIndex, { resume: true });
+
+      if (reconciled === 'settled') {
+        const slice = await prisma.twapSlice.findUnique({ where: sliceWhere, select: { status: true } });
+        return { success: slice?.status === OrderStatus.CONFIRMED, reconciled: true };
+      }
+
+      if (reconciled === 'pending') {
+        throw new BlockchainError('Submitted slice transaction has not landed yet', true);
+      }
+
+      await this.updateSliceStatus(orderId, sliceIndex, OrderStatus.PENDING, OrderStatus.ROUTING);
+
+      const quotes = await this.dexRouter.getQuotes(tokenIn, tokenOut, BigInt(amount));
+      const bestQuote = this.selectSingleQuote(quotes, maxPriceImpact);
+
+      await this.saveQuoteHistory(orderId, quotes, bestQuote);
+
+      const createOutputAccount = await this.preflightSwap({ tokenIn, tokenOut, amountIn: BigInt(amount) }, [bestQuote.dex]);
+
+      await this.updateSliceStatus(orderId, sliceIndex, OrderStatus.ROUTING, OrderStatus.BUILDING, {
+        selectedDex: bestQuote.dex,
+        expectedAmountOut: bestQuote.outputAmount,
+      });
+
+      const result = await this.dexRouter.executeSwap({ ...bestQuote, createOutputAccount }, slippage, undefined, (submitted) =>
+        this.updateSliceStatus(orderId, sliceIndex, OrderStatus.BUILDING, OrderStatus.SUBMITTED, {
+          txHash: submitted.signature,
+          lastValidBlockHeight: toBlockHeight(submitted),
+        })
+      );
+
+      await prisma.twapSlice.update({
+        where: sliceWhere,
+        data: {
+          status: OrderStatus.CONFIRMED,
+          selectedDex: result.dex,
+          executedPrice: result.executedPrice,
+          amountOut: result.executedAmount,
+          txHash: result.signature,
+          errorMessage: null,
+        },
+      });
+
+      logger.info({ orderId, sliceIndex, txHash: result.signature }, 'TWAP slice executed');
+
+      await this.aggregateTwapOrder(orderId, sliceIndex);
+
+      return {
+        success: true,
+        signature: result.signature,
+        executedPrice: result.executedPrice,
+      };
+    } catch (error) {
+      if (error instanceof OrderCancelledError) {
+        logger.info({ orderId, sliceIndex, jobId: job.id }, 'TWAP slice cancelled, skipping');
+        return { success: false, cancelled: true };
+      }
+
+      // A sent swap may still land: the next attempt reconciles it, or the reconciler once none are left
+      const slice = await prisma.twapSlice.findUnique({ where: sliceWhere, select: { status: true } });
+      if (slice?.status === OrderStatus.SUBMITTED) {
+        logger.error({ error, orderId, sliceIndex, attempt: job.attemptsMade }, 'TWAP slice failed after submission');
+        throw error;
+      }
+
+      // The parent was cancelled while this slice was building; don't leave it to retry
+      if ((await this.getOrderStatus(orderId)) === OrderStatus.CANCELLED) {
+        await prisma.twapSlice.update({
+          where: sliceWhere,
+          data: { status: OrderStatus.CANCELLED, errorMessage: error instanceof Error ? error.message : 'Unknown error' },
+        });
+        await this.aggregateTwapOrder(orderId, sliceIndex);
+        return { success: false, cancelled: true };
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      const finalAttempt = error instanceof UnrecoverableError || job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+
+      logger.error({ error, orderId, sliceIndex, attempt: job.attemptsMade }, 'TWAP slice failed');
+
+      await prisma.twapSlice.update({
+        where: sliceWhere,
+        data: {
+          status: finalAttempt ? OrderStatus.FAILED : OrderStatus.PENDING,
+          errorMessage,
+          retryCount: job.attemptsMade,
+        },
+      });
+
+      if (finalAttempt) {
+        await this.aggregateTwapOrder(orderId, sliceIndex);
+      }
+
+      throw error; // Re-throw to let BullMQ handle retries
+    }
+  }
+
+  private async getOrderStatus(orderId: string): Promise<OrderStatus | null> {
+    const order = await prisma.order.findUnique({
+      where: { orderId },
+      select: { status: true },
+    });
+
+    return order?.status ?? null;
+  }
+
+  /**
+   * Settle a TWAP slice a previous run left BUILDING or SUBMITTED, like reconcileOrder
+   * A slice nothing was swapped for goes back to PENDING to run again, or FAILS
+   */
+  async reconcileTwapSlice(orderId: string, sliceIndex: number, options: ReconcileOptions): Promise<ReconcileResult> {
+    const slice = await prisma.twapSlice.findUnique({
+      where: { orderId_sliceIndex: { orderId, sliceIndex } },
+      include: { order: { select: { tokenOut: true } } },
+    });
+
+    if (!slice || !IN_FLIGHT_STATUSES.includes(slice.status)) {
+      return 'idle';
+    }
+
+    const outcome = slice.txHash
+      ? await this.transactionService.getSubmissionOutcome(
+          slice.txHash,
+          slice.lastValidBlockHeight === null ? null : Number(slice.lastValidBlockHeight)
+        )
+      : null;
+
+    logger.info({ orderId, sliceIndex, txHash: slice.txHash, outcome }, 'Reconciling interrupted TWAP slice');
+
+    if (outcome === 'pending') {
+      return 'pending';
+    }
+
+    if (outcome === 'confirmed') {
+      // What the engine's wallet actually received, unless the venue fills at the quote
+      const settled = slice.selectedDex !== null
+        ? await this.dexRouter.getSettledAmount(slice.selectedDex, slice.txHash!, slice.order.tokenOut)
+        : null;
+      const amountOut = settled ?? slice.expectedAmountOut;
+
+      await this.updateSliceStatus(orderId, sliceIndex, slice.status, OrderStatus.CONFIRMED, {
+        amountOut,
+        executedPrice: amountOut !== null ? Number(amountOut) / Number(slice.amountIn) : null,
+        errorMessage: null,
+      });
+    } else {
+      const reason = slice.txHash ? `Transaction ${slice.txHash} did not land` : 'Interrupted before a swap was sent';
+      // Run the slice again unless the parent was cancelled in the meantime
+      const to = !options.resume
+        ? OrderStatus.FAILED
+        : (await this.getOrderStatus(orderId)) === OrderStatus.CANCELLED ? OrderStatus.CANCELLED : OrderStatus.PENDING;
+
+      await this.updateSliceStatus(orderId, sliceIndex, slice.status, to, {
+        txHash: null,
+        lastValidBlockHeight: null,
+        errorMessage: reason,
+      });
+
+      if (to === OrderStatus.PENDING) {
+        return 'resume';
+      }
+    }
+
+    await this.aggregateTwapOrder(orderId, sliceIndex);
+
+    return 'settled';
+  }
+
+  /**
+   * Move a slice on from the status it is expected in
+   * Throws OrderCancelledError when the slice was cancelled instead
+   */
+  private async updateSliceStatus(
+    orderId: string,
+    sliceIndex: number,
+    from: OrderStatus,
+    to: OrderStatus,
+    data: Prisma.TwapSliceUpdateManyMutationInput = {}
+  ): Promise<void> {
+    const updated = await prisma.twapSlice.updateMany({
+      where: { orderId, sliceIndex, status: from },
+      data: { ...data, status: to },
+    });
+
+    if (updated.count === 0) {
+      throw new OrderCancelledError(orderId);
+    }
+  }
+
+  /**
+   * Recompute the parent's filled amount, output and average price from its slices
+   */
+  private async aggregateTwapOrder(orderId: string, sliceIndex: number): Promise<void> {
+    const slices = await prisma.twapSlice.findMany({
+      where: { orderId },
+      orderBy: { sliceIndex: 'asc' },
+    });
+
+    const filled = slices.filter((slice) => slice.status === OrderStatus.CONFIRMED);
+    const failedCount = slices.filter((slice) => slice.status === OrderStatus.FAILED).length;
+    const cancelledCount = slices.filter((slice) => slice.status === OrderStatus.CANCELLED).length;
+    const done = filled.length + failedCount + cancelledCount === slices.length;
+
+    const filledAmountIn = filled.reduce((sum, slice) => sum + slice.amountIn, 0n);
+    const amountOut = filled.reduce((sum, slice) => sum + (slice.amountOut ?? 0n), 0n);
+
+    // Volume-weighted average of the slice execution prices
+    const executedPrice = filledAmountIn > 0n
+      ? filled.reduce(
+          (sum, slice) => sum + parseFloat(slice.executedPrice!.toString()) * Number(slice.amountIn),
+          0
+        ) / Number(filledAmountIn)
+      : null;
+
+    const lastFilled = filled[filled.length - 1];
+    // A cancelled TWAP stays cancelled; slices already building still fold in their fills
+    const status = cancelledCount > 0
+      ? OrderStatus.CANCELLED
+      : !done
+        ? OrderStatus.SUBMITTED
+        : filled.length > 0 ? OrderStatus.CONFIRMED : OrderStatus.FAILED;
+
+    const fields = {
+      filledAmountIn,
+      amountOut: filled.length > 0 ? amountOut : null,
+      executedPrice,
+      selectedDex: lastFilled?.selectedDex ?? null,
+      txHash: lastFilled?.txHash ?? null,
+      errorMessage: cancelledCount > 0
+        ? 'Cancelled by user'
+        : done && failedCount > 0
+          ? `${failedCount} of ${slices.length} TWAP slices failed`
+          : null,
+    };
+
+    const data = {
+      sliceIndex,
+      slicesFilled: filled.length,
+      slicesFailed: failedCount,
+      slicesCancelled: cancelledCount,
+      slicesTotal: slices.length,
+      filledAmountIn: filledAmountIn.toString(),
+      executedAmount: amountOut.toString(),
+      executedPrice,
+      txHashes: filled.map((slice) => slice.txHash),
+    };
+
+    // Another fill within the same status is progress, not a transition
+    if ((await this.getOrderStatus(orderId)) === status) {
+      await prisma.order.update({
+        where: { orderId },
+        data: { ...fields, updatedAt: new Date() },
+      });
+    } else {
+      try {
+        await this.orderState.transition(orderId, status, { payload: data, fields });
+      } catch (error) {
+        if (!(error instanceof OrderCancelledError)) {
+          throw error;
+        }
+
+        // Cancelled while this slice filled; keep the fill on the cancelled order
+        await prisma.order.update({
+          where: { orderId },
+          data: { ...fields, errorMessage: 'Cancelled by user', updatedAt: new Date() },
+        });
+      }
+    }
+
+    this.wsManager.broadcastOrderUpdate(orderId, { type: status, data });
+  }
+
+  /**
+   * Execute each leg of a split route in turn and combine the fills
+   */
+  private async executeSplitRoute(
+    orderId: string,
+    route: SplitRoute,
+    legIds: string[],
+    slippage: number,
+    attempt: number,
+    createOutputAccount: boolean = false
+  ): Promise<ExecutionResult> {
+    const results: ExecutionResult[] = [];
+
+    for (const [legIndex, leg] of route.legs.entries()) {
+      // Record each leg's signature before it is sent; the first one also marks the order SUBMITTED
+      const onSubmitted: SubmissionHook = async (submitted) => {
+        await prisma.quoteHistory.update({
+          where: { id: legIds[legIndex] },
+          data: { txHash: submitted.signature, lastValidBlockHeight: toBlockHeight(submitted) },
+        });
+
+        if (legIndex === 0) {
+          await this.markSubmitted(orderId, submitted, attempt);
+        }
+      };
+
+      try {
+        // The first leg creates a missing output account; later legs find it in place
+        const legQuote = legIndex === 0 ? { ...leg, createOutputAccount } : leg;
+        const result = await this.dexRouter.executeSwap(legQuote, slippage, undefined, onSubmitted);
+        results.push(result);
+
+        logger.info({ orderId, legIndex, dex: leg.dex, txHash: result.signature }, 'Split route leg executed');
+      } catch (error) {
+        if (results.length === 0) {
+          throw error;
+        }
+
+        // Earlier legs already settled on-chain; keep their fill on the order, since a retry
+        // would swap them a second time
+        await this.recordPartialFill(orderId, results.map((result, i) => ({
+          inputAmount: route.legs[i].inputAmount,
+          amountOut: result.executedAmount,
+          signature: result.signature,
+        })));
+
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        throw new UnrecoverableError(
+          `Split route leg ${legIndex} failed after ${results.length} of ${route.legs.length} legs executed: ${message}`
+        );
+      }
+    }
+
+    const executedAmount = results.reduce((sum, result) => sum + result.executedAmount, 0n);
+    const executedPrice = route.legs.reduce(
+      (sum, leg, i) => sum + results[i].executedPrice * Number(leg.inputAmount),
+      0
+    ) / Number(route.inputAmount);
+
+    return {
+      signature: results[results.length - 1].signature,
+      executedPrice,
+      executedAmount,
+      dex: this.dominantLeg(route.legs).dex,
+    };
+  }
+
+  /**
+   * Put the legs of a split route that settled before it stopped on the order, ahead of FAILING it
+   * Each leg's signature stays on its quote history row; the order takes the last one
+   */
+  private async recordPartialFill(
+    orderId: string,
+    fills: Array<{ inputAmount: bigint; amountOut: bigint; signature: string }>
+  ): Promise<void> {
+    const filledAmountIn = fills.reduce((sum, fill) => sum + fill.inputAmount, 0n);
+    const amountOut = fills.reduce((sum, fill) => sum + fill.amountOut, 0n);
+    const txHash = fills[fills.length - 1].signature;
+
+    await prisma.order.update({
+      where: { orderId },
+      data: {
+        filledAmountIn,
+        amountOut,
+        executedPrice: Number(amountOut) / Number(filledAmountIn),
+        txHash,
+        updatedAt: new Date(),
+      },
+    });
+
+    logger.warn({
+      orderId,
+      filledAmountIn: filledAmountIn.toString(),
+      amountOut: amountOut.toString(),
+      signatures: fills.map((fill) => fill.signature),
+    }, 'Split route partially filled');
+  }
+
+  /**
+   * The leg carrying the largest share of the input
+   */
+  private dominantLeg(legs: Quote[]): Quote {
+    return legs.reduce((largest, leg) => (leg.inputAmount > largest.inputAmount ? leg : largest));
+  }
+
+  /**
+   * Save split route legs to quote history, returning their row ids in leg order
+   * Unlike quote history these rows are required: they hold each leg's signature for reconciliation
+   */
+  private async saveRouteLegs(orderId: string, legs: Quote[]): Promise<string[]> {
+    // Drop legs left unexecuted by an earlier attempt so the order shows one route
+    await prisma.quoteHistory.deleteMany({
+      where: { orderId, legIndex: { not: null }, txHash: null },
+    });
+
+    const records = await prisma.$transaction(
+      legs.map((leg, legIndex) =>
+        prisma.quoteHistory.create({
+          data: {
+            orderId,
+            dex: leg.dex,
+            inputAmount: leg.inputAmount,
+            outputAmount: leg.outputAmount,
+            price: leg.price,
+            fee: leg.fee,
+            poolId: leg.poolId,
+            wasSelected: true,
+            legIndex,
+          },
+        })
+      )
+    );
+
+    return records.map((record) => record.id);
+  }
+
+  /**
+   * Reset a triggered limit order so the watcher picks it up again
+   */
+  private async returnToWatcher(orderId: string, limitPrice: number, bestPrice: number, attempt: number): Promise<void> {
+    logger.info({ orderId, limitPrice, bestPrice }, 'Limit price no longer met, returning order to watcher');
+
+    await this.updateOrderStatus(orderId, OrderStatus.PENDING, {
+      message: 'Limit price no longer met, waiting for price',
+      limitPrice,
+      bestPrice,
+    }, { attempt, fields: { triggeredAt: null } });
+  }
+
   /**
    * Save quote history to database
    */
@@ -295,12 +1525,13 @@ export class OrderProcessor {
    * Get queue metrics
    */
   async getQueueMetrics() {
-    const [waiting, active, completed, failed, delayed] = await Promise.all([
+    const [waiting, active, completed, failed, delayed, deadLettered] = await Promise.all([
       this.orderQueue.getWaitingCount(),
       this.orderQueue.getActiveCount(),
       this.orderQueue.getCompletedCount(),
       this.orderQueue.getFailedCount(),
       this.orderQueue.getDelayedCount(),
+      this.deadLetters.getCount(),
     ]);
 
     return {
@@ -309,6 +1540,7 @@ export class OrderProcessor {
       completed,
       failed,
       delayed,
+      deadLettered,
       total: waiting + active + completed + failed + delayed,
     };
   }
@@ -0,0 +1,126 @@
+import { OrderType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { IN_FLIGHT_STATUSES, OrderProcessor } from './order-processor';
+import { PROTECTIVE_IN_FLIGHT_STATUSES, ProtectiveOrderWatcher } from './protective-order-watcher';
+
+/**
+ * Order Reconciler
+ * Settles orders and TWAP slices left BUILDING or SUBMITTED with no job to finish
+ * them, e.g. after a worker died mid-swap and its job ran out of attempts.
+ * Swaps whose job is still queued are left to it: the job reconciles them itself
+ * when it next runs, and BullMQ re-runs the jobs of a crashed worker on restart.
+ * Protective orders have no job, so every one left triggered or mid-swap is settled here.
+ */
+export class OrderReconciler {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+
+  constructor(
+    private orderProcessor: OrderProcessor,
+    private protectiveOrderWatcher: ProtectiveOrderWatcher,
+    private intervalMs: number = env.RECONCILE_INTERVAL_MS,
+    private staleAfterMs: number = env.RECONCILE_STALE_AFTER_MS
+  ) {}
+
+  /**
+   * Reconcile once now, for whatever the last shutdown left behind, then periodically
+   */
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    void this.poll();
+
+    this.pollInterval = setInterval(() => {
+      void this.poll();
+    }, this.intervalMs);
+
+    logger.info({ intervalMs: this.intervalMs, staleAfterMs: this.staleAfterMs }, 'Order reconciler started');
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Order reconciler stopped');
+    }
+  }
+
+  /**
+   * Run a single cycle over orders, slices and protective orders untouched for longer than staleAfterMs
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      const inFlight = {
+        status: { in: IN_FLIGHT_STATUSES },
+        updatedAt: { lt: new Date(Date.now() - this.staleAfterMs) },
+      };
+
+      const orders = await prisma.order.findMany({
+        where: { ...inFlight, orderType: { not: OrderType.TWAP } },
+        select: { orderId: true },
+      });
+
+      for (const { orderId } of orders) {
+        try {
+          if (await this.orderProcessor.hasLiveJob(orderId)) {
+            continue;
+          }
+
+          const result = await this.orderProcessor.reconcileOrder(orderId, { resume: false });
+          logger.info({ orderId, result }, 'Reconciled stuck order');
+        } catch (error) {
+          logger.error({ error, orderId }, 'Failed to reconcile order');
+        }
+      }
+
+      const slices = await prisma.twapSlice.findMany({
+        where: inFlight,
+        select: { orderId: true, sliceIndex: true },
+      });
+
+      for (const { orderId, sliceIndex } of slices) {
+        try {
+          if (await this.orderProcessor.hasLiveJob(`${orderId}-slice-${sliceIndex}`)) {
+            continue;
+          }
+
+          const result = await this.orderProcessor.reconcileTwapSlice(orderId, sliceIndex, { resume: false });
+          logger.info({ orderId, sliceIndex, result }, 'Reconciled stuck TWAP slice');
+        } catch (error) {
+          logger.error({ error, orderId, sliceIndex }, 'Failed to reconcile TWAP slice');
+        }
+      }
+
+      const protectiveOrders = await prisma.protectiveOrder.findMany({
+        where: { ...inFlight, status: { in: PROTECTIVE_IN_FLIGHT_STATUSES } },
+        select: { id: true },
+      });
+
+      for (const { id } of protectiveOrders) {
+        try {
+          const result = await this.protectiveOrderWatcher.reconcileOrder(id);
+          logger.info({ protectiveOrderId: id, result }, 'Reconciled stuck protective order');
+        } catch (error) {
+          logger.error({ error, protectiveOrderId: id }, 'Failed to reconcile protective order');
+        }
+      }
+    } catch (error) {
+      logger.error({ error }, 'Order reconcile cycle failed');
+    } finally {
+      this.polling = false;
+    }
+  }
+}
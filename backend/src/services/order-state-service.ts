@@ -0,0 +1,95 @@
+import { OrderStatus } from '@prisma/client';
+import type { OrderEvent, Prisma } from '@prisma/client';
+import { prisma } from '../config/database';
+import { logger } from '../utils/logger';
+import { InvalidTransitionError, OrderCancelledError, OrderNotFoundError } from '../utils/errors';
+import { canReplay, canTransition } from '../utils/order-state-machine';
+
+export interface TransitionOptions {
+  attempt?: number; // BullMQ attempt that made the transition (1-based)
+  payload?: Record<string, unknown>; // Recorded on the event, usually the WebSocket update
+  fields?: Prisma.OrderUpdateManyMutationInput; // Order columns written with the status
+  replay?: boolean; // Operator replay from the dead-letter queue, validated with canReplay instead
+}
+
+// Concurrent writers re-read the status and re-validate this many times
+const MAX_TRANSITION_RETRIES = 3;
+
+/**
+ * Order State Service
+ * The only writer of Order.status. Every change is checked against the order
+ * state machine, applied as a compare-and-set on the status it was checked
+ * against, and recorded in order_events in the same database transaction.
+ */
+export class OrderStateService {
+  /**
+   * Move an order to `to`, returning the status it left
+   * Throws OrderCancelledError if the order was cancelled, InvalidTransitionError otherwise
+   */
+  async transition(orderId: string, to: OrderStatus, options: TransitionOptions = {}): Promise<OrderStatus> {
+    for (let retry = 0; retry < MAX_TRANSITION_RETRIES; retry++) {
+      const order = await prisma.order.findUnique({
+        where: { orderId },
+        select: { status: true, orderType: true },
+      });
+
+      if (!order) {
+        throw new OrderNotFoundError(orderId);
+      }
+
+      const from = order.status;
+
+      const allowed = options.replay ? canReplay(from, to) : canTransition(from, to, order.orderType);
+
+      if (!allowed) {
+        if (from === OrderStatus.CANCELLED) {
+          throw new OrderCancelledError(orderId);
+        }
+
+        logger.warn({ orderId, from, to }, 'Rejected illegal order transition');
+        throw new InvalidTransitionError(orderId, from, to);
+      }
+
+      const applied = await prisma.$transaction(async (tx) => {
+        const updated = await tx.order.updateMany({
+          where: { orderId, status: from },
+          data: { ...options.fields, status: to, updatedAt: new Date() },
+        });
+
+        if (updated.count === 0) {
+          return false;
+        }
+
+        await tx.orderEvent.create({
+          data: {
+            orderId,
+            fromStatus: from,
+            toStatus: to,
+            attempt: options.attempt,
+            payload: options.payload as Prisma.InputJsonValue | undefined,
+          },
+        });
+
+        return true;
+      });
+
+      if (applied) {
+        return from;
+      }
+
+      // Another writer moved the order since it was read; validate against its new status
+    }
+
+    throw new InvalidTransitionError(orderId, 'unknown', to);
+  }
+
+  /**
+   * Transitions of an order, oldest first
+   */
+  async getEvents(orderId: string): Promise<OrderEvent[]> {
+    return prisma.orderEvent.findMany({
+      where: { orderId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
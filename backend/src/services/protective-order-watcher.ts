@@ -0,0 +1,357 @@
+import { OrderStatus, ProtectiveOrderType } from '@prisma/client';
+import type { Prisma, ProtectiveOrder } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { AggregateDexRouter } from './dex-router';
+import { WebSocketManager } from './websocket-manager';
+import { TransactionService } from './transaction-service';
+import { toBlockHeight } from './order-processor';
+import type { ReconcileResult } from './order-processor';
+import type { Quote } from '../types';
+
+// Claimed by a trigger and not yet settled
+export const PROTECTIVE_IN_FLIGHT_STATUSES: OrderStatus[] = [OrderStatus.ROUTING, OrderStatus.BUILDING, OrderStatus.SUBMITTED];
+
+/**
+ * Protective Order Watcher
+ * Evaluates stop-loss / take-profit orders attached to confirmed orders
+ * and fires the reverse swap (parent tokenOut -> parent tokenIn) when triggered.
+ * The swap's signature is stored before it is sent, so one interrupted mid-swap
+ * is settled by reconcileOrder rather than lost or fired twice.
+ */
+export class ProtectiveOrderWatcher {
+  private pollInterval: NodeJS.Timeout | null = null;
+  private polling: boolean = false;
+  // Orders this instance is executing right now, which reconciliation leaves alone
+  private executing = new Set<string>();
+
+  constructor(
+    private dexRouter: AggregateDexRouter,
+    private wsManager: WebSocketManager,
+    private transactionService: TransactionService,
+    private intervalMs: number = env.PROTECTIVE_ORDER_POLL_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start polling for pending protective orders
+   */
+  start(): void {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => {
+      void this.poll();
+    }, this.intervalMs);
+
+    logger.info({ intervalMs: this.intervalMs }, 'Protective order watcher started');
+  }
+
+  /**
+   * Stop polling
+   */
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = null;
+      logger.info('Protective order watcher stopped');
+    }
+  }
+
+  /**
+   * Run a single watch cycle over every pending protective order
+   */
+  async poll(): Promise<void> {
+    // Skip if the previous cycle is still executing swaps
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+
+    try {
+      const orders = await prisma.protectiveOrder.findMany({
+        where: {
+          status: OrderStatus.PENDING,
+          // Never sell a non-custodial fill from the engine's wallet
+          parentOrder: { status: OrderStatus.CONFIRMED, nonCustodial: false },
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      const results = await Promise.allSettled(orders.map((order) => this.checkOrder(order)));
+
+      results.forEach((result, i) => {
+        if (result.status === 'rejected') {
+          logger.error({ error: result.reason, protectiveOrderId: orders[i].id }, 'Failed to check protective order');
+        }
+      });
+    } catch (error) {
+      logger.error({ error }, 'Protective order watch cycle failed');
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  /**
+   * Quote the reverse swap and fire it if the trigger condition holds
+   */
+  private async checkOrder(order: ProtectiveOrder): Promise<void> {
+    const quotes = await this.dexRouter.getQuotes(order.tokenIn, order.tokenOut, order.amountIn);
+    const bestQuote = this.dexRouter.selectBestQuote(quotes);
+
+    if (!bestQuote || bestQuote.price <= 0) {
+      return;
+    }
+
+    // Reverse quote is priced in parent tokenIn per parent tokenOut; invert to the parent's price
+    const markPrice = 1 / bestQuote.price;
+    const triggerPrice = parseFloat(order.triggerPrice.toString());
+
+    const triggered = order.type === ProtectiveOrderType.STOP_LOSS
+      ? markPrice <= triggerPrice
+      : markPrice >= triggerPrice;
+
+    if (!triggered) {
+      logger.debug({ protectiveOrderId: order.id, type: order.type, markPrice, triggerPrice }, 'Trigger not reached');
+      return;
+    }
+
+    // A sibling already swapping cancels this order if it lands; never unwind the parent twice
+    const siblingsInFlight = await prisma.protectiveOrder.count({
+      where: {
+        parentOrderId: order.parentOrderId,
+        status: { in: PROTECTIVE_IN_FLIGHT_STATUSES },
+        id: { not: order.id },
+      },
+    });
+
+    if (siblingsInFlight > 0) {
+      return;
+    }
+
+    // Claim the order so concurrent watchers never fire it twice
+    const claimed = await prisma.protectiveOrder.updateMany({
+      where: { id: order.id, status: OrderStatus.PENDING },
+      data: { status: OrderStatus.ROUTING, triggeredAt: new Date() },
+    });
+
+    if (claimed.count === 0) {
+      return;
+    }
+
+    logger.info(
+      { protectiveOrderId: order.id, parentOrderId: order.parentOrderId, type: order.type, markPrice, triggerPrice },
+      'Protective order triggered'
+    );
+
+    this.broadcast(order, OrderStatus.ROUTING, { message: 'Trigger reached', markPrice, triggerPrice });
+
+    this.executing.add(order.id);
+    try {
+      if (await this.execute(order, bestQuote)) {
+        await this.cancelSiblings(order);
+      }
+    } finally {
+      this.executing.delete(order.id);
+    }
+  }
+
+  /**
+   * Execute the reverse swap and walk the protective order through its lifecycle
+   * SUBMITTED, with the signature, is written before the transaction is sent
+   * Resolves true once the swap confirmed; until then its siblings stay armed
+   */
+  private async execute(order: ProtectiveOrder, quote: Quote): Promise<boolean> {
+    const slippage = parseFloat(order.slippage.toString());
+
+    try {
+      await this.updateStatus(order, OrderStatus.BUILDING, {
+        selectedDex: quote.dex,
+        estimatedPrice: quote.price,
+        estimatedOutput: quote.outputAmount.toString(),
+      }, { selectedDex: quote.dex, expectedAmountOut: quote.outputAmount });
+
+      const result = await this.dexRouter.executeSwap(quote, slippage, undefined, (submitted) =>
+        this.updateStatus(order, OrderStatus.SUBMITTED, {
+          signature: submitted.signature,
+        }, { txHash: submitted.signature, lastValidBlockHeight: toBlockHeight(submitted) })
+      );
+
+      await prisma.protectiveOrder.update({
+        where: { id: order.id },
+        data: {
+          status: OrderStatus.CONFIRMED,
+          selectedDex: result.dex,
+          executedPrice: result.executedPrice,
+          amountOut: result.executedAmount,
+          txHash: result.signature,
+        },
+      });
+
+      this.broadcast(order, OrderStatus.CONFIRMED, {
+        txHash: result.signature,
+        executedPrice: result.executedPrice,
+        executedAmount: result.executedAmount.toString(),
+        dex: result.dex,
+      });
+
+      logger.info({ protectiveOrderId: order.id, txHash: result.signature }, 'Protective order completed');
+
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      // A sent swap may still land; reconciliation settles it once its outcome is known
+      const current = await prisma.protectiveOrder.findUnique({ where: { id: order.id }, select: { status: true } });
+      if (current?.status === OrderStatus.SUBMITTED) {
+        logger.error({ error, protectiveOrderId: order.id }, 'Protective order failed after submission, leaving it to reconcile');
+        return false;
+      }
+
+      logger.error({ error, protectiveOrderId: order.id }, 'Protective order execution failed');
+
+      await prisma.protectiveOrder.update({
+        where: { id: order.id },
+        data: {
+          status: OrderStatus.FAILED,
+          errorMessage: message,
+        },
+      });
+
+      this.broadcast(order, OrderStatus.FAILED, { error: message });
+
+      return false;
+    }
+  }
+
+  /**
+   * Settle a protective order a previous run left claimed or mid-swap, like OrderProcessor.reconcileOrder
+   * - Waits ('pending') while its recorded signature may still land
+   * - A swap that landed is CONFIRMED with the output its transaction delivered
+   * - When nothing was swapped it goes back to PENDING, so it fires again once its
+   *   trigger holds; a stop-loss must not be dropped by a crash
+   */
+  async reconcileOrder(id: string): Promise<ReconcileResult> {
+    const order = await prisma.protectiveOrder.findUnique({ where: { id } });
+
+    if (!order || !PROTECTIVE_IN_FLIGHT_STATUSES.includes(order.status) || this.executing.has(id)) {
+      return 'idle';
+    }
+
+    const outcome = order.txHash
+      ? await this.transactionService.getSubmissionOutcome(
+          order.txHash,
+          order.lastValidBlockHeight === null ? null : Number(order.lastValidBlockHeight)
+        )
+      : null;
+
+    logger.info({ protectiveOrderId: id, txHash: order.txHash, outcome }, 'Reconciling interrupted protective order');
+
+    if (outcome === 'pending') {
+      return 'pending';
+    }
+
+    if (outcome === 'confirmed') {
+      const settled = order.selectedDex !== null
+        ? await this.dexRouter.getSettledAmount(order.selectedDex, order.txHash!, order.tokenOut)
+        : null;
+      const amountOut = settled ?? order.expectedAmountOut;
+      const executedPrice = amountOut !== null ? Number(amountOut) / Number(order.amountIn) : null;
+
+      await prisma.protectiveOrder.update({
+        where: { id },
+        data: { status: OrderStatus.CONFIRMED, amountOut, executedPrice, errorMessage: null },
+      });
+
+      await this.cancelSiblings(order);
+
+      this.broadcast(order, OrderStatus.CONFIRMED, {
+        txHash: order.txHash,
+        executedPrice,
+        executedAmount: amountOut?.toString(),
+        dex: order.selectedDex,
+        reconciled: true,
+      });
+
+      logger.info({ protectiveOrderId: id, txHash: order.txHash }, 'Interrupted protective order confirmed from chain');
+
+      return 'settled';
+    }
+
+    const reason = order.txHash ? `Transaction ${order.txHash} did not land` : 'Interrupted before a swap was sent';
+
+    await prisma.protectiveOrder.update({
+      where: { id },
+      data: {
+        status: OrderStatus.PENDING,
+        triggeredAt: null,
+        txHash: null,
+        lastValidBlockHeight: null,
+        errorMessage: reason,
+      },
+    });
+
+    this.broadcast(order, OrderStatus.PENDING, { message: `${reason}; watching the trigger again`, reconciled: true });
+
+    logger.warn({ protectiveOrderId: id, reason }, 'Interrupted protective order swapped nothing, re-armed');
+
+    return 'resume';
+  }
+
+  /**
+   * Stop-loss and take-profit on the same parent are one-cancels-other
+   */
+  private async cancelSiblings(order: ProtectiveOrder): Promise<void> {
+    const siblings = await prisma.protectiveOrder.findMany({
+      where: {
+        parentOrderId: order.parentOrderId,
+        status: OrderStatus.PENDING,
+        id: { not: order.id },
+      },
+    });
+
+    for (const sibling of siblings) {
+      const errorMessage = `Cancelled: ${order.type} ${order.id} triggered`;
+
+      await prisma.protectiveOrder.update({
+        where: { id: sibling.id },
+        data: { status: OrderStatus.CANCELLED, errorMessage },
+      });
+
+      this.broadcast(sibling, OrderStatus.CANCELLED, { message: errorMessage });
+    }
+  }
+
+  /**
+   * Update protective order status (and any fields) and broadcast via WebSocket
+   */
+  private async updateStatus(
+    order: ProtectiveOrder,
+    status: OrderStatus,
+    data: Record<string, any>,
+    fields: Prisma.ProtectiveOrderUpdateInput = {}
+  ): Promise<void> {
+    await prisma.protectiveOrder.update({
+      where: { id: order.id },
+      data: { ...fields, status },
+    });
+
+    this.broadcast(order, status, data);
+  }
+
+  /**
+   * Broadcast on the protective order's own channel (/ws/:protectiveOrderId)
+   */
+  private broadcast(order: ProtectiveOrder, status: OrderStatus, data: Record<string, any>): void {
+    this.wsManager.broadcastOrderUpdate(order.id, {
+      type: status,
+      data: {
+        ...data,
+        parentOrderId: order.parentOrderId,
+        protectiveType: order.type,
+      },
+    });
+  }
+}
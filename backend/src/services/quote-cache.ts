@@ -0,0 +1,186 @@
+import { Redis } from 'ioredis';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { mulDiv } from '../utils/amm-math';
+import { stringifyWithBigInt, parseWithBigInt } from '../utils/bigint-json';
+import type { Quote } from '../types';
+
+/**
+ * Quotes fetched for one pair and amount bucket
+ */
+interface CachedQuotes {
+  amount: bigint;
+  quotes: Quote[];
+}
+
+export interface QuoteCacheMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number; // Requests that shared another request's in-flight fetch
+  invalidations: number;
+  hitRate: number; // (hits + coalesced) / requests
+}
+
+const KEY_PREFIX = 'quote-cache:';
+const GENERATION_KEY = `${KEY_PREFIX}generation`;
+
+/**
+ * Quote Cache
+ * Sits in front of the router's venue fan-out:
+ * - Quotes are kept in Redis per pair and amount bucket for a short TTL, so the
+ *   same request from many orders (or watchers) fans out once
+ * - Concurrent misses for the same key share one in-flight fetch
+ * - Amounts within a bucket (bucketBps apart) reuse the cached quotes, scaled to
+ *   the requested amount; execution always re-quotes the venue, so a scaled quote
+ *   never fills below its minimum output
+ * - invalidate() bumps a generation in Redis, retiring every cached entry at once
+ */
+export class QuoteCache {
+  private inFlight = new Map<string, Promise<CachedQuotes>>();
+  private hits = 0;
+  private misses = 0;
+  private coalesced = 0;
+  private invalidations = 0;
+
+  constructor(
+    private redis: Redis,
+    private ttlMs: number = env.QUOTE_CACHE_TTL_MS,
+    private bucketBps: number = env.QUOTE_CACHE_BUCKET_BPS
+  ) {}
+
+  /**
+   * Cached quotes for the pair and amount, fetching (once) on a miss
+   */
+  async getQuotes(
+    tokenIn: string,
+    tokenOut: string,
+    amount: bigint,
+    fetchQuotes: () => Promise<Quote[]>
+  ): Promise<Quote[]> {
+    const bucketKey = `${tokenIn}:${tokenOut}:${this.getBucket(amount)}`;
+
+    const pending = this.inFlight.get(bucketKey);
+    if (pending) {
+      this.coalesced++;
+      return this.scale(await pending, amount);
+    }
+
+    const generation = await this.readGeneration();
+    const key = `${KEY_PREFIX}${generation}:${bucketKey}`;
+    const cached = await this.read(key);
+
+    if (cached) {
+      this.hits++;
+      return this.scale(cached, amount);
+    }
+
+    // Another request may have started the fetch while this one read Redis
+    const started = this.inFlight.get(bucketKey);
+    if (started) {
+      this.coalesced++;
+      return this.scale(await started, amount);
+    }
+
+    this.misses++;
+
+    const fetch = fetchQuotes().then((quotes) => ({ amount, quotes }));
+    this.inFlight.set(bucketKey, fetch);
+
+    try {
+      const entry = await fetch;
+      await this.write(key, entry);
+      return entry.quotes;
+    } finally {
+      if (this.inFlight.get(bucketKey) === fetch) {
+        this.inFlight.delete(bucketKey);
+      }
+    }
+  }
+
+  /**
+   * Drop every cached quote, e.g. after a swap moved pool reserves
+   */
+  async invalidate(): Promise<void> {
+    this.invalidations++;
+    // Fetches already running may predate the swap; later requests start their own
+    this.inFlight.clear();
+
+    try {
+      await this.redis.incr(GENERATION_KEY);
+    } catch (error) {
+      logger.warn({ error }, 'Failed to invalidate quote cache');
+    }
+  }
+
+  getMetrics(): QuoteCacheMetrics {
+    const requests = this.hits + this.misses + this.coalesced;
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      coalesced: this.coalesced,
+      invalidations: this.invalidations,
+      hitRate: requests > 0 ? (this.hits + this.coalesced) / requests : 0,
+    };
+  }
+
+  /**
+   * Log-spaced bucket: amounts less than bucketBps apart usually share one
+   */
+  private getBucket(amount: bigint): string {
+    if (this.bucketBps <= 0) {
+      return amount.toString();
+    }
+
+    return Math.floor(Math.log(Number(amount)) / Math.log(1 + this.bucketBps / 10000)).toString();
+  }
+
+  private async readGeneration(): Promise<string> {
+    try {
+      return (await this.redis.get(GENERATION_KEY)) ?? '0';
+    } catch (error) {
+      logger.warn({ error }, 'Failed to read quote cache generation');
+      return '0';
+    }
+  }
+
+  private async read(key: string): Promise<CachedQuotes | null> {
+    try {
+      const stored = await this.redis.get(key);
+      return stored ? parseWithBigInt<CachedQuotes>(stored) : null;
+    } catch (error) {
+      logger.warn({ error, key }, 'Failed to read quote cache');
+      return null;
+    }
+  }
+
+  private async write(key: string, entry: CachedQuotes): Promise<void> {
+    try {
+      await this.redis.set(key, stringifyWithBigInt(entry), 'PX', this.ttlMs);
+    } catch (error) {
+      logger.warn({ error, key }, 'Failed to write quote cache');
+    }
+  }
+
+  /**
+   * Quotes for another amount in the same bucket, scaled proportionally
+   */
+  private scale(entry: CachedQuotes, amount: bigint): Quote[] {
+    if (entry.amount === amount) {
+      return entry.quotes;
+    }
+
+    const scaleAmount = (value: bigint) => mulDiv(value, amount, entry.amount);
+
+    return entry.quotes.map((quote) => ({
+      ...quote,
+      inputAmount: amount,
+      outputAmount: scaleAmount(quote.outputAmount),
+      hops: quote.hops?.map((hop) => ({
+        ...hop,
+        inputAmount: scaleAmount(hop.inputAmount),
+        outputAmount: scaleAmount(hop.outputAmount),
+      })),
+    }));
+  }
+}
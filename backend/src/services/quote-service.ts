@@ -0,0 +1,90 @@
+import { Redis } from 'ioredis';
+import { v4 as uuidv4 } from 'uuid';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { stringifyWithBigInt, parseWithBigInt } from '../utils/bigint-json';
+import { AggregateDexRouter } from './dex-router';
+import type { RouteSelection } from '../types';
+
+/**
+ * A priced route held for execution under its quote ID
+ */
+export interface QuoteSnapshot {
+  quoteId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amount: bigint;
+  slippage: number;
+  maxPriceImpact?: number;
+  route: RouteSelection;
+  minAmountOut: bigint;
+  createdAt: number;
+  expiresAt: number;
+}
+
+const QUOTE_KEY_PREFIX = 'quote:';
+
+/**
+ * Quote Service
+ * Prices a pair without creating an order and keeps the chosen route in Redis
+ * for QUOTE_TTL_SECONDS, so POST /api/orders can execute exactly that route.
+ * Quote IDs are single use; execution still re-quotes against minAmountOut.
+ */
+export class QuoteService {
+  constructor(
+    private dexRouter: AggregateDexRouter,
+    private redis: Redis,
+    private ttlSeconds: number = env.QUOTE_TTL_SECONDS
+  ) {}
+
+  /**
+   * Route a pair and store the result under a new quote ID
+   */
+  async createQuote(
+    tokenIn: string,
+    tokenOut: string,
+    amount: bigint,
+    slippage: number,
+    maxPriceImpact?: number
+  ): Promise<QuoteSnapshot> {
+    const route = await this.dexRouter.getRoute(tokenIn, tokenOut, amount, maxPriceImpact);
+    const createdAt = Date.now();
+
+    const snapshot: QuoteSnapshot = {
+      quoteId: uuidv4(),
+      tokenIn,
+      tokenOut,
+      amount,
+      slippage,
+      maxPriceImpact,
+      route,
+      minAmountOut: this.dexRouter.getRouteMinAmountOut(route, slippage),
+      createdAt,
+      expiresAt: createdAt + this.ttlSeconds * 1000,
+    };
+
+    await this.redis.set(QUOTE_KEY_PREFIX + snapshot.quoteId, stringifyWithBigInt(snapshot), 'EX', this.ttlSeconds);
+
+    logger.info({ quoteId: snapshot.quoteId, tokenIn, tokenOut, ttlSeconds: this.ttlSeconds }, 'Quote issued');
+
+    return snapshot;
+  }
+
+  /**
+   * Read a quote without using it up
+   * Returns null when the quote is unknown, expired or already used
+   */
+  async getQuote(quoteId: string): Promise<QuoteSnapshot | null> {
+    const stored = await this.redis.get(QUOTE_KEY_PREFIX + quoteId);
+    return stored ? parseWithBigInt<QuoteSnapshot>(stored) : null;
+  }
+
+  /**
+   * Take a quote for execution, removing it so it can't be executed twice
+   * Returns null when the quote is unknown, expired or already used
+   */
+  async claimQuote(quoteId: string): Promise<QuoteSnapshot | null> {
+    const stored = await this.redis.getdel(QUOTE_KEY_PREFIX + quoteId);
+    return stored ? parseWithBigInt<QuoteSnapshot>(stored) : null;
+  }
+}
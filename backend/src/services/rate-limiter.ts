@@ -0,0 +1,65 @@
+import { randomBytes } from 'crypto';
+import { Redis } from 'ioredis';
+import { env } from '../config/environment';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  retryAfterMs: number; // Until the oldest request in the window leaves it; 0 when allowed
+}
+
+const KEY_PREFIX = 'rate-limit:';
+
+// Drops requests older than the window, then admits this one if the window has room.
+// Rejected requests are not recorded, so a client hammering the API is let back in
+// as soon as its earlier requests age out.
+const SLIDING_WINDOW_SCRIPT = `
+local key = KEYS[1]
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+
+redis.call('ZREMRANGEBYSCORE', key, '-inf', now - window)
+local count = redis.call('ZCARD', key)
+
+if count < limit then
+  redis.call('ZADD', key, now, ARGV[4])
+  redis.call('PEXPIRE', key, window)
+  return {1, limit - count - 1, 0}
+end
+
+local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+return {0, 0, tonumber(oldest[2]) + window - now}
+`;
+
+/**
+ * Rate Limiter
+ * Sliding-window log in Redis: each client has a sorted set of its request times
+ * within the last window, so limits hold across server instances and have no
+ * burst at window boundaries.
+ */
+export class RateLimiter {
+  constructor(
+    private redis: Redis,
+    private windowMs: number = env.RATE_LIMIT_WINDOW_MS
+  ) {}
+
+  /**
+   * Count a request from client against limit, if the window has room for it
+   */
+  async consume(client: string, limit: number): Promise<RateLimitResult> {
+    const now = Date.now();
+    const [allowed, remaining, retryAfterMs] = (await this.redis.eval(
+      SLIDING_WINDOW_SCRIPT,
+      1,
+      KEY_PREFIX + client,
+      now,
+      this.windowMs,
+      limit,
+      `${now}:${randomBytes(4).toString('hex')}`
+    )) as [number, number, number];
+
+    return { allowed: allowed === 1, limit, remaining, retryAfterMs: Math.max(retryAfterMs, 0) };
+  }
+}
@@ -0,0 +1,211 @@
+import { OrderStatus } from '@prisma/client';
+import type { Prisma, WalletRiskLimit } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { logger } from '../utils/logger';
+import { RiskLimitError } from '../utils/errors';
+import { isFinalStatus } from '../utils/order-state-machine';
+import { checkRiskLimits, checkTradeLimits, needsNotional } from '../utils/risk-limits';
+import type { RiskLimits, RiskUsage } from '../utils/risk-limits';
+import type { AggregateDexRouter } from './dex-router';
+import type { RiskProfileResponse } from '../types';
+
+export interface PreTradeOrder {
+  tokenIn: string;
+  tokenOut: string;
+  amount: bigint;
+  slippage: number;
+}
+
+/**
+ * Limits set for one wallet; null fields (and no tokens) keep the defaults
+ */
+export interface WalletRiskOverrides {
+  maxOrderNotional?: bigint | null;
+  maxDailyNotional?: bigint | null;
+  maxOpenOrders?: number | null;
+  maxSlippage?: number | null;
+  allowedTokens?: string[];
+}
+
+const OPEN_STATUSES = Object.values(OrderStatus).filter((status) => !isFinalStatus(status));
+
+// Orders that never traded do not use up the daily notional
+const UNFILLED_STATUSES: OrderStatus[] = [OrderStatus.FAILED, OrderStatus.CANCELLED, OrderStatus.EXPIRED];
+
+/**
+ * Risk Manager
+ * Pre-trade checks run as an order is stored, before it is queued. Limits default to
+ * the RISK_* settings and can be overridden per wallet. Notional is the order's
+ * value in RISK_NOTIONAL_TOKEN, priced through the router only while a notional
+ * limit applies, and kept on the order to count towards the day's usage.
+ */
+export class RiskManager {
+  constructor(
+    private dexRouter: AggregateDexRouter,
+    private notionalToken: string = env.RISK_NOTIONAL_TOKEN
+  ) {}
+
+  /**
+   * Check the order against its wallet's limits and store it with `create` in one transaction
+   * A per-wallet advisory lock holds the wallet's other placements until this one commits, so
+   * each sees the orders placed before it. Rejects with a RiskLimitError if a limit is broken;
+   * `create` gets the notional the order was checked at, to be stored on the order.
+   */
+  async placeOrder<T>(
+    wallet: string,
+    order: PreTradeOrder,
+    create: (tx: Prisma.TransactionClient, notional: bigint | null) => Promise<T>
+  ): Promise<T> {
+    const limits = await this.getLimits(wallet);
+
+    // Priced before taking the lock; a router round trip should not hold up the wallet's other orders
+    const notional = needsNotional(limits) ? await this.priceNotional(order.tokenIn, order.amount) : null;
+
+    return prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${wallet}))`;
+
+      const usage = await this.getUsage(wallet, tx);
+
+      try {
+        checkRiskLimits({ ...order, notional }, limits, usage);
+      } catch (error) {
+        logger.warn({ wallet, tokenIn: order.tokenIn, tokenOut: order.tokenOut, error }, 'Order rejected by risk limits');
+        throw error;
+      }
+
+      return create(tx, notional);
+    });
+  }
+
+  /**
+   * Reject a stop-loss or take-profit with a RiskLimitError if its tokens or slippage are not allowed
+   * It only unwinds the fill of a parent already checked and counted at its notional, so the
+   * notional and open-order limits do not apply; a stop-loss must not be blocked by the day's usage.
+   */
+  async checkProtectiveOrder(wallet: string, order: Omit<PreTradeOrder, 'amount'>): Promise<void> {
+    try {
+      checkTradeLimits(order, await this.getLimits(wallet));
+    } catch (error) {
+      logger.warn({ wallet, tokenIn: order.tokenIn, tokenOut: order.tokenOut, error }, 'Protective order rejected by risk limits');
+      throw error;
+    }
+  }
+
+  async getProfile(wallet: string): Promise<RiskProfileResponse> {
+    const [override, usage] = await Promise.all([
+      prisma.walletRiskLimit.findUnique({ where: { wallet } }),
+      this.getUsage(wallet),
+    ]);
+    const limits = toRiskLimits(override);
+
+    return {
+      wallet,
+      notionalToken: this.notionalToken,
+      limits: {
+        maxOrderNotional: limits.maxOrderNotional?.toString() ?? null,
+        maxDailyNotional: limits.maxDailyNotional?.toString() ?? null,
+        maxOpenOrders: limits.maxOpenOrders,
+        maxSlippage: limits.maxSlippage,
+        allowedTokens: limits.allowedTokens,
+      },
+      overridden: override !== null,
+      usage: {
+        dailyNotional: usage.dailyNotional.toString(),
+        openOrders: usage.openOrders,
+      },
+      resetsAt: new Date(startOfUtcDay().getTime() + 24 * 3600 * 1000),
+    };
+  }
+
+  /**
+   * Replace the wallet's own limits
+   */
+  async setLimits(wallet: string, overrides: WalletRiskOverrides): Promise<RiskProfileResponse> {
+    const data = {
+      maxOrderNotional: overrides.maxOrderNotional ?? null,
+      maxDailyNotional: overrides.maxDailyNotional ?? null,
+      maxOpenOrders: overrides.maxOpenOrders ?? null,
+      maxSlippage: overrides.maxSlippage ?? null,
+      allowedTokens: overrides.allowedTokens ?? [],
+    };
+
+    await prisma.walletRiskLimit.upsert({
+      where: { wallet },
+      create: { wallet, ...data },
+      update: data,
+    });
+
+    logger.info({ wallet }, 'Wallet risk limits set');
+
+    return this.getProfile(wallet);
+  }
+
+  /**
+   * Put the wallet back on the default limits
+   */
+  async clearLimits(wallet: string): Promise<RiskProfileResponse> {
+    await prisma.walletRiskLimit.deleteMany({ where: { wallet } });
+
+    logger.info({ wallet }, 'Wallet risk limits cleared');
+
+    return this.getProfile(wallet);
+  }
+
+  private async getLimits(wallet: string): Promise<RiskLimits> {
+    return toRiskLimits(await prisma.walletRiskLimit.findUnique({ where: { wallet } }));
+  }
+
+  private async getUsage(wallet: string, client: Prisma.TransactionClient = prisma): Promise<RiskUsage> {
+    const [daily, openOrders] = await Promise.all([
+      client.order.aggregate({
+        where: { userWallet: wallet, createdAt: { gte: startOfUtcDay() }, status: { notIn: UNFILLED_STATUSES } },
+        _sum: { notional: true },
+      }),
+      client.order.count({
+        where: { userWallet: wallet, status: { in: OPEN_STATUSES } },
+      }),
+    ]);
+
+    return { dailyNotional: daily._sum.notional ?? 0n, openOrders };
+  }
+
+  /**
+   * Value of amount of token in the notional token, at the best venue's quote
+   */
+  private async priceNotional(token: string, amount: bigint): Promise<bigint> {
+    if (token === this.notionalToken) {
+      return amount;
+    }
+
+    try {
+      const quote = await this.dexRouter.getBestQuote(token, this.notionalToken, amount);
+      return quote.outputAmount;
+    } catch (error) {
+      logger.warn({ token, notionalToken: this.notionalToken, error }, 'Failed to price order notional');
+      throw new RiskLimitError('RISK_NOTIONAL_UNAVAILABLE', `Cannot value ${token} in ${this.notionalToken} to check notional limits`);
+    }
+  }
+}
+
+/**
+ * The wallet's own limits over the RISK_* defaults
+ */
+function toRiskLimits(override: WalletRiskLimit | null): RiskLimits {
+  const maxOrderNotional = override?.maxOrderNotional ?? env.RISK_MAX_ORDER_NOTIONAL;
+  const maxDailyNotional = override?.maxDailyNotional ?? env.RISK_MAX_DAILY_NOTIONAL;
+  const maxOpenOrders = override?.maxOpenOrders ?? env.RISK_MAX_OPEN_ORDERS;
+
+  return {
+    maxOrderNotional: maxOrderNotional > 0n ? maxOrderNotional : null,
+    maxDailyNotional: maxDailyNotional > 0n ? maxDailyNotional : null,
+    maxOpenOrders: maxOpenOrders > 0 ? maxOpenOrders : null,
+    maxSlippage: override?.maxSlippage?.toNumber() ?? env.MAX_SLIPPAGE,
+    allowedTokens: override?.allowedTokens.length ? override.allowedTokens : env.RISK_ALLOWED_TOKENS,
+  };
+}
+
+function startOfUtcDay(): Date {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
@@ -0,0 +1,86 @@
+import { Connection, PublicKey } from '@solana/web3.js';
+import { ACCOUNT_SIZE, NATIVE_MINT, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { logger } from '../utils/logger';
+import { InsufficientFundsError } from '../utils/errors';
+import { createConnectionBalanceReader } from '../utils/token-balance';
+import type { BalanceReader } from '../utils/token-balance';
+import type { TransactionService } from './transaction-service';
+
+export interface PreflightRequest {
+  owner?: PublicKey; // Wallet that signs and pays for the swap; defaults to the engine's wallet
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  transactions?: number; // Transactions the swap sends (one per split leg), each paying a fee
+  wrapsNativeInput?: boolean; // A venue of the route wraps SOL input into a token account it funds
+}
+
+export interface PreflightResult {
+  createOutputAccount: boolean; // The owner has no tokenOut account, so the swap must create it
+  lamports: number;
+  requiredLamports: number; // Fees, rent for new token accounts and, for SOL input, the amount itself
+}
+
+/**
+ * Swap Preflight
+ * Checks, before a swap is built, that its signer can pay for it: SOL for fees
+ * (and rent for an output token account it must create) plus the tokenIn amount.
+ * SOL input is paid from the native balance, plus the rent of the account a wrapping
+ * venue moves it into; SOL output arrives wrapped, in the owner's wrapped SOL account.
+ */
+export class SwapPreflight {
+  private balanceReader: BalanceReader;
+
+  constructor(
+    private connection: Connection,
+    private transactionService: TransactionService,
+    private engineWallet: PublicKey
+  ) {
+    this.balanceReader = createConnectionBalanceReader(connection);
+  }
+
+  /**
+   * Throw InsufficientFundsError if the owner cannot fund the swap
+   */
+  async check(request: PreflightRequest): Promise<PreflightResult> {
+    const owner = request.owner ?? this.engineWallet;
+    const nativeIn = request.tokenIn === NATIVE_MINT.toBase58();
+    const wrapsInput = nativeIn && request.wrapsNativeInput === true;
+
+    const [fee, lamports, outputAccount] = await Promise.all([
+      this.transactionService.estimateTransactionFee(),
+      this.connection.getBalance(owner, 'confirmed'),
+      this.connection.getAccountInfo(getAssociatedTokenAddressSync(new PublicKey(request.tokenOut), owner, true), 'confirmed'),
+    ]);
+
+    const createOutputAccount = outputAccount === null;
+    const newAccounts = (createOutputAccount ? 1 : 0) + (wrapsInput ? 1 : 0);
+    const accountRent = newAccounts > 0 ? await this.connection.getMinimumBalanceForRentExemption(ACCOUNT_SIZE) : 0;
+    const requiredLamports = fee * (request.transactions ?? 1) + newAccounts * accountRent + (nativeIn ? Number(request.amountIn) : 0);
+
+    if (lamports < requiredLamports) {
+      const rentFor = [createOutputAccount && 'output token account rent', wrapsInput && 'wrapped SOL account rent'].filter(Boolean);
+
+      throw new InsufficientFundsError(
+        `Wallet ${owner.toBase58()} has ${lamports} lamports but the swap needs ${requiredLamports} ` +
+          `(fees${rentFor.map((item) => `, ${item}`).join('')}${nativeIn ? ' and the SOL swapped' : ''})`
+      );
+    }
+
+    if (!nativeIn) {
+      const balance = await this.balanceReader.getTokenBalance(owner, new PublicKey(request.tokenIn));
+
+      if (balance < request.amountIn) {
+        throw new InsufficientFundsError(
+          `Wallet ${owner.toBase58()} holds ${balance} of ${request.tokenIn} but the swap needs ${request.amountIn}`
+        );
+      }
+    }
+
+    if (createOutputAccount) {
+      logger.info({ owner: owner.toBase58(), tokenOut: request.tokenOut }, 'Output token account missing, the swap will create it');
+    }
+
+    return { createOutputAccount, lamports, requiredLamports };
+  }
+}
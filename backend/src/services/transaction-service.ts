@@ -1,7 +1,8 @@
-import { Connection, TransactionSignature, Commitment } from '@solana/web3.js';
+import { Connection, Transaction, TransactionSignature, Commitment } from '@solana/web3.js';
 import { logger } from '../utils/logger';
 import { TransactionTimeoutError, BlockchainError } from '../utils/errors';
 import { env } from '../config/environment';
+import type { SubmissionOutcome } from '../types';
 
 export class TransactionService {
   constructor(private connection: Connection) {}
@@ -150,6 +151,73 @@ export class TransactionService {
     }
   }
 
+  /**
+   * Settle where a recorded signature stands, for a swap whose sender lost track of it
+   * Unlike getTransactionStatus, RPC failures throw: a swap is only reported dropped
+   * once its blockhash has provably expired, since that clears it for re-execution
+   */
+  async getSubmissionOutcome(
+    signature: TransactionSignature,
+    lastValidBlockHeight: number | null
+  ): Promise<SubmissionOutcome> {
+    // Simulated submissions have no blockhash and never reach the chain
+    if (lastValidBlockHeight === null) {
+      return 'dropped';
+    }
+
+    // Read the height first: if it is already past the blockhash, the status lookup
+    // that follows sees every block the transaction could have landed in
+    const currentBlockHeight = await this.connection.getBlockHeight('confirmed');
+    const { value } = await this.connection.getSignatureStatus(signature, { searchTransactionHistory: true });
+
+    if (value) {
+      if (value.err) {
+        return 'failed';
+      }
+
+      return value.confirmationStatus === 'confirmed' || value.confirmationStatus === 'finalized'
+        ? 'confirmed'
+        : 'pending';
+    }
+
+    const outcome = currentBlockHeight > lastValidBlockHeight ? 'dropped' : 'pending';
+
+    logger.debug({ signature, currentBlockHeight, lastValidBlockHeight, outcome }, 'Checked unseen transaction');
+
+    return outcome;
+  }
+
+  /**
+   * Send a transaction signed elsewhere, e.g. by the user's wallet
+   */
+  async sendSignedTransaction(transaction: Transaction): Promise<TransactionSignature> {
+    try {
+      return await this.connection.sendRawTransaction(transaction.serialize(), { skipPreflight: false });
+    } catch (error) {
+      logger.error({ error }, 'Failed to send signed transaction');
+      throw new BlockchainError(
+        `Failed to send signed transaction: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        false
+      );
+    }
+  }
+
+  /**
+   * Wait until a sent transaction confirms or its blockhash expires
+   * Never throws: getSubmissionOutcome tells which of the two happened
+   */
+  async waitForSubmission(
+    signature: TransactionSignature,
+    blockhash: string,
+    lastValidBlockHeight: number
+  ): Promise<void> {
+    try {
+      await this.connection.confirmTransaction({ signature, blockhash, lastValidBlockHeight }, 'confirmed');
+    } catch (error) {
+      logger.warn({ error, signature }, 'Stopped waiting for transaction confirmation');
+    }
+  }
+
   /**
    * Estimate transaction fee
    */
@@ -0,0 +1,137 @@
+import {
+  SCALE,
+  applyFee,
+  fromFixed,
+  getAmountOut,
+  getMinAmountOut,
+  getPriceImpact,
+  getSpotPrice,
+  mulDiv,
+  toFixed,
+} from '../utils/amm-math';
+import { createSeededRandom } from '../utils/prng';
+
+describe('AMM Math', () => {
+  describe('Fixed Point', () => {
+    test('should round mulDiv down by default and up on request', () => {
+      expect(mulDiv(7n, 3n, 2n)).toBe(10n);
+      expect(mulDiv(7n, 3n, 2n, 'up')).toBe(11n);
+      expect(mulDiv(8n, 3n, 2n, 'up')).toBe(12n);
+      expect(() => mulDiv(1n, 1n, 0n)).toThrow(RangeError);
+    });
+
+    test('should convert fractions to and from fixed point', () => {
+      expect(toFixed(0.0025)).toBe(2_500_000_000_000_000n);
+      expect(toFixed(0.0007)).toBe(700_000_000_000_000n);
+      expect(toFixed(1)).toBe(SCALE);
+      expect(toFixed(1.5e-12)).toBe(1_500_000n);
+      expect(toFixed(2e21)).toBe(2_000n * 10n ** 36n);
+      expect(fromFixed(toFixed(98.046819))).toBeCloseTo(98.046819, 12);
+      expect(() => toFixed(-0.01)).toThrow(RangeError);
+      expect(() => toFixed(NaN)).toThrow(RangeError);
+    });
+  });
+
+  describe('Reference Values', () => {
+    test('should take the fee from the input, rounding up', () => {
+      expect(applyFee(1_000_000_000n, 0.0025)).toEqual({ amountInAfterFee: 997_500_000n, feeAmount: 2_500_000n });
+      expect(applyFee(1001n, 0.0025)).toEqual({ amountInAfterFee: 998n, feeAmount: 3n });
+    });
+
+    test('should quote 1 SOL into a 1,000 SOL / 100,000 USDC pool', () => {
+      expect(getAmountOut(1_000_000_000n, 1_000_000_000_000n, 100_000_000_000n, 0.0025)).toBe(99_650_598n);
+    });
+
+    test('should stay exact above 2^53 where Number math drifts', () => {
+      const amountIn = 2n ** 60n + 1n;
+      const reserveIn = 10n ** 30n;
+      const reserveOut = 3n * 10n ** 29n;
+
+      const floatAmountIn = Number(amountIn) * (1 - 0.003);
+      const floatOut = BigInt(Math.floor((Number(reserveOut) * floatAmountIn) / (Number(reserveIn) + floatAmountIn)));
+
+      expect(getAmountOut(amountIn, reserveIn, reserveOut, 0.003)).toBe(344_838_822_027_511_551n);
+      expect(floatOut).not.toBe(344_838_822_027_511_551n);
+    });
+
+    test('should return nothing from an empty pool', () => {
+      expect(getAmountOut(1000n, 0n, 1000n, 0.003)).toBe(0n);
+      expect(getAmountOut(0n, 1000n, 1000n, 0.003)).toBe(0n);
+    });
+  });
+
+  describe('Properties', () => {
+    const random = createSeededRandom(2024);
+    const randomAmount = (maxDigits: number): bigint => {
+      let value = 0n;
+      const digits = 1 + Math.floor(random() * maxDigits);
+      for (let i = 0; i < digits; i++) {
+        value = value * 10n + BigInt(Math.floor(random() * 10));
+      }
+      return value + 1n;
+    };
+
+    const cases = Array.from({ length: 200 }, () => ({
+      amountIn: randomAmount(30),
+      reserveIn: randomAmount(30),
+      reserveOut: randomAmount(30),
+      feeBps: Math.floor(random() * 100),
+    }));
+
+    test('should match the integer reference formula for any fee in basis points', () => {
+      for (const { amountIn, reserveIn, reserveOut, feeBps } of cases) {
+        const fee = (amountIn * BigInt(feeBps) + 9_999n) / 10_000n;
+        const amountInAfterFee = amountIn - fee;
+        const expected = (amountInAfterFee * reserveOut) / (reserveIn + amountInAfterFee);
+
+        expect(getAmountOut(amountIn, reserveIn, reserveOut, feeBps / 10_000)).toBe(expected);
+      }
+    });
+
+    test('should never decrease the constant product or drain the pool', () => {
+      for (const { amountIn, reserveIn, reserveOut, feeBps } of cases) {
+        const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, feeBps / 10_000);
+
+        expect(amountOut).toBeLessThan(reserveOut);
+        expect((reserveIn + amountIn) * (reserveOut - amountOut)).toBeGreaterThanOrEqual(reserveIn * reserveOut);
+      }
+    });
+
+    test('should never pay less for more input', () => {
+      for (const { amountIn, reserveIn, reserveOut, feeBps } of cases) {
+        const fee = feeBps / 10_000;
+
+        expect(getAmountOut(amountIn + 1n, reserveIn, reserveOut, fee))
+          .toBeGreaterThanOrEqual(getAmountOut(amountIn, reserveIn, reserveOut, fee));
+      }
+    });
+
+    test('should apply slippage to min-out exactly', () => {
+      for (const { amountIn: amountOut, feeBps: slippageBps } of cases) {
+        const expected = (amountOut * BigInt(10_000 - slippageBps)) / 10_000n;
+
+        expect(getMinAmountOut(amountOut, slippageBps / 10_000)).toBe(expected);
+      }
+    });
+
+    test('should report constant product price impact of amountIn / (reserveIn + amountIn)', () => {
+      let checked = 0;
+
+      for (const { amountIn, reserveIn, reserveOut } of cases) {
+        // Skip trades too small for whole base units (or a fixed-point spot price) to show the impact
+        const spotPrice = getSpotPrice(reserveIn, reserveOut);
+        if ((amountIn * reserveOut) / reserveIn < 10n ** 12n || spotPrice < 10n ** 12n) continue;
+
+        const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, 0);
+        const impact = getPriceImpact(amountIn, amountOut, spotPrice);
+        const expected = Number((amountIn * SCALE) / (reserveIn + amountIn)) / 1e18;
+
+        expect(impact).toBeGreaterThanOrEqual(0);
+        expect(impact).toBeCloseTo(expected, 6);
+        checked++;
+      }
+
+      expect(checked).toBeGreaterThan(20);
+    });
+  });
+});
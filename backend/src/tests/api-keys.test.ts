@@ -0,0 +1,224 @@
+import Fastify from 'fastify';
+import type { FastifyError, FastifyInstance, FastifyRequest } from 'fastify';
+import RedisMock from 'ioredis-mock';
+import type { Redis } from 'ioredis';
+import { createHash } from 'crypto';
+import { ApiKeyScope } from '@prisma/client';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { RateLimiter } from '../services/rate-limiter';
+import { ApiKeyService } from '../services/api-key-service';
+import { enforceRateLimit } from '../routes/rate-limit';
+import { identifyApiKey, requireScope, resolveWallet } from '../routes/auth';
+import { ForbiddenError, UnauthorizedError } from '../utils/errors';
+import type { AuthService } from '../services';
+import type { ApiKeyIdentity } from '../types';
+import type { FakePrisma } from './fake-prisma';
+
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+const KEY_WALLET = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+const redis = new RedisMock();
+const createLimiter = (windowMs: number) => new RateLimiter(redis as unknown as Redis, windowMs);
+
+// Signs in WALLET with the "session" token
+const authService = {
+  authenticate: jest.fn(async (token: string) => (token === 'session' ? WALLET : null)),
+} as unknown as AuthService;
+
+/**
+ * The API's request hooks in front of one route: API key lookup, then the rate limit
+ */
+async function createApp(rateLimiter: RateLimiter, apiKeyService: ApiKeyService) {
+  const app = Fastify();
+  app.decorateRequest('apiKey', null);
+  app.addHook('onRequest', async (request, reply) => {
+    await identifyApiKey(request, apiKeyService);
+    await enforceRateLimit(request, reply, { apiKeyService, authService, rateLimiter });
+  });
+  app.setErrorHandler((error: FastifyError, _request, reply) => {
+    reply.code(error.statusCode || 500).send({ error: { message: error.message, code: error.code } });
+  });
+  app.get('/api/ping', async () => ({ ok: true }));
+
+  return app;
+}
+
+beforeEach(async () => {
+  db.reset();
+  await redis.flushall();
+  jest.restoreAllMocks();
+});
+
+describe('API Keys - Sliding Window', () => {
+  test('should admit up to the limit within a window and report when the next fits', async () => {
+    const limiter = createLimiter(1000);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(10_000);
+
+    const admitted = [];
+    for (let i = 0; i < 3; i++) {
+      now.mockReturnValue(10_000 + i * 100);
+      admitted.push(await limiter.consume('client', 3));
+    }
+
+    expect(admitted.map((result) => [result.allowed, result.remaining])).toEqual([[true, 2], [true, 1], [true, 0]]);
+
+    now.mockReturnValue(10_500);
+    expect(await limiter.consume('client', 3)).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfterMs: 500 });
+  });
+
+  test('should let a client back in as its oldest requests leave the window', async () => {
+    const limiter = createLimiter(1000);
+    const now = jest.spyOn(Date, 'now');
+
+    for (const time of [10_000, 10_400]) {
+      now.mockReturnValue(time);
+      await limiter.consume('client', 2);
+    }
+
+    // Rejected requests are not recorded, so they do not push the window out
+    now.mockReturnValue(10_900);
+    expect((await limiter.consume('client', 2)).allowed).toBe(false);
+
+    now.mockReturnValue(11_000);
+    expect(await limiter.consume('client', 2)).toMatchObject({ allowed: true, remaining: 0 });
+
+    now.mockReturnValue(11_100);
+    expect(await limiter.consume('client', 2)).toMatchObject({ allowed: false, retryAfterMs: 300 });
+  });
+
+  test('should count each client separately', async () => {
+    const limiter = createLimiter(1000);
+
+    expect((await limiter.consume('first', 1)).allowed).toBe(true);
+    expect((await limiter.consume('first', 1)).allowed).toBe(false);
+    expect((await limiter.consume('second', 1)).allowed).toBe(true);
+  });
+});
+
+describe('API Keys - Client Limits', () => {
+  test('should limit anonymous clients per IP at the anonymous limit', async () => {
+    const app = await createApp(createLimiter(60_000), new ApiKeyService());
+
+    for (let i = 0; i < env.RATE_LIMIT_ANONYMOUS_MAX_REQUESTS; i++) {
+      expect((await app.inject({ method: 'GET', url: '/api/ping' })).statusCode).toBe(200);
+    }
+
+    const limited = await app.inject({ method: 'GET', url: '/api/ping' });
+    expect(limited.statusCode).toBe(429);
+    expect(limited.headers['x-ratelimit-limit']).toBe(String(env.RATE_LIMIT_ANONYMOUS_MAX_REQUESTS));
+    expect(Number(limited.headers['retry-after'])).toBeGreaterThan(0);
+
+    // A signed-in wallet from the same IP has its own, larger allowance
+    const signedIn = await app.inject({ method: 'GET', url: '/api/ping', headers: { authorization: 'Bearer session' } });
+    expect(signedIn.statusCode).toBe(200);
+    expect(signedIn.headers['x-ratelimit-limit']).toBe(String(env.RATE_LIMIT_MAX_REQUESTS));
+    expect(signedIn.headers['x-ratelimit-remaining']).toBe(String(env.RATE_LIMIT_MAX_REQUESTS - 1));
+  });
+
+  test('should hold an API key to its own limit and count its requests', async () => {
+    const apiKeyService = new ApiKeyService();
+    const app = await createApp(createLimiter(60_000), apiKeyService);
+    const { key, id } = await apiKeyService.create({ name: 'bot', scopes: [ApiKeyScope.READ], rateLimit: 2 });
+
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await app.inject({ method: 'GET', url: '/api/ping', headers: { 'x-api-key': key! } })).statusCode);
+    }
+
+    expect(statuses).toEqual([200, 200, 429]);
+    // Usage is recorded without holding up the request
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(db.tables.apiKey.find((row) => row.id === id)).toMatchObject({ requestCount: 3n, rateLimitedCount: 1n });
+
+    // Anonymous requests are not held back by the key's usage
+    expect((await app.inject({ method: 'GET', url: '/api/ping' })).statusCode).toBe(200);
+  });
+
+  test('should turn away unknown and revoked keys', async () => {
+    const apiKeyService = new ApiKeyService();
+    const app = await createApp(createLimiter(60_000), apiKeyService);
+    const { key, id } = await apiKeyService.create({ name: 'bot', scopes: [ApiKeyScope.READ] });
+
+    expect((await app.inject({ method: 'GET', url: '/api/ping', headers: { 'x-api-key': 'dex_unknown' } })).statusCode).toBe(401);
+
+    await apiKeyService.revoke(id);
+    expect((await app.inject({ method: 'GET', url: '/api/ping', headers: { 'x-api-key': key! } })).statusCode).toBe(401);
+  });
+});
+
+describe('API Keys - Issuing and Revoking', () => {
+  test('should store only a hash of the key and show it once', async () => {
+    const apiKeyService = new ApiKeyService(50);
+    const issued = await apiKeyService.create({ name: 'bot', scopes: [ApiKeyScope.TRADE], wallet: KEY_WALLET });
+
+    expect(issued.key).toMatch(/^dex_/);
+    expect(issued).toMatchObject({ keyPrefix: issued.key!.slice(0, 12), rateLimit: 50, wallet: KEY_WALLET });
+
+    const [stored] = db.tables.apiKey;
+    expect(stored.keyHash).toBe(createHash('sha256').update(issued.key!).digest('hex'));
+    expect(Object.values(stored)).not.toContain(issued.key);
+    expect((await apiKeyService.list())[0]).not.toHaveProperty('key');
+
+    expect(await apiKeyService.authenticate(issued.key!)).toEqual({
+      id: issued.id,
+      name: 'bot',
+      scopes: [ApiKeyScope.TRADE],
+      wallet: KEY_WALLET,
+      rateLimit: 50,
+    });
+  });
+
+  test('should stop accepting a revoked key and keep its first revocation time', async () => {
+    const apiKeyService = new ApiKeyService();
+    const { key, id } = await apiKeyService.create({ name: 'bot', scopes: [ApiKeyScope.READ] });
+
+    const revoked = await apiKeyService.revoke(id);
+    expect(revoked.revokedAt).toBeInstanceOf(Date);
+    expect(await apiKeyService.authenticate(key!)).toBeNull();
+
+    expect((await apiKeyService.revoke(id)).revokedAt).toEqual(revoked.revokedAt);
+    await expect(apiKeyService.revoke('missing')).rejects.toThrow('API key not found');
+  });
+});
+
+describe('API Keys - Scopes', () => {
+  const fastify = { services: { authService } } as unknown as FastifyInstance;
+
+  const request = (apiKey: Partial<ApiKeyIdentity> | null, authorization?: string) =>
+    ({
+      apiKey: apiKey && { id: 'key-1', name: 'bot', scopes: [], wallet: KEY_WALLET, rateLimit: 10, ...apiKey },
+      headers: authorization ? { authorization } : {},
+    }) as unknown as FastifyRequest;
+
+  test('should refuse an API key without the scope', () => {
+    const readOnly = request({ scopes: [ApiKeyScope.READ] });
+
+    expect(() => requireScope(readOnly, ApiKeyScope.READ)).not.toThrow();
+    expect(() => requireScope(readOnly, ApiKeyScope.TRADE)).toThrow(new ForbiddenError('API key lacks the trade scope'));
+  });
+
+  test('should leave requests without an API key to the session', () => {
+    expect(() => requireScope(request(null), ApiKeyScope.ADMIN)).not.toThrow();
+  });
+
+  test('should act for an API key\'s wallet only within its scopes', async () => {
+    const trader = request({ scopes: [ApiKeyScope.READ, ApiKeyScope.TRADE] }, 'Bearer session');
+
+    // The key decides the wallet, even with a session token alongside it
+    await expect(resolveWallet(fastify, trader, ApiKeyScope.TRADE)).resolves.toBe(KEY_WALLET);
+    await expect(resolveWallet(fastify, request({ scopes: [ApiKeyScope.QUOTE] }), ApiKeyScope.READ)).rejects.toThrow(ForbiddenError);
+  });
+
+  test('should act for the signed-in wallet without an API key', async () => {
+    await expect(resolveWallet(fastify, request(null, 'Bearer session'), ApiKeyScope.TRADE)).resolves.toBe(WALLET);
+    await expect(resolveWallet(fastify, request(null, 'Bearer expired'), ApiKeyScope.TRADE)).rejects.toThrow(UnauthorizedError);
+  });
+});
@@ -1,6 +1,17 @@
-import { Connection, Keypair } from '@solana/web3.js';
+import { Connection, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
 import { DexRouter } from '../services/dex-router-devnet-hybrid';
+import { AggregateDexRouter } from '../services/dex-router';
+import { DexAdapterRegistry } from '../services/dex-adapter';
+import type { DexAdapter } from '../services/dex-adapter';
+import { DexRouter as MockDexRouter } from '../services/dex-router-mock';
+import type { MockDexRouterOptions } from '../services/dex-router-mock';
 import { TransactionService } from '../services/transaction-service';
+import { createClmmState, computeClmmSwap, tickToSqrtPrice } from '../utils/concentrated-liquidity';
+import { createDlmmState, computeDlmmSwap, getBinPrice } from '../utils/dlmm-bins';
+import { createSeededRandom } from '../utils/prng';
+import { MinimumOutputError, PriceImpactExceededError, SlippageExceededError } from '../utils/errors';
+import { parseWithBigInt, stringifyWithBigInt } from '../utils/bigint-json';
+import type { DexType, Quote, RouteSelection } from '../types';
 
 describe('DEX Router - Routing Logic', () => {
   let dexRouter: DexRouter;
@@ -91,20 +102,20 @@ describe('DEX Router - Routing Logic', () => {
   });
 
   describe('Pool Management', () => {
-    test('should have initialized pools', () => {
-      const pools = dexRouter.getAvailablePools();
+    test('should have initialized pools', async () => {
+      const pools = await dexRouter.getAvailablePools();
       expect(pools.length).toBeGreaterThan(0);
     });
 
-    test('should return pools with valid structure', () => {
-      const pools = dexRouter.getAvailablePools();
+    test('should return pools with valid structure', async () => {
+      const pools = await dexRouter.getAvailablePools();
 
       pools.forEach((pool) => {
         expect(pool).toHaveProperty('poolId');
         expect(pool).toHaveProperty('dex');
         expect(pool).toHaveProperty('mintA');
         expect(pool).toHaveProperty('mintB');
-        expect(['RAYDIUM', 'METEORA']).toContain(pool.dex);
+        expect(['RAYDIUM', 'METEORA', 'ORCA']).toContain(pool.dex);
       });
     });
 
@@ -120,6 +131,219 @@ describe('DEX Router - Routing Logic', () => {
     });
   });
 
+  describe('Split Routing', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+    test('should split large orders across RAYDIUM, METEORA and ORCA', async () => {
+      const amount = BigInt(500 * 1e9); // 500 SOL
+
+      const quotes = await dexRouter.getQuotes(SOL, USDC, amount);
+      const bestQuote = dexRouter.selectBestQuote(quotes);
+      const splitRoute = await dexRouter.getSplitRoute(SOL, USDC, amount);
+
+      expect(splitRoute).not.toBeNull();
+      expect(splitRoute!.legs.map((leg) => leg.dex).sort()).toEqual(['METEORA', 'ORCA', 'RAYDIUM']);
+      expect(splitRoute!.outputAmount).toBeGreaterThan(bestQuote!.outputAmount);
+    });
+
+    test('should allocate the full input across legs', async () => {
+      const amount = BigInt(500 * 1e9) + 7n;
+
+      const splitRoute = await dexRouter.getSplitRoute(SOL, USDC, amount);
+      const allocated = splitRoute!.legs.reduce((sum, leg) => sum + leg.inputAmount, 0n);
+
+      expect(allocated).toBe(amount);
+      expect(splitRoute!.outputAmount).toBe(
+        splitRoute!.legs.reduce((sum, leg) => sum + leg.outputAmount, 0n)
+      );
+    });
+
+    test('should return null for pairs with a single pool', async () => {
+      const TOKEN_A = '3aWPRVQe2KPwUGF6gZTCS7XgZBwoMTNxoDX1mKcAKVqr';
+      const TOKEN_B = '788bGVjjKAJgGstSYFCBPJcSQPS9VUMKVjZbQPSe7xEb';
+
+      const splitRoute = await dexRouter.getSplitRoute(TOKEN_A, TOKEN_B, BigInt(1000 * 1e9));
+
+      expect(splitRoute).toBeNull();
+    });
+  });
+
+  describe('Orca Whirlpool', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+    test('should quote ORCA alongside the constant product venues', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(1e9));
+      const orcaQuote = quotes.find((quote) => quote.dex === 'ORCA');
+
+      expect(orcaQuote).toBeDefined();
+      expect(orcaQuote!.price).toBeCloseTo(0.1 * (1 - orcaQuote!.fee), 4);
+    });
+
+    test('should quote both directions of the whirlpool', async () => {
+      const quotes = await dexRouter.getQuotes(USDC, SOL, BigInt(100 * 1e6)); // 100 USDC
+      const orcaQuote = quotes.find((quote) => quote.dex === 'ORCA');
+
+      expect(Number(orcaQuote!.outputAmount) / 1e9).toBeCloseTo(0.997, 2); // ~1 SOL less fee
+    });
+
+    test('should beat the constant product pools near spot', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(10 * 1e9));
+      const orcaQuote = quotes.find((quote) => quote.dex === 'ORCA')!;
+      const raydiumQuote = quotes.find((quote) => quote.dex === 'RAYDIUM' && !quote.hops)!;
+
+      // Higher fee, but far less price impact inside the concentrated range
+      expect(orcaQuote.outputAmount).toBeGreaterThan(raydiumQuote.outputAmount);
+    });
+  });
+
+  describe('Meteora DLMM', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+    test('should report the active bin price and bins crossed', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(1e9));
+      const meteoraQuote = quotes.find((quote) => quote.dex === 'METEORA')!;
+
+      expect(meteoraQuote.bins).toBeDefined();
+      expect(meteoraQuote.bins!.activeBinPrice).toBeCloseTo(0.1, 3);
+      expect(meteoraQuote.bins!.binsCrossed).toBe(0);
+    });
+
+    test('should fill small swaps at the active bin price', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(1e9));
+      const meteoraQuote = quotes.find((quote) => quote.dex === 'METEORA')!;
+
+      expect(meteoraQuote.price).toBeCloseTo(meteoraQuote.bins!.activeBinPrice * (1 - meteoraQuote.fee), 6);
+    });
+
+    test('should cross bins on large swaps', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(500 * 1e9));
+      const meteoraQuote = quotes.find((quote) => quote.dex === 'METEORA')!;
+
+      expect(meteoraQuote.bins!.binsCrossed).toBeGreaterThan(1);
+      expect(meteoraQuote.price).toBeLessThan(meteoraQuote.bins!.activeBinPrice * (1 - meteoraQuote.fee));
+    });
+  });
+
+  describe('Price Impact', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+    const TOKEN_A = '3aWPRVQe2KPwUGF6gZTCS7XgZBwoMTNxoDX1mKcAKVqr';
+
+    test('should report constant product impact from the pool reserves', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(500 * 1e9));
+      const raydiumQuote = quotes.find((quote) => quote.dex === 'RAYDIUM' && !quote.hops)!;
+      const amountInAfterFee = 500 * (1 - raydiumQuote.fee);
+
+      // 10,000 SOL reserve: impact is dx / (x + dx) with the fee excluded
+      expect(raydiumQuote.priceImpact).toBeCloseTo(amountInAfterFee / (10000 + amountInAfterFee), 6);
+    });
+
+    test('should report no impact inside the active bin and grow with bins crossed', async () => {
+      const small = (await dexRouter.getQuotes(SOL, USDC, BigInt(1e9))).find((quote) => quote.dex === 'METEORA')!;
+      const large = (await dexRouter.getQuotes(SOL, USDC, BigInt(500 * 1e9))).find((quote) => quote.dex === 'METEORA')!;
+
+      expect(small.priceImpact).toBeCloseTo(0, 6);
+      // Each bin crossed moves the price one 10bps step
+      expect(large.priceImpact).toBeGreaterThan(0);
+      expect(large.priceImpact).toBeLessThan(large.bins!.binsCrossed * 0.001);
+    });
+
+    test('should report a split route impact between its legs', async () => {
+      const splitRoute = (await dexRouter.getSplitRoute(SOL, USDC, BigInt(500 * 1e9)))!;
+      const legImpacts = splitRoute.legs.map((leg) => leg.priceImpact!);
+
+      expect(splitRoute.priceImpact).toBeGreaterThanOrEqual(Math.min(...legImpacts));
+      expect(splitRoute.priceImpact).toBeLessThanOrEqual(Math.max(...legImpacts));
+    });
+
+    test('should compound impact across the hops of a multi-hop route', async () => {
+      const [multiHopQuote] = await dexRouter.getQuotes(TOKEN_A, USDC, BigInt(1000 * 1e9));
+
+      expect(multiHopQuote.priceImpact).toBeGreaterThan(0);
+      expect(multiHopQuote.priceImpact).toBeLessThan(1);
+    });
+
+    test('should only select quotes within the maximum price impact', async () => {
+      const quotes = await dexRouter.getQuotes(SOL, USDC, BigInt(500 * 1e9));
+      const lowestImpact = Math.min(...quotes.map((quote) => quote.priceImpact!));
+
+      const bestQuote = dexRouter.selectBestQuote(quotes, lowestImpact);
+
+      expect(bestQuote!.priceImpact).toBe(lowestImpact);
+      expect(dexRouter.selectBestQuote(quotes, lowestImpact / 2)).toBeNull();
+    });
+  });
+
+  describe('Route Selection', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+    test('should select the split route for large orders', async () => {
+      const route = await dexRouter.getRoute(SOL, USDC, BigInt(500 * 1e9));
+
+      expect(route.splitRoute).not.toBeNull();
+      expect(route.splitRoute!.outputAmount).toBeGreaterThan(route.bestQuote.outputAmount);
+      expect(dexRouter.getRouteMinAmountOut(route, 0.01)).toBeLessThan(route.splitRoute!.outputAmount);
+    });
+
+    test('should reject when every route exceeds the maximum price impact', async () => {
+      await expect(dexRouter.getRoute(SOL, USDC, BigInt(500 * 1e9), 0.0001)).rejects.toThrow(PriceImpactExceededError);
+    });
+
+    test('should survive serialization for quoted execution', async () => {
+      const route = await dexRouter.getRoute(SOL, USDC, BigInt(500 * 1e9));
+
+      expect(parseWithBigInt<RouteSelection>(stringifyWithBigInt(route))).toEqual(route);
+    });
+  });
+
+  describe('Multi-hop Routing', () => {
+    const SOL = 'So11111111111111111111111111111111111111112';
+    const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+    const TOKEN_A = '3aWPRVQe2KPwUGF6gZTCS7XgZBwoMTNxoDX1mKcAKVqr';
+
+    test('should route through SOL when no direct pool exists', async () => {
+      const amount = BigInt(1000 * 1e9);
+
+      const quotes = await dexRouter.getQuotes(TOKEN_A, USDC, amount);
+
+      expect(quotes).toHaveLength(1);
+      expect(quotes[0].hops).toBeDefined();
+      expect(quotes[0].hops!.map((hop) => [hop.tokenIn, hop.tokenOut])).toEqual([
+        [TOKEN_A, SOL],
+        [SOL, USDC],
+      ]);
+    });
+
+    test('should chain each hop output into the next hop input', async () => {
+      const quotes = await dexRouter.getQuotes(TOKEN_A, USDC, BigInt(1000 * 1e9));
+      const hops = quotes[0].hops!;
+
+      expect(hops[0].inputAmount).toBe(BigInt(1000 * 1e9));
+      expect(hops[1].inputAmount).toBe(hops[0].outputAmount);
+      expect(quotes[0].outputAmount).toBe(hops[1].outputAmount);
+    });
+
+    test('should pick the better pool for a hop served by several pools', async () => {
+      const quotes = await dexRouter.getQuotes(TOKEN_A, USDC, BigInt(1000 * 1e9));
+      const solUsdcHop = quotes[0].hops![1];
+
+      const directQuotes = await dexRouter.getQuotes(SOL, USDC, solUsdcHop.inputAmount);
+      const bestDirect = dexRouter.selectBestQuote(directQuotes.filter((quote) => !quote.hops));
+
+      expect(solUsdcHop.poolId).toBe(bestDirect!.poolId);
+    });
+
+    test('should throw when no route exists', async () => {
+      const UNKNOWN = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+      await expect(dexRouter.getQuotes(UNKNOWN, USDC, BigInt(1e9))).rejects.toThrow('No pool or route found');
+    });
+  });
+
   describe('Best Quote Selection', () => {
     test('should handle multiple quotes with same output', () => {
       const quotes = [
@@ -180,3 +404,392 @@ describe('DEX Router - Routing Logic', () => {
     });
   });
 });
+
+describe('Mock DEX Router - Deterministic Simulation', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const amount = BigInt(1000000000); // 1 SOL
+  const connection = new Connection('https://api.devnet.solana.com', 'confirmed');
+  const wallet = Keypair.generate();
+
+  // Zero latency and fast retries keep replays quick
+  const instant = { latencyMs: 0, retryDelayMs: 1 };
+
+  const createRouter = async (options: MockDexRouterOptions): Promise<MockDexRouter> => {
+    const router = new MockDexRouter(connection, wallet, new TransactionService(connection), options);
+    await router.initialize();
+    return router;
+  };
+
+  test('should produce the same sequence from the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const c = createSeededRandom(43);
+
+    const sequence = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(sequence);
+    expect([c(), c(), c()]).not.toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  test('should replay identical quotes and executions from the same seed', async () => {
+    const scenarios = { RAYDIUM: instant, METEORA: instant, ORCA: instant };
+    const run = async () => {
+      const router = await createRouter({ seed: 7, scenarios });
+      const quotes = await router.getQuotes(SOL, USDC, amount);
+      const best = router.selectBestQuote(quotes)!;
+      return { quotes, best, result: await router.executeSwap(best) };
+    };
+
+    const first = await run();
+    const second = await run();
+
+    expect(second.quotes).toEqual(first.quotes);
+    expect(second.best.dex).toBe(first.best.dex);
+    expect(second.result).toEqual(first.result);
+  });
+
+  test('should route to the venue with the best scripted price', async () => {
+    const router = await createRouter({
+      seed: 1,
+      scenarios: {
+        RAYDIUM: { ...instant, price: 0.1 },
+        METEORA: { ...instant, price: 0.1 },
+        ORCA: { ...instant, price: 0.105 },
+      },
+    });
+
+    const best = await router.getBestQuote(SOL, USDC, amount);
+
+    expect(best.dex).toBe('ORCA');
+    expect(best.price).toBe(0.105);
+  });
+
+  test('should retry through a scripted failure sequence', async () => {
+    const router = await createRouter({
+      seed: 1,
+      scenarios: {
+        RAYDIUM: { ...instant, price: 0.11, slippageImpact: 0, failures: ['slippage', 'timeout', null] },
+        METEORA: { ...instant, price: 0.1 },
+        ORCA: { ...instant, price: 0.1 },
+      },
+    });
+
+    const best = await router.getBestQuote(SOL, USDC, amount);
+    const result = await router.executeSwap(best);
+
+    expect(result.dex).toBe('RAYDIUM');
+    expect(result.executedAmount).toBe(best.outputAmount);
+  });
+
+  test('should fail immediately on a scripted non-retryable failure', async () => {
+    const router = await createRouter({
+      seed: 1,
+      scenarios: {
+        RAYDIUM: { ...instant, price: 0.11, failures: ['insufficient_funds', null] },
+        METEORA: { ...instant, price: 0.1 },
+        ORCA: { ...instant, price: 0.1 },
+      },
+    });
+
+    const best = await router.getBestQuote(SOL, USDC, amount);
+
+    await expect(router.executeSwap(best)).rejects.toThrow('insufficient funds');
+    // The next attempt consumes the next scripted outcome
+    await expect(router.executeSwap(best)).resolves.toMatchObject({ dex: 'RAYDIUM' });
+  });
+});
+
+describe('DEX Router - Minimum Output Protection', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const amount = BigInt(1000000000); // 1 SOL
+
+  // Venue whose quoted and executed outputs the test moves between calls
+  const pool = { quoted: 100_000_000n, executed: 100_000_000n };
+  const executions: Quote[] = [];
+  const venue: DexAdapter = {
+    dex: 'RAYDIUM',
+    initialize: async () => {},
+    quote: async (tokenIn, tokenOut, inputAmount) => [{
+      dex: 'RAYDIUM',
+      inputAmount,
+      outputAmount: pool.quoted,
+      price: Number(pool.quoted) / Number(inputAmount),
+      fee: 0.0025,
+      poolId: 'stub-pool',
+      slippage: 0.01,
+      tokenIn,
+      tokenOut,
+    }],
+    buildSwap: async (_quote, _slippage, owner) =>
+      new Transaction().add(SystemProgram.transfer({ fromPubkey: owner!, toPubkey: owner!, lamports: 1 })),
+    execute: async (quote) => {
+      executions.push(quote);
+      return { signature: 'stub-signature', executedPrice: quote.price, executedAmount: pool.executed, dex: 'RAYDIUM' };
+    },
+    listPools: async () => [],
+    health: async () => ({ dex: 'RAYDIUM', healthy: true, pools: 1 }),
+  };
+
+  let router: AggregateDexRouter;
+  let connection: Connection;
+
+  beforeAll(async () => {
+    connection = new Connection('https://api.devnet.solana.com', 'confirmed');
+    router = new AggregateDexRouter(new DexAdapterRegistry().register(venue), connection, Keypair.generate());
+    await router.initialize();
+  });
+
+  beforeEach(() => {
+    pool.quoted = 100_000_000n;
+    pool.executed = 100_000_000n;
+    executions.length = 0;
+  });
+
+  test('should submit the fresh quote with the minimum output attached', async () => {
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+
+    // Pool moves 0.5% against the order, inside 1% slippage
+    pool.quoted = 99_500_000n;
+    pool.executed = 99_500_000n;
+
+    const result = await router.executeSwap(quote, 0.01);
+
+    expect(result.executedAmount).toBe(99_500_000n);
+    expect(executions).toHaveLength(1);
+    expect(executions[0].outputAmount).toBe(99_500_000n);
+    expect(executions[0].minAmountOut).toBe(99_000_000n);
+  });
+
+  test('should refuse to submit when the fresh quote is below the minimum', async () => {
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+
+    pool.quoted = 98_000_000n;
+
+    await expect(router.executeSwap(quote, 0.01)).rejects.toThrow(SlippageExceededError);
+    expect(executions).toHaveLength(0);
+  });
+
+  test('should honour an explicit minimum output', async () => {
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+
+    await expect(router.executeSwap(quote, 0.01, 100_000_001n)).rejects.toThrow(SlippageExceededError);
+    expect(executions).toHaveLength(0);
+  });
+
+  test('should flag a settled swap that received less than the minimum', async () => {
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+
+    pool.executed = 98_000_000n;
+
+    const error = await router.executeSwap(quote, 0.01).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MinimumOutputError);
+    expect(error.signature).toBe('stub-signature');
+    expect(error.receivedAmount).toBe(98_000_000n);
+    expect(error.minAmountOut).toBe(99_000_000n);
+    expect(error.retryable).toBe(false);
+  });
+
+  test('should build an unsigned swap for the owner to sign', async () => {
+    const owner = Keypair.generate();
+    const blockhash = Keypair.generate().publicKey.toBase58();
+    jest.spyOn(connection, 'getLatestBlockhash').mockResolvedValue({ blockhash, lastValidBlockHeight: 1150 });
+
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+    const unsigned = await router.buildUnsignedSwap(quote, 0.01, 99_000_000n, owner.publicKey);
+    const transaction = Transaction.from(Buffer.from(unsigned.transaction, 'base64'));
+
+    expect(unsigned.lastValidBlockHeight).toBe(1150);
+    expect(unsigned.quote.minAmountOut).toBe(99_000_000n);
+    expect(transaction.feePayer?.equals(owner.publicKey)).toBe(true);
+    expect(transaction.recentBlockhash).toBe(blockhash);
+    expect(transaction.signatures.every(({ signature }) => signature === null)).toBe(true);
+    expect(executions).toHaveLength(0);
+  });
+});
+
+describe('DEX Router - Multi-Hop Settlement', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+  // What the final hop's venue reads from the landed transaction
+  const settlement = { received: 0n };
+
+  const createVenue = (dex: DexType, output: bigint, reads: boolean): DexAdapter => ({
+    dex,
+    initialize: async () => {},
+    quote: async () => [],
+    buildSwap: async (_quote, _slippage, owner) =>
+      new Transaction().add(SystemProgram.transfer({ fromPubkey: owner!, toPubkey: owner!, lamports: 1 })),
+    execute: async () => {
+      throw new Error('Hops are not executed on their own');
+    },
+    listPools: async () => [],
+    health: async () => ({ dex, healthy: true, pools: 1 }),
+    simulate: () => output,
+    getReceivedAmount: reads ? async () => settlement.received : undefined,
+  });
+
+  // SOL -> BONK on a simulated venue, then BONK -> USDC on a venue that reads its fills from chain
+  const route: Quote = {
+    dex: 'RAYDIUM',
+    inputAmount: 1_000_000_000n,
+    outputAmount: 100_000_000n,
+    price: 0.1,
+    fee: 0.005,
+    poolId: 'sol-bonk>bonk-usdc',
+    slippage: 0.01,
+    tokenIn: SOL,
+    tokenOut: USDC,
+    hops: [
+      { dex: 'RAYDIUM', poolId: 'sol-bonk', tokenIn: SOL, tokenOut: BONK, inputAmount: 1_000_000_000n, outputAmount: 5_000_000n, fee: 0.0025 },
+      { dex: 'ORCA', poolId: 'bonk-usdc', tokenIn: BONK, tokenOut: USDC, inputAmount: 5_000_000n, outputAmount: 100_000_000n, fee: 0.0025 },
+    ],
+  };
+
+  let router: AggregateDexRouter;
+
+  beforeAll(async () => {
+    const connection = new Connection('https://api.devnet.solana.com', 'confirmed');
+    jest.spyOn(connection, 'getLatestBlockhash').mockResolvedValue({
+      blockhash: Keypair.generate().publicKey.toBase58(),
+      lastValidBlockHeight: 1150,
+    });
+    jest.spyOn(connection, 'sendRawTransaction').mockResolvedValue('sent');
+    jest.spyOn(connection, 'confirmTransaction').mockResolvedValue({ context: { slot: 1 }, value: { err: null } });
+
+    const registry = new DexAdapterRegistry()
+      .register(createVenue('RAYDIUM', 5_000_000n, false))
+      .register(createVenue('ORCA', 100_000_000n, true));
+    router = new AggregateDexRouter(registry, connection, Keypair.generate());
+    await router.initialize();
+  });
+
+  test('should report what the final hop delivered as the fill', async () => {
+    settlement.received = 99_600_000n;
+
+    const result = await router.executeSwap(route, 0.01);
+
+    expect(result.executedAmount).toBe(99_600_000n);
+    expect(result.executedPrice).toBeCloseTo(0.0996);
+  });
+
+  test('should flag a multi-hop fill whose final hop delivered less than the minimum', async () => {
+    settlement.received = 98_000_000n;
+
+    const error = await router.executeSwap(route, 0.01).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MinimumOutputError);
+    expect(error.receivedAmount).toBe(98_000_000n);
+    expect(error.minAmountOut).toBe(99_000_000n);
+  });
+});
+
+describe('Concentrated Liquidity Math', () => {
+  // Price 1.0, one narrow and one wide position
+  const state = createClmmState(1, 0, [
+    { tickLower: -100, tickUpper: 100, liquidity: 1_000_000_000n },
+    { tickLower: -1000, tickUpper: 1000, liquidity: 100_000_000n },
+  ]);
+
+  test('should activate only positions in range', () => {
+    expect(state.liquidity).toBe(1_100_000_000n);
+    expect(state.ticks.get(-100)).toBe(1_000_000_000n);
+    expect(state.ticks.get(100)).toBe(-1_000_000_000n);
+  });
+
+  test('should stay within the current range for small swaps', () => {
+    const result = computeClmmSwap(state, true, 1000n);
+
+    expect(result.ticksCrossed).toBe(0);
+    expect(Number(result.amountOut)).toBeCloseTo(1000, -1);
+    expect(result.amountOut).toBeLessThan(1000n);
+    expect(result.sqrtPrice).toBeLessThan(state.sqrtPrice);
+  });
+
+  test('should cross ticks and drop liquidity when leaving the narrow range', () => {
+    const result = computeClmmSwap(state, true, 10_000_000n);
+
+    expect(result.ticksCrossed).toBeGreaterThanOrEqual(1);
+    expect(result.liquidity).toBe(100_000_000n);
+    expect(result.sqrtPrice).toBeLessThan(tickToSqrtPrice(-100));
+  });
+
+  test('should move price up when selling tokenB', () => {
+    const result = computeClmmSwap(state, false, 1000n);
+
+    expect(result.sqrtPrice).toBeGreaterThan(state.sqrtPrice);
+    expect(result.amountOut).toBeLessThan(1000n);
+  });
+
+  test('should stop when liquidity runs out', () => {
+    const result = computeClmmSwap(state, true, 1_000_000_000_000n);
+
+    expect(result.liquidity).toBe(0n);
+    expect(result.amountOut).toBeLessThan(1_000_000_000_000n);
+  });
+
+  test('should stay exact for amounts above 2^53', () => {
+    const deep = createClmmState(1, 0.003, [{ tickLower: -1000, tickUpper: 1000, liquidity: 10n ** 24n }]);
+    const amountIn = 2n ** 60n + 1n;
+
+    const result = computeClmmSwap(deep, true, amountIn);
+
+    // One more base unit in never yields less out
+    expect(computeClmmSwap(deep, true, amountIn + 1n).amountOut).toBeGreaterThanOrEqual(result.amountOut);
+    expect(result.amountOut).toBeLessThan(amountIn);
+    expect(result.ticksCrossed).toBe(0);
+  });
+});
+
+describe('DLMM Bin Math', () => {
+  // Price 1.0, 1% bins, 10 bins per side holding 1,000,000 of each token
+  const state = createDlmmState(1, 100, 0, 1_000_000n, 1_000_000n, 10);
+
+  test('should place Y below and X above the active bin', () => {
+    expect(state.activeBinId).toBe(0);
+    expect(state.bins.get(-1)).toEqual({ binId: -1, amountX: 0n, amountY: 95_238n });
+    expect(state.bins.get(1)).toEqual({ binId: 1, amountX: 95_238n, amountY: 0n });
+    expect(state.bins.get(0)).toEqual({ binId: 0, amountX: 47_619n, amountY: 47_619n });
+  });
+
+  test('should fill within the active bin at its exact price', () => {
+    const result = computeDlmmSwap(state, true, 10_000n);
+
+    expect(result.amountOut).toBe(10_000n);
+    expect(result.binsCrossed).toBe(0);
+    expect(result.activeBinId).toBe(0);
+  });
+
+  test('should step down through bins when selling X', () => {
+    const result = computeDlmmSwap(state, true, 200_000n);
+
+    expect(result.binsCrossed).toBeGreaterThanOrEqual(2);
+    expect(result.activeBinId).toBe(-result.binsCrossed);
+    // Every bin below the active one fills at a lower price
+    expect(result.amountOut).toBeLessThan(200_000n);
+    expect(Number(result.amountOut)).toBeGreaterThan(200_000 * getBinPrice(result.activeBinId, 100));
+  });
+
+  test('should step up through bins when selling Y', () => {
+    const result = computeDlmmSwap(state, false, 200_000n);
+
+    expect(result.activeBinId).toBeGreaterThan(0);
+    expect(result.amountOut).toBeLessThan(200_000n);
+  });
+
+  test('should stop at the end of the book', () => {
+    const result = computeDlmmSwap(state, true, 10n ** 15n);
+
+    // Every Y bin drained: 10 full bins plus half of the active bin
+    expect(result.amountOut).toBe(999_999n);
+    expect(result.activeBinId).toBe(-10);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * In-memory stand-in for the BullMQ classes the services use, for jest.mock('bullmq')
+ * Jobs never run by themselves: a test runs them with Worker.run, which settles them the way
+ * BullMQ would (delayed for a retry, failed once attempts or an UnrecoverableError end them).
+ */
+const { UnrecoverableError } = jest.requireActual('bullmq');
+
+type JobState = 'waiting' | 'delayed' | 'prioritized' | 'active' | 'completed' | 'failed';
+type Listener = (...args: any[]) => void;
+
+export class Job<T = any> {
+  attemptsMade = 0;
+  finishedOn?: number;
+  state: JobState;
+
+  constructor(
+    private queue: Queue<T>,
+    public id: string,
+    public name: string,
+    public data: T,
+    public opts: { attempts?: number; delay?: number; priority?: number; jobId?: string }
+  ) {
+    this.state = opts.delay ? 'delayed' : 'waiting';
+  }
+
+  async getState(): Promise<JobState> {
+    return this.state;
+  }
+
+  async isCompleted(): Promise<boolean> {
+    return this.state === 'completed';
+  }
+
+  async isFailed(): Promise<boolean> {
+    return this.state === 'failed';
+  }
+
+  async remove(): Promise<void> {
+    this.queue.jobs.delete(this.id);
+  }
+}
+
+export class Queue<T = any> {
+  static queues = new Map<string, Queue>();
+  readonly jobs = new Map<string, Job<T>>();
+  private nextId = 1;
+
+  constructor(public name: string, private options: { defaultJobOptions?: { attempts?: number } } = {}) {
+    Queue.queues.set(name, this);
+  }
+
+  async add(name: string, data: T, opts: Job['opts'] = {}): Promise<Job<T>> {
+    const id = opts.jobId ?? String(this.nextId++);
+    const existing = this.jobs.get(id);
+    if (existing) {
+      return existing; // BullMQ ignores a job id that is already taken
+    }
+
+    const job = new Job(this, id, name, data, { attempts: this.options.defaultJobOptions?.attempts, ...opts });
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async addBulk(jobs: { name: string; data: T; opts?: Job['opts'] }[]): Promise<Job<T>[]> {
+    return Promise.all(jobs.map((job) => this.add(job.name, job.data, job.opts)));
+  }
+
+  async getJob(id: string): Promise<Job<T> | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getWaiting(start = 0, end = -1): Promise<Job<T>[]> {
+    const waiting = [...this.jobs.values()].filter((job) => job.state === 'waiting').reverse();
+    return waiting.slice(start, end < 0 ? undefined : end + 1);
+  }
+
+  async getWaitingCount(): Promise<number> {
+    return (await this.getWaiting()).length;
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class Worker<T = any> {
+  static workers = new Map<string, Worker>();
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(public name: string, private processor: (job: Job<T>) => Promise<unknown>) {
+    Worker.workers.set(name, this);
+  }
+
+  on(event: string, listener: Listener): this {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  /**
+   * Run one attempt of a job, returning its result or the error it failed with
+   */
+  async run(job: Job<T>): Promise<{ result?: unknown; error?: Error }> {
+    job.state = 'active';
+
+    try {
+      const result = await this.processor(job);
+      job.state = 'completed';
+      job.attemptsMade++;
+      return { result };
+    } catch (error) {
+      job.attemptsMade++;
+      const exhausted = error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts ?? 1);
+      job.state = exhausted ? 'failed' : 'delayed';
+      job.finishedOn = exhausted ? Date.now() : undefined;
+
+      await Promise.all((this.listeners.get('failed') ?? []).map((listener) => listener(job, error)));
+      return { error: error as Error };
+    }
+  }
+
+  async close(): Promise<void> {}
+}
+
+export class QueueEvents {
+  on(): this {
+    return this;
+  }
+
+  async close(): Promise<void> {}
+}
+
+export { UnrecoverableError };
@@ -0,0 +1,358 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+
+type Row = Record<string, any>;
+type Where = Record<string, any>;
+
+interface Relation {
+  model: string;
+  field: string; // Column on this model
+  references: string; // Column on the related model
+  many: boolean;
+}
+
+interface ModelConfig {
+  key: string;
+  unique?: string[][];
+  decimals?: string[];
+  defaults?: () => Row;
+  relations?: Record<string, Relation>;
+}
+
+const timestamps = () => ({ createdAt: new Date(), updatedAt: new Date() });
+
+const MODELS: Record<string, ModelConfig> = {
+  order: {
+    key: 'id',
+    unique: [['orderId'], ['userWallet', 'idempotencyKey']],
+    decimals: ['limitPrice', 'executedPrice', 'slippage', 'maxPriceImpact'],
+    defaults: () => ({ id: randomUUID(), orderType: 'MARKET', nonCustodial: false, retryCount: 0, ...timestamps() }),
+    relations: {
+      events: { model: 'orderEvent', field: 'orderId', references: 'orderId', many: true },
+      quotes: { model: 'quoteHistory', field: 'orderId', references: 'orderId', many: true },
+      slices: { model: 'twapSlice', field: 'orderId', references: 'orderId', many: true },
+    },
+  },
+  orderEvent: {
+    key: 'id',
+    defaults: () => ({ id: randomUUID(), createdAt: new Date() }),
+  },
+  quoteHistory: {
+    key: 'id',
+    decimals: ['price', 'fee'],
+    defaults: () => ({ id: randomUUID(), wasSelected: false, createdAt: new Date() }),
+  },
+  twapSlice: {
+    key: 'id',
+    unique: [['orderId', 'sliceIndex']],
+    decimals: ['executedPrice'],
+    defaults: () => ({ id: randomUUID(), retryCount: 0, ...timestamps() }),
+    relations: {
+      order: { model: 'order', field: 'orderId', references: 'orderId', many: false },
+    },
+  },
+  protectiveOrder: {
+    key: 'id',
+    decimals: ['triggerPrice', 'executedPrice', 'slippage'],
+    defaults: () => ({ id: randomUUID(), ...timestamps() }),
+    relations: {
+      parentOrder: { model: 'order', field: 'parentOrderId', references: 'orderId', many: false },
+    },
+  },
+  apiKey: {
+    key: 'id',
+    unique: [['keyHash']],
+    defaults: () => ({ id: randomUUID(), requestCount: 0n, rateLimitedCount: 0n, ...timestamps() }),
+  },
+  walletRiskLimit: {
+    key: 'wallet',
+    decimals: ['maxSlippage'],
+    defaults: () => ({ allowedTokens: [], ...timestamps() }),
+  },
+};
+
+const OPERATORS = new Set(['equals', 'in', 'notIn', 'not', 'lt', 'lte', 'gt', 'gte', 'has']);
+
+function normalize(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (value instanceof Date) return value.getTime();
+  if (Prisma.Decimal.isDecimal(value)) return (value as Prisma.Decimal).toNumber();
+  return value;
+}
+
+function equal(a: unknown, b: unknown): boolean {
+  const [x, y] = [normalize(a), normalize(b)];
+  // A bigint column may be compared with a number
+  return typeof x === 'bigint' || typeof y === 'bigint' ? x == y : x === y;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const [x, y] = [normalize(a), normalize(b)] as [any, any];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function isFilter(condition: unknown): condition is Record<string, unknown> {
+  return condition !== null
+    && typeof condition === 'object'
+    && Object.getPrototypeOf(condition) === Object.prototype
+    && Object.keys(condition).every((op) => OPERATORS.has(op));
+}
+
+function matchValue(value: unknown, condition: unknown): boolean {
+  if (!isFilter(condition)) {
+    return equal(value, condition);
+  }
+
+  return Object.entries(condition).every(([op, operand]) => {
+    if (operand === undefined) return true;
+    switch (op) {
+      case 'equals': return equal(value, operand);
+      case 'in': return (operand as unknown[]).some((item) => equal(value, item));
+      case 'notIn': return !(operand as unknown[]).some((item) => equal(value, item));
+      case 'not': return !matchValue(value, operand);
+      case 'lt': return value != null && compare(value, operand) < 0;
+      case 'lte': return value != null && compare(value, operand) <= 0;
+      case 'gt': return value != null && compare(value, operand) > 0;
+      case 'gte': return value != null && compare(value, operand) >= 0;
+      case 'has': return Array.isArray(value) && value.some((item) => equal(item, operand));
+      default: return false;
+    }
+  });
+}
+
+/**
+ * In-memory stand-in for the Prisma client, for tests of services that read and write orders
+ * Covers the queries the services make: equality, in / notIn / not, ranges, compound unique
+ * keys, to-one relation filters, nested creates and selects of related rows, increments, sums
+ * and unique violations (P2002). Interactive transactions run one at a time, the way rows
+ * locked for the length of a transaction would serialize them.
+ */
+export class FakePrisma {
+  readonly tables: Record<string, Row[]> = {};
+  readonly rawQueries: string[] = [];
+  private transactions: Promise<unknown> = Promise.resolve();
+
+  [model: string]: any;
+
+  constructor() {
+    for (const model of Object.keys(MODELS)) {
+      this.tables[model] = [];
+      this[model] = this.delegate(model);
+    }
+  }
+
+  reset(): void {
+    for (const model of Object.keys(MODELS)) {
+      this.tables[model].length = 0;
+    }
+    this.rawQueries.length = 0;
+  }
+
+  async $transaction(operation: ((tx: FakePrisma) => Promise<unknown>) | Promise<unknown>[]): Promise<unknown> {
+    if (Array.isArray(operation)) {
+      return Promise.all(operation);
+    }
+
+    const run = this.transactions.then(() => operation(this));
+    this.transactions = run.catch(() => undefined);
+    return run;
+  }
+
+  async $executeRaw(query: TemplateStringsArray, ...values: unknown[]): Promise<number> {
+    this.rawQueries.push(String.raw(query, ...values.map(String)));
+    return 0;
+  }
+
+  async $queryRaw(query: TemplateStringsArray, ...values: unknown[]): Promise<unknown[]> {
+    this.rawQueries.push(String.raw(query, ...values.map(String)));
+    return [];
+  }
+
+  async $disconnect(): Promise<void> {}
+
+  private delegate(model: string) {
+    const config = MODELS[model];
+    const rows = this.tables[model];
+
+    const find = (where: Where = {}) => rows.filter((row) => this.matches(model, row, where));
+
+    const sort = (found: Row[], orderBy?: Record<string, 'asc' | 'desc'> | Record<string, 'asc' | 'desc'>[]) => {
+      const orders = orderBy ? (Array.isArray(orderBy) ? orderBy : [orderBy]) : [];
+      return [...found].sort((a, b) => {
+        for (const order of orders) {
+          const [field, direction] = Object.entries(order)[0];
+          const result = compare(a[field], b[field]);
+          if (result !== 0) return direction === 'desc' ? -result : result;
+        }
+        return 0;
+      });
+    };
+
+    const create = (data: Row): Row => {
+      const row: Row = { ...config.defaults?.() };
+      const nested: [Relation, Row | Row[]][] = [];
+
+      for (const [field, value] of Object.entries(data)) {
+        const relation = config.relations?.[field];
+        if (relation) {
+          nested.push([relation, value.create]);
+        } else {
+          this.assign(model, row, field, value);
+        }
+      }
+
+      this.assertUnique(model, row);
+      rows.push(row);
+
+      for (const [relation, related] of nested) {
+        for (const child of Array.isArray(related) ? related : [related]) {
+          this[relation.model].create({ data: { ...child, [relation.references]: row[relation.field] } });
+        }
+      }
+
+      return row;
+    };
+
+    const update = (row: Row, data: Row): void => {
+      const updated = { ...row };
+      for (const [field, value] of Object.entries(data)) {
+        this.assign(model, updated, field, value);
+      }
+      if ('updatedAt' in row && !('updatedAt' in data)) {
+        updated.updatedAt = new Date();
+      }
+
+      this.assertUnique(model, updated, row);
+      Object.assign(row, updated);
+    };
+
+    return {
+      findUnique: async ({ where, select, include }: Row) =>
+        this.present(model, find(where)[0], select ?? include),
+      findFirst: async ({ where, orderBy, select, include }: Row = {}) =>
+        this.present(model, sort(find(where), orderBy)[0], select ?? include),
+      findMany: async ({ where, orderBy, skip = 0, take, select, include }: Row = {}) =>
+        sort(find(where), orderBy)
+          .slice(skip, take === undefined ? undefined : skip + take)
+          .map((row) => this.present(model, row, select ?? include)),
+      count: async ({ where }: Row = {}) => find(where).length,
+      create: async ({ data, select, include }: Row) => this.present(model, create(data), select ?? include),
+      createMany: async ({ data, skipDuplicates }: Row) => {
+        let count = 0;
+        for (const item of data as Row[]) {
+          try {
+            create(item);
+            count++;
+          } catch (error) {
+            if (!skipDuplicates) throw error;
+          }
+        }
+        return { count };
+      },
+      update: async ({ where, data }: Row) => {
+        const row = find(where)[0];
+        if (!row) {
+          throw new Prisma.PrismaClientKnownRequestError(`No ${model} found to update`, { code: 'P2025', clientVersion: 'fake' });
+        }
+        update(row, data);
+        return { ...row };
+      },
+      updateMany: async ({ where, data }: Row) => {
+        const found = find(where);
+        found.forEach((row) => update(row, data));
+        return { count: found.length };
+      },
+      upsert: async ({ where, create: createData, update: updateData }: Row) => {
+        const row = find(where)[0];
+        if (!row) return { ...create(createData) };
+        update(row, updateData);
+        return { ...row };
+      },
+      deleteMany: async ({ where }: Row = {}) => {
+        const found = find(where);
+        found.forEach((row) => rows.splice(rows.indexOf(row), 1));
+        return { count: found.length };
+      },
+      aggregate: async ({ where, _sum = {} }: Row) => {
+        const found = find(where);
+        const sums: Row = {};
+        for (const field of Object.keys(_sum)) {
+          const values = found.map((row) => row[field]).filter((value) => value != null);
+          sums[field] = values.length === 0 ? null : values.reduce((sum, value) => sum + value);
+        }
+        return { _sum: sums };
+      },
+    };
+  }
+
+  private matches(model: string, row: Row, where: Where): boolean {
+    const config = MODELS[model];
+
+    return Object.entries(where).every(([field, condition]) => {
+      if (condition === undefined) return true;
+
+      const relation = config.relations?.[field];
+      if (relation && !relation.many) {
+        const related = this.tables[relation.model].find((other) => equal(other[relation.references], row[relation.field]));
+        return related !== undefined && this.matches(relation.model, related, condition);
+      }
+
+      // Compound unique key, e.g. orderId_sliceIndex: { orderId, sliceIndex }
+      if (config.unique?.some((fields) => fields.length > 1 && fields.join('_') === field)) {
+        return this.matches(model, row, condition);
+      }
+
+      return matchValue(row[field], condition);
+    });
+  }
+
+  private assign(model: string, row: Row, field: string, value: unknown): void {
+    if (value === undefined) return;
+
+    if (value !== null && typeof value === 'object' && 'increment' in value) {
+      const increment = (value as { increment: number | bigint }).increment;
+      row[field] = typeof row[field] === 'bigint' ? row[field] + BigInt(increment) : row[field] + Number(increment);
+    } else if (value !== null && MODELS[model].decimals?.includes(field)) {
+      row[field] = new Prisma.Decimal(value as Prisma.Decimal.Value);
+    } else {
+      row[field] = value;
+    }
+  }
+
+  private assertUnique(model: string, row: Row, self?: Row): void {
+    const config = MODELS[model];
+
+    for (const fields of [[config.key], ...(config.unique ?? [])]) {
+      if (fields.some((field) => row[field] == null)) continue;
+
+      const taken = this.tables[model].some((other) => other !== self && fields.every((field) => equal(other[field], row[field])));
+      if (taken) {
+        throw new Prisma.PrismaClientKnownRequestError(`Unique constraint failed on ${fields.join(', ')}`, {
+          code: 'P2002',
+          clientVersion: 'fake',
+          meta: { target: fields },
+        });
+      }
+    }
+  }
+
+  /**
+   * Copy of a row, with the related rows a select or include asks for
+   */
+  private present(model: string, row: Row | undefined, shape?: Row): Row | null {
+    if (!row) return null;
+
+    const copy = { ...row };
+    for (const [field, option] of Object.entries(shape ?? {})) {
+      const relation = MODELS[model].relations?.[field];
+      if (!relation || !option) continue;
+
+      const related = this.tables[relation.model].filter((other) => equal(other[relation.references], row[relation.field]));
+      copy[field] = relation.many
+        ? related.filter((other) => this.matches(relation.model, other, option.where ?? {})).map((other) => ({ ...other }))
+        : related[0] ? { ...related[0] } : null;
+    }
+
+    return copy;
+  }
+}
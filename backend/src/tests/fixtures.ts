@@ -0,0 +1,39 @@
+/**
+ * Fixtures the service suites share: a token pair and wallet, single-pool quotes
+ * and a WebSocket manager that records what was broadcast
+ */
+import type { WebSocketManager } from '../services/websocket-manager';
+import type { DexType, Quote } from '../types';
+
+export const SOL = 'So11111111111111111111111111111111111111112';
+export const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+export const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+
+/**
+ * Quote of one pool filling inputAmount at `price` tokenOut per tokenIn
+ */
+export function createQuote(tokenIn: string, tokenOut: string, inputAmount: bigint, price: number, dex: DexType = 'RAYDIUM'): Quote {
+  return {
+    dex,
+    inputAmount,
+    outputAmount: BigInt(Math.floor(Number(inputAmount) * price)),
+    price,
+    fee: 0.0025,
+    poolId: 'pool-1',
+    slippage: 0.01,
+    tokenIn,
+    tokenOut,
+  };
+}
+
+/**
+ * WebSocket manager stand-in recording the channel and status of each broadcast
+ */
+export function createBroadcastRecorder() {
+  const broadcasts: { id: string; type: string }[] = [];
+  const wsManager = {
+    broadcastOrderUpdate: (id: string, update: { type: string }) => broadcasts.push({ id, type: update.type }),
+  } as unknown as WebSocketManager;
+
+  return { wsManager, broadcasts };
+}
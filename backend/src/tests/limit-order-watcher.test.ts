@@ -0,0 +1,136 @@
+import { OrderStatus, OrderType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { LimitOrderWatcher } from '../services/limit-order-watcher';
+import { OrderStateService } from '../services/order-state-service';
+import type { OrderProcessor } from '../services/order-processor';
+import type { AggregateDexRouter } from '../services/dex-router';
+import type { Quote } from '../types';
+import type { FakePrisma } from './fake-prisma';
+import { SOL, USDC, WALLET, createBroadcastRecorder, createQuote } from './fixtures';
+
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+/**
+ * Router stand-in quoting every pair at `price`
+ */
+function createRouter(price: number) {
+  const router = {
+    price,
+    getQuotes: jest.fn(async (tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> => [
+      createQuote(tokenIn, tokenOut, amount, router.price),
+    ]),
+    selectBestQuote: jest.fn((quotes: Quote[]) => quotes[0] ?? null),
+  };
+
+  return router;
+}
+
+function createWatcher(router: ReturnType<typeof createRouter>) {
+  const { wsManager, broadcasts } = createBroadcastRecorder();
+  const orderProcessor = { submitOrder: jest.fn(async () => undefined) };
+
+  const watcher = new LimitOrderWatcher(
+    router as unknown as AggregateDexRouter,
+    orderProcessor as unknown as OrderProcessor,
+    wsManager,
+    new OrderStateService(),
+    60_000
+  );
+
+  return { watcher, orderProcessor, broadcasts };
+}
+
+async function seedLimitOrder(limitPrice: number, overrides: Record<string, unknown> = {}) {
+  return db.order.create({
+    data: {
+      orderId: `limit-${Math.random().toString(36).slice(2)}`,
+      userWallet: WALLET,
+      tokenIn: SOL,
+      tokenOut: USDC,
+      orderType: OrderType.LIMIT,
+      limitPrice,
+      amountIn: 1000n,
+      status: OrderStatus.PENDING,
+      slippage: 0.01,
+      ...overrides,
+    },
+  });
+}
+
+const getOrder = (orderId: string) => db.order.findUnique({ where: { orderId } });
+
+beforeEach(() => {
+  db.reset();
+});
+
+describe('Limit Order Watcher - Triggering', () => {
+  test('should submit an order once the best price reaches its limit', async () => {
+    const router = createRouter(1.9);
+    const { watcher, orderProcessor } = createWatcher(router);
+    const order = await seedLimitOrder(2);
+
+    await watcher.poll();
+    expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+    expect((await getOrder(order.orderId)).triggeredAt).toBeUndefined();
+
+    router.price = 2;
+    await watcher.poll();
+
+    expect(orderProcessor.submitOrder).toHaveBeenCalledTimes(1);
+    expect(orderProcessor.submitOrder).toHaveBeenCalledWith(expect.objectContaining({
+      orderId: order.orderId,
+      amount: '1000',
+      orderType: OrderType.LIMIT,
+      limitPrice: 2,
+    }));
+    expect((await getOrder(order.orderId)).triggeredAt).toBeInstanceOf(Date);
+
+    // A triggered order is never submitted again
+    await watcher.poll();
+    expect(orderProcessor.submitOrder).toHaveBeenCalledTimes(1);
+  });
+
+  test('should release an order it could not queue so the next cycle retries it', async () => {
+    const { watcher, orderProcessor } = createWatcher(createRouter(2.5));
+    const order = await seedLimitOrder(2);
+
+    orderProcessor.submitOrder.mockRejectedValueOnce(new Error('Redis connection lost'));
+    await watcher.poll();
+
+    expect(await getOrder(order.orderId)).toMatchObject({ status: OrderStatus.PENDING, triggeredAt: null });
+
+    await watcher.poll();
+    expect(orderProcessor.submitOrder).toHaveBeenCalledTimes(2);
+    expect((await getOrder(order.orderId)).triggeredAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('Limit Order Watcher - Expiry', () => {
+  test('should expire untriggered orders past their expiry', async () => {
+    const router = createRouter(2.5);
+    const { watcher, orderProcessor, broadcasts } = createWatcher(router);
+    const expired = await seedLimitOrder(2, { expiresAt: new Date(Date.now() - 1000) });
+    const live = await seedLimitOrder(3, { expiresAt: new Date(Date.now() + 3600_000) });
+
+    await watcher.poll();
+
+    expect(await getOrder(expired.orderId)).toMatchObject({ status: OrderStatus.EXPIRED, errorMessage: 'Limit order expired' });
+    expect(broadcasts).toEqual([{ id: expired.orderId, type: OrderStatus.EXPIRED }]);
+    expect(orderProcessor.submitOrder).not.toHaveBeenCalled();
+    expect(await getOrder(live.orderId)).toMatchObject({ status: OrderStatus.PENDING });
+  });
+
+  test('should leave a triggered order to run past its expiry', async () => {
+    const { watcher } = createWatcher(createRouter(1));
+    const triggered = await seedLimitOrder(2, { expiresAt: new Date(Date.now() - 1000), triggeredAt: new Date() });
+
+    await watcher.poll();
+
+    expect(await getOrder(triggered.orderId)).toMatchObject({ status: OrderStatus.PENDING });
+  });
+});
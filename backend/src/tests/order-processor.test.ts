@@ -0,0 +1,656 @@
+import { OrderStatus, OrderType } from '@prisma/client';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import bs58 from 'bs58';
+import type { Redis } from 'ioredis';
+import { prisma } from '../config/database';
+import { OrderProcessor } from '../services/order-processor';
+import { OrderStateService } from '../services/order-state-service';
+import { DeadLetterQueue } from '../services/dead-letter-queue';
+import { DeadLetterNotFoundError, NotAwaitingSignatureError, ReplayNotAllowedError, ValidationError } from '../utils/errors';
+import type { AggregateDexRouter } from '../services/dex-router';
+import type { TransactionService } from '../services/transaction-service';
+import type { ExecutionResult, OrderJobData, Quote, RouteSelection, SubmissionHook } from '../types';
+import type { FakePrisma } from './fake-prisma';
+import { Queue, Worker } from './fake-bullmq';
+import type { Job } from './fake-bullmq';
+import { SOL, USDC, WALLET, createBroadcastRecorder, createQuote } from './fixtures';
+
+jest.mock('bullmq', () => require('./fake-bullmq'));
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+/**
+ * Router stand-in quoting a single venue at `price` (set per input amount to vary fills)
+ * and executing at the quoted output, recording the signature first like a real venue
+ */
+function createRouter(priceFor: (amount: bigint) => number = () => 2) {
+  let signatures = 0;
+
+  const quote = (amount: bigint, dex: Quote['dex'] = 'RAYDIUM') => createQuote(SOL, USDC, amount, priceFor(amount), dex);
+
+  return {
+    getQuotes: jest.fn(async (_tokenIn: string, _tokenOut: string, amount: bigint) => [quote(amount)]),
+    // Split 60/40 across two venues
+    getRoute: jest.fn(async (_tokenIn: string, _tokenOut: string, amount: bigint): Promise<RouteSelection> => {
+      const legs = [quote((amount * 6n) / 10n, 'RAYDIUM'), quote(amount - (amount * 6n) / 10n, 'ORCA')];
+      const outputAmount = legs[0].outputAmount + legs[1].outputAmount;
+      return {
+        quotes: [quote(amount)],
+        bestQuote: quote(amount),
+        splitRoute: { legs, inputAmount: amount, outputAmount, price: Number(outputAmount) / Number(amount) },
+      };
+    }),
+    getRouteMinAmountOut: jest.fn(() => 0n),
+    selectBestQuote: jest.fn((quotes: Quote[]) => quotes[0] ?? null),
+    // Venues that fill at the quote report nothing
+    getSettledAmount: jest.fn(async (..._args: unknown[]): Promise<bigint | null> => null),
+    executeSwap: jest.fn(async (best: Quote, _slippage: number, _min?: bigint, onSubmitted?: SubmissionHook): Promise<ExecutionResult> => {
+      const signature = `sig-${++signatures}`;
+      await onSubmitted?.({ signature, lastValidBlockHeight: 1150 });
+      return { signature, executedPrice: best.price, executedAmount: best.outputAmount, dex: best.dex };
+    }),
+  };
+}
+
+type FakeRouter = ReturnType<typeof createRouter>;
+
+function createProcessor(router: FakeRouter) {
+  const redis = {} as Redis;
+  const { wsManager, broadcasts } = createBroadcastRecorder();
+  const transactionService = {
+    getSubmissionOutcome: jest.fn(async () => 'confirmed'),
+    sendSignedTransaction: jest.fn(async (..._args: unknown[]) => 'sent'),
+    waitForSubmission: jest.fn(async (..._args: unknown[]) => undefined),
+  };
+
+  const processor = new OrderProcessor(
+    router as unknown as AggregateDexRouter,
+    wsManager,
+    redis,
+    new OrderStateService(),
+    transactionService as unknown as TransactionService,
+    new DeadLetterQueue(redis)
+  );
+
+  return {
+    processor,
+    broadcasts,
+    transactionService,
+    queue: Queue.queues.get('order-processing')!,
+    worker: Worker.workers.get('order-processing')!,
+    deadLetters: Queue.queues.get('order-processing-dlq')!,
+  };
+}
+
+async function seedOrder(overrides: Record<string, unknown> = {}) {
+  return db.order.create({
+    data: {
+      orderId: `order-${Math.random().toString(36).slice(2)}`,
+      userWallet: WALLET,
+      tokenIn: SOL,
+      tokenOut: USDC,
+      orderType: OrderType.MARKET,
+      amountIn: 1000n,
+      status: OrderStatus.PENDING,
+      slippage: 0.01,
+      ...overrides,
+    },
+  });
+}
+
+const jobData = (order: { orderId: string; orderType: OrderType; amountIn: bigint }, extra: Partial<OrderJobData> = {}): OrderJobData => ({
+  orderId: order.orderId,
+  tokenIn: SOL,
+  tokenOut: USDC,
+  amount: order.amountIn.toString(),
+  slippage: 0.01,
+  userWallet: WALLET,
+  timestamp: Date.now(),
+  orderType: order.orderType,
+  ...extra,
+});
+
+beforeEach(() => {
+  db.reset();
+  Queue.queues.clear();
+  Worker.workers.clear();
+});
+
+describe('Order Processor - TWAP', () => {
+  const INTERVAL_MS = 60_000;
+
+  async function submitTwap(router: FakeRouter, slices = 3) {
+    const context = createProcessor(router);
+    const order = await seedOrder({ orderType: OrderType.TWAP, twapSlices: slices, twapIntervalMs: INTERVAL_MS });
+
+    await context.processor.submitOrder(jobData(order, { twapSlices: slices, twapIntervalMs: INTERVAL_MS }));
+
+    const sliceJob = (sliceIndex: number) => context.queue.jobs.get(`${order.orderId}-slice-${sliceIndex}`)! as Job<OrderJobData>;
+    const getOrder = () => db.order.findUnique({ where: { orderId: order.orderId } });
+
+    return { ...context, router, order, sliceJob, getOrder };
+  }
+
+  test('should schedule equal slices one interval apart, the last taking the remainder', async () => {
+    const { order, sliceJob } = await submitTwap(createRouter());
+
+    const slices = await db.twapSlice.findMany({ where: { orderId: order.orderId }, orderBy: { sliceIndex: 'asc' } });
+
+    expect(slices.map((slice: { amountIn: bigint }) => slice.amountIn)).toEqual([333n, 333n, 334n]);
+    expect(slices[2].scheduledAt.getTime() - slices[0].scheduledAt.getTime()).toBe(2 * INTERVAL_MS);
+
+    expect([0, 1, 2].map((i) => sliceJob(i).opts.delay)).toEqual([0, INTERVAL_MS, 2 * INTERVAL_MS]);
+    expect([0, 1, 2].map((i) => sliceJob(i).data.amount)).toEqual(['333', '333', '334']);
+    expect(sliceJob(0).state).toBe('waiting');
+    expect(sliceJob(2).state).toBe('delayed');
+  });
+
+  test('should fold each fill into the parent at its volume-weighted price', async () => {
+    // The last, larger slice fills at a better price
+    const { worker, sliceJob, getOrder } = await submitTwap(createRouter((amount) => (amount === 334n ? 3 : 2)));
+
+    await worker.run(sliceJob(0));
+    expect(await getOrder()).toMatchObject({ status: OrderStatus.SUBMITTED, filledAmountIn: 333n, amountOut: 666n });
+
+    await worker.run(sliceJob(1));
+    await worker.run(sliceJob(2));
+
+    const order = await getOrder();
+    expect(order).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      filledAmountIn: 1000n,
+      amountOut: 666n + 666n + 1002n,
+      txHash: 'sig-3',
+      errorMessage: null,
+    });
+    expect(order.executedPrice.toNumber()).toBeCloseTo((2 * 666 + 3 * 334) / 1000, 6);
+  });
+
+  test('should confirm a partly filled TWAP and fail one that filled nothing', async () => {
+    const failSlice = async (twap: Awaited<ReturnType<typeof submitTwap>>, sliceIndex: number) => {
+      twap.router.executeSwap.mockRejectedValueOnce(new Error('Pool not found for token pair'));
+      twap.sliceJob(sliceIndex).attemptsMade = 2; // Final attempt
+      return twap.worker.run(twap.sliceJob(sliceIndex));
+    };
+
+    const partial = await submitTwap(createRouter(), 2);
+
+    expect((await failSlice(partial, 0)).error?.message).toBe('Pool not found for token pair');
+    expect(await partial.getOrder()).toMatchObject({ status: OrderStatus.SUBMITTED, filledAmountIn: 0n });
+
+    await partial.worker.run(partial.sliceJob(1));
+    expect(await partial.getOrder()).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      filledAmountIn: 500n,
+      amountOut: 1000n,
+      errorMessage: '1 of 2 TWAP slices failed',
+    });
+
+    const unfilled = await submitTwap(createRouter(), 2);
+
+    await failSlice(unfilled, 0);
+    await failSlice(unfilled, 1);
+    expect(await unfilled.getOrder()).toMatchObject({
+      status: OrderStatus.FAILED,
+      filledAmountIn: 0n,
+      amountOut: null,
+      errorMessage: '2 of 2 TWAP slices failed',
+    });
+  });
+
+  test('should cancel unstarted slices and keep the filled ones', async () => {
+    const { processor, queue, worker, order, sliceJob, getOrder } = await submitTwap(createRouter());
+
+    await worker.run(sliceJob(0));
+
+    expect(await processor.cancelOrder(order.orderId, OrderType.TWAP)).toBe(true);
+
+    const slices = await db.twapSlice.findMany({ where: { orderId: order.orderId }, orderBy: { sliceIndex: 'asc' } });
+    expect(slices.map((slice: { status: OrderStatus }) => slice.status)).toEqual([
+      OrderStatus.CONFIRMED,
+      OrderStatus.CANCELLED,
+      OrderStatus.CANCELLED,
+    ]);
+
+    // Their delayed jobs leave the queue; the filled slice stays on the order
+    expect(queue.jobs.has(`${order.orderId}-slice-1`)).toBe(false);
+    expect(queue.jobs.has(`${order.orderId}-slice-2`)).toBe(false);
+    expect(await getOrder()).toMatchObject({ status: OrderStatus.CANCELLED, filledAmountIn: 333n, amountOut: 666n });
+
+    // Nothing left to cancel
+    expect(await processor.cancelOrder(order.orderId, OrderType.TWAP)).toBe(false);
+  });
+});
+
+describe('Order Processor - Reconciliation', () => {
+  test('should confirm a landed swap with the amount its transaction delivered', async () => {
+    const router = createRouter();
+    const { processor } = createProcessor(router);
+    const order = await seedOrder({
+      status: OrderStatus.SUBMITTED,
+      selectedDex: 'RAYDIUM',
+      txHash: 'sig-landed',
+      lastValidBlockHeight: 1150n,
+      expectedAmountOut: 2000n,
+    });
+
+    router.getSettledAmount.mockResolvedValueOnce(1940n);
+
+    expect(await processor.reconcileOrder(order.orderId, { resume: false })).toBe('settled');
+
+    expect(router.getSettledAmount).toHaveBeenCalledWith('RAYDIUM', 'sig-landed', USDC, undefined);
+    const reconciled = await db.order.findUnique({ where: { orderId: order.orderId } });
+    expect(reconciled).toMatchObject({ status: OrderStatus.CONFIRMED, amountOut: 1940n, txHash: 'sig-landed' });
+    expect(reconciled.executedPrice.toNumber()).toBeCloseTo(1.94, 6);
+  });
+
+  test('should read a multi-hop swap\'s output on the venue of its final hop', async () => {
+    const router = createRouter();
+    const { processor } = createProcessor(router);
+    const order = await seedOrder({
+      status: OrderStatus.SUBMITTED,
+      selectedDex: 'RAYDIUM',
+      txHash: 'sig-landed',
+      lastValidBlockHeight: 1150n,
+      expectedAmountOut: 2000n,
+    });
+
+    await db.orderEvent.create({
+      data: {
+        orderId: order.orderId,
+        fromStatus: OrderStatus.ROUTING,
+        toStatus: OrderStatus.BUILDING,
+        payload: { selectedDex: 'RAYDIUM', hops: [{ dex: 'RAYDIUM', tokenOut: 'BONK' }, { dex: 'ORCA', tokenOut: USDC }] },
+      },
+    });
+
+    router.getSettledAmount.mockImplementation(async (dex: unknown) => (dex === 'ORCA' ? 1960n : null));
+
+    await processor.reconcileOrder(order.orderId, { resume: false });
+
+    expect(router.getSettledAmount).toHaveBeenCalledWith('ORCA', 'sig-landed', USDC, undefined);
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      amountOut: 1960n,
+    });
+  });
+
+  test('should add up a split route\'s legs, taking the quote only for venues that fill at it', async () => {
+    const router = createRouter();
+    const { processor } = createProcessor(router);
+    const order = await seedOrder({ status: OrderStatus.SUBMITTED, txHash: 'sig-leg-0', lastValidBlockHeight: 1150n });
+
+    for (const [legIndex, dex] of (['RAYDIUM', 'ORCA'] as const).entries()) {
+      await db.quoteHistory.create({
+        data: {
+          orderId: order.orderId,
+          dex,
+          inputAmount: 500n,
+          outputAmount: 1000n,
+          price: 2,
+          legIndex,
+          txHash: `sig-leg-${legIndex}`,
+          lastValidBlockHeight: 1150n,
+        },
+      });
+    }
+
+    router.getSettledAmount.mockImplementation(async (dex: unknown) => (dex === 'RAYDIUM' ? 990n : null));
+
+    await processor.reconcileOrder(order.orderId, { resume: false });
+
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      amountOut: 990n + 1000n,
+      txHash: 'sig-leg-1',
+    });
+  });
+
+  test('should settle a landed TWAP slice with the amount it delivered', async () => {
+    const router = createRouter();
+    const { processor } = createProcessor(router);
+    const order = await seedOrder({ orderType: OrderType.TWAP, status: OrderStatus.SUBMITTED, twapSlices: 2, twapIntervalMs: 1000 });
+
+    await db.twapSlice.createMany({
+      data: [
+        { orderId: order.orderId, sliceIndex: 0, amountIn: 500n, status: OrderStatus.FAILED, scheduledAt: new Date() },
+        {
+          orderId: order.orderId,
+          sliceIndex: 1,
+          amountIn: 500n,
+          status: OrderStatus.SUBMITTED,
+          selectedDex: 'RAYDIUM',
+          txHash: 'sig-slice',
+          lastValidBlockHeight: 1150n,
+          expectedAmountOut: 1000n,
+          scheduledAt: new Date(),
+        },
+      ],
+    });
+
+    router.getSettledAmount.mockResolvedValueOnce(975n);
+
+    expect(await processor.reconcileTwapSlice(order.orderId, 1, { resume: false })).toBe('settled');
+
+    expect(router.getSettledAmount).toHaveBeenCalledWith('RAYDIUM', 'sig-slice', USDC);
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      filledAmountIn: 500n,
+      amountOut: 975n,
+    });
+  });
+});
+
+describe('Order Processor - Split Routes', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should keep the legs that settled on an order a later leg failed', async () => {
+    // Skip the pauses between status broadcasts
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+
+    const router = createRouter();
+    const { processor, queue, worker } = createProcessor(router);
+    const order = await seedOrder();
+
+    await processor.submitOrder(jobData(order));
+
+    router.executeSwap
+      .mockImplementationOnce(async (best, _slippage, _min, onSubmitted) => {
+        await onSubmitted?.({ signature: 'sig-leg-0', lastValidBlockHeight: 1150 });
+        return { signature: 'sig-leg-0', executedPrice: 1.95, executedAmount: 1170n, dex: best.dex };
+      })
+      .mockRejectedValueOnce(new Error('Pool not found for token pair'));
+
+    const job = queue.jobs.get(order.orderId)!;
+    const { error } = await worker.run(job);
+
+    // Never retried: the settled leg would swap a second time
+    expect(error?.message).toBe('Split route leg 1 failed after 1 of 2 legs executed: Pool not found for token pair');
+    expect(job.state).toBe('failed');
+
+    const failed = await db.order.findUnique({ where: { orderId: order.orderId } });
+    expect(failed).toMatchObject({
+      status: OrderStatus.FAILED,
+      filledAmountIn: 600n,
+      amountOut: 1170n,
+      txHash: 'sig-leg-0',
+    });
+    expect(failed.executedPrice.toNumber()).toBeCloseTo(1.95, 6);
+
+    const legs = await db.quoteHistory.findMany({ where: { orderId: order.orderId, legIndex: { not: null } }, orderBy: { legIndex: 'asc' } });
+    expect(legs).toHaveLength(2);
+    expect(legs.filter((leg: { txHash?: string | null }) => leg.txHash).map((leg: { txHash: string }) => leg.txHash)).toEqual(['sig-leg-0']);
+  });
+
+  test('should keep the landed legs of an interrupted split route it fails', async () => {
+    const router = createRouter();
+    const { processor, transactionService } = createProcessor(router);
+    const order = await seedOrder({ status: OrderStatus.SUBMITTED, txHash: 'sig-leg-0', lastValidBlockHeight: 1150n });
+
+    for (const legIndex of [0, 1]) {
+      await db.quoteHistory.create({
+        data: {
+          orderId: order.orderId,
+          dex: 'RAYDIUM',
+          inputAmount: 500n,
+          outputAmount: 1000n,
+          price: 2,
+          legIndex,
+          txHash: `sig-leg-${legIndex}`,
+          lastValidBlockHeight: 1150n,
+        },
+      });
+    }
+
+    (transactionService.getSubmissionOutcome as jest.Mock).mockImplementation(async (signature: string) =>
+      (signature === 'sig-leg-0' ? 'confirmed' : 'failed'));
+    router.getSettledAmount.mockResolvedValueOnce(980n);
+
+    expect(await processor.reconcileOrder(order.orderId, { resume: false })).toBe('settled');
+
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.FAILED,
+      filledAmountIn: 500n,
+      amountOut: 980n,
+      txHash: 'sig-leg-0',
+      errorMessage: 'Split route interrupted after 1 of 2 legs settled',
+    });
+  });
+});
+
+describe('Order Processor - Dead Letters', () => {
+  beforeEach(() => {
+    // Skip the pauses between status broadcasts
+    jest.spyOn(global, 'setTimeout').mockImplementation(((callback: () => void) => {
+      callback();
+      return 0;
+    }) as unknown as typeof setTimeout);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // The worker dead-letters from its 'failed' listener without waiting on it
+  const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+  /**
+   * An order whose routing fails on every attempt, run until BullMQ gives up on it
+   */
+  async function exhaustOrder() {
+    const router = createRouter();
+    const context = createProcessor(router);
+    // Stored as the database would, with no swap yet
+    const order = await seedOrder({ txHash: null });
+
+    router.getRoute.mockRejectedValue(new Error('Network error: connection reset'));
+    await context.processor.submitOrder(jobData(order));
+
+    const job = context.queue.jobs.get(order.orderId)! as Job<OrderJobData>;
+    for (let attempt = 0; attempt < job.opts.attempts!; attempt++) {
+      await context.worker.run(job);
+      await settle();
+    }
+
+    const getOrder = () => db.order.findUnique({ where: { orderId: order.orderId } });
+
+    return { ...context, router, order, job, getOrder };
+  }
+
+  test('should dead-letter a job only once its attempts run out', async () => {
+    const router = createRouter();
+    const { processor, queue, worker, deadLetters } = createProcessor(router);
+    const order = await seedOrder();
+
+    router.getRoute.mockRejectedValue(new Error('Network error: connection reset'));
+    await processor.submitOrder(jobData(order));
+    const job = queue.jobs.get(order.orderId)! as Job<OrderJobData>;
+
+    await worker.run(job);
+    await settle();
+
+    expect(job.state).toBe('delayed');
+    expect(deadLetters.jobs.size).toBe(0);
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({ status: OrderStatus.RETRYING });
+
+    while (job.state !== 'failed') {
+      await worker.run(job);
+    }
+    await settle();
+
+    expect(deadLetters.jobs.get(order.orderId)?.data).toMatchObject({
+      jobId: order.orderId,
+      orderId: order.orderId,
+      failedReason: 'Network error: connection reset',
+      errorType: 'retryable',
+      attemptsMade: job.opts.attempts,
+    });
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.FAILED,
+      errorMessage: 'Network error: connection reset',
+    });
+  });
+
+  test('should replay a dead-lettered order from PENDING with a new slippage', async () => {
+    const { processor, queue, deadLetters, order, getOrder } = await exhaustOrder();
+
+    await processor.replayDeadLetter(order.orderId, { slippage: 0.03 });
+
+    expect(await getOrder()).toMatchObject({ status: OrderStatus.PENDING, errorMessage: null, retryCount: 0 });
+    expect((await getOrder()).slippage.toNumber()).toBe(0.03);
+    expect(deadLetters.jobs.size).toBe(0);
+
+    // Queued afresh under the same id, to be routed again
+    const replayed = queue.jobs.get(order.orderId)!;
+    expect(replayed.state).toBe('waiting');
+    expect(replayed.data).toMatchObject({ orderId: order.orderId, slippage: 0.03, quotedRoute: undefined });
+  });
+
+  test('should refuse to replay an order with a swap on-chain', async () => {
+    const { processor, deadLetters, order } = await exhaustOrder();
+
+    await db.quoteHistory.create({
+      data: { orderId: order.orderId, dex: 'RAYDIUM', inputAmount: 600n, outputAmount: 1200n, price: 2, fee: 0.0025, legIndex: 0, txHash: 'sig-leg-0' },
+    });
+    await expect(processor.replayDeadLetter(order.orderId)).rejects.toThrow(ReplayNotAllowedError);
+
+    await db.order.update({ where: { orderId: order.orderId }, data: { txHash: 'sig-landed' } });
+    await db.quoteHistory.deleteMany({ where: { orderId: order.orderId } });
+    await expect(processor.replayDeadLetter(order.orderId)).rejects.toThrow(`Order ${order.orderId} already has a swap on-chain and cannot be replayed`);
+
+    // Left for an operator to discard
+    expect(deadLetters.jobs.has(order.orderId)).toBe(true);
+    expect((await db.order.findUnique({ where: { orderId: order.orderId } })).status).toBe(OrderStatus.FAILED);
+  });
+
+  test('should discard an entry and its failed job, leaving the order FAILED', async () => {
+    const { processor, queue, deadLetters, order, getOrder } = await exhaustOrder();
+
+    expect(await processor.discardDeadLetter(order.orderId)).toMatchObject({ orderId: order.orderId });
+
+    expect(deadLetters.jobs.size).toBe(0);
+    expect(queue.jobs.has(order.orderId)).toBe(false);
+    expect(await getOrder()).toMatchObject({ status: OrderStatus.FAILED });
+    await expect(processor.discardDeadLetter(order.orderId)).rejects.toThrow(DeadLetterNotFoundError);
+    await expect(processor.replayDeadLetter(order.orderId)).rejects.toThrow(DeadLetterNotFoundError);
+  });
+});
+
+describe('Order Processor - Wallet-Signed Swaps', () => {
+  const user = Keypair.generate();
+
+  // The swap the engine built for the wallet, as stored on the order
+  const buildSwap = (lamports = 1) => {
+    const transaction = new Transaction().add(SystemProgram.transfer({ fromPubkey: user.publicKey, toPubkey: user.publicKey, lamports }));
+    transaction.feePayer = user.publicKey;
+    transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    return transaction;
+  };
+
+  const signed = (transaction: Transaction) => {
+    const copy = Transaction.from(transaction.serialize({ requireAllSignatures: false }));
+    copy.sign(user);
+    return copy;
+  };
+
+  async function seedAwaitingSignature(unsigned: Transaction) {
+    return seedOrder({
+      userWallet: user.publicKey.toBase58(),
+      nonCustodial: true,
+      status: OrderStatus.BUILDING,
+      selectedDex: 'RAYDIUM',
+      expectedAmountOut: 2000n,
+      unsignedTransaction: unsigned.serialize({ requireAllSignatures: false }).toString('base64'),
+      lastValidBlockHeight: 1150n,
+      txHash: null,
+    });
+  }
+
+  test('should record the signed swap as SUBMITTED, send it and settle it from the chain', async () => {
+    const router = createRouter();
+    const { processor, transactionService } = createProcessor(router);
+    const unsigned = buildSwap();
+    const order = await seedAwaitingSignature(unsigned);
+    const transaction = signed(unsigned);
+
+    let atSend: { status: OrderStatus; txHash: string | null } | null = null;
+    transactionService.sendSignedTransaction.mockImplementationOnce(async () => {
+      atSend = await db.order.findUnique({ where: { orderId: order.orderId } });
+      return 'sent';
+    });
+    router.getSettledAmount.mockResolvedValueOnce(1950n);
+
+    const signature = await processor.submitSignedTransaction(order.orderId, transaction);
+
+    expect(signature).toBe(bs58.encode(transaction.signature!));
+    expect(atSend).toMatchObject({ status: OrderStatus.SUBMITTED, txHash: signature });
+    expect(transactionService.waitForSubmission).toHaveBeenCalledWith(signature, unsigned.recentBlockhash, 1150);
+
+    // Settlement runs in the background once the swap confirmed
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(router.getSettledAmount).toHaveBeenCalledWith('RAYDIUM', signature, USDC, user.publicKey);
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({
+      status: OrderStatus.CONFIRMED,
+      amountOut: 1950n,
+      txHash: signature,
+    });
+  });
+
+  test('should refuse a transaction other than the one built for the order', async () => {
+    const { processor, transactionService } = createProcessor(createRouter());
+    const unsigned = buildSwap();
+    const order = await seedAwaitingSignature(unsigned);
+
+    // Same accounts and blockhash, but moving another amount
+    const altered = buildSwap(2);
+    altered.recentBlockhash = unsigned.recentBlockhash;
+
+    await expect(processor.submitSignedTransaction(order.orderId, signed(altered)))
+      .rejects.toThrow(new ValidationError('transaction: Does not match the unsigned transaction built for the order'));
+    expect(transactionService.sendSignedTransaction).not.toHaveBeenCalled();
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({ status: OrderStatus.BUILDING });
+  });
+
+  test('should refuse a transaction without a valid signature of the wallet', async () => {
+    const { processor, transactionService } = createProcessor(createRouter());
+    const unsigned = buildSwap();
+    const order = await seedAwaitingSignature(unsigned);
+    const forged = signed(unsigned);
+    forged.signatures[0].signature = Buffer.alloc(64, 7);
+
+    for (const transaction of [Transaction.from(unsigned.serialize({ requireAllSignatures: false })), forged]) {
+      await expect(processor.submitSignedTransaction(order.orderId, transaction))
+        .rejects.toThrow(`transaction: Must be signed by ${user.publicKey.toBase58()}`);
+    }
+
+    expect(transactionService.sendSignedTransaction).not.toHaveBeenCalled();
+    expect(await db.order.findUnique({ where: { orderId: order.orderId } })).toMatchObject({ status: OrderStatus.BUILDING, txHash: null });
+  });
+
+  test('should send a swap only once when the signed copy is submitted twice at the same time', async () => {
+    const { processor, transactionService } = createProcessor(createRouter());
+    const unsigned = buildSwap();
+    const order = await seedAwaitingSignature(unsigned);
+    const transaction = signed(unsigned);
+
+    const results = await Promise.allSettled([
+      processor.submitSignedTransaction(order.orderId, transaction),
+      processor.submitSignedTransaction(order.orderId, transaction),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(transactionService.sendSignedTransaction).toHaveBeenCalledTimes(1);
+
+    // Once it is SUBMITTED, a late copy is turned away before anything is checked
+    await expect(processor.submitSignedTransaction(order.orderId, transaction)).rejects.toThrow(NotAwaitingSignatureError);
+  });
+});
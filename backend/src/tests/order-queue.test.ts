@@ -147,6 +147,38 @@ describe('Order Queue - Queue Behavior', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    test('should never process waiting or delayed jobs removed before pickup', async () => {
+      const processed: string[] = [];
+
+      await testQueue.add('process-order', { orderId: 'cancel-waiting' }, { jobId: 'cancel-waiting' });
+      await testQueue.add('process-twap-slice', { orderId: 'cancel-delayed' }, { jobId: 'cancel-delayed', delay: 500 });
+      await testQueue.add('process-order', { orderId: 'kept' }, { jobId: 'kept' });
+
+      for (const jobId of ['cancel-waiting', 'cancel-delayed']) {
+        const job = await testQueue.getJob(jobId);
+        expect(['waiting', 'delayed']).toContain(await job!.getState());
+        await job!.remove();
+      }
+
+      const worker = new Worker(
+        'test-order-queue',
+        async (job) => {
+          processed.push(job.data.orderId);
+          return { success: true };
+        },
+        { connection: redis }
+      );
+
+      // Past the delayed job's delay
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+
+      expect(processed).toEqual(['kept']);
+
+      await worker.close();
+    });
+  });
+
   describe('Concurrency Control', () => {
     test('should process jobs with specified concurrency', async () => {
       let activeJobs = 0;
@@ -0,0 +1,373 @@
+import Fastify from 'fastify';
+import websocket from '@fastify/websocket';
+import { createHash, createPrivateKey, sign } from 'crypto';
+import bs58 from 'bs58';
+import WebSocket from 'ws';
+import type { FastifyError, FastifyInstance } from 'fastify';
+import type { Redis } from 'ioredis';
+import { OrderStatus, ProtectiveOrderType } from '@prisma/client';
+import { Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { prisma } from '../config/database';
+import { env } from '../config/environment';
+import { registerOrderRoutes } from '../routes/orders';
+import { registerAuthRoutes } from '../routes/auth';
+import { registerWebSocketRoutes } from '../routes/websocket';
+import { AuthService } from '../services/auth-service';
+import { RiskManager } from '../services/risk-manager';
+import { QuoteService } from '../services/quote-service';
+import type { AggregateDexRouter } from '../services/dex-router';
+import type { RouteSelection } from '../types';
+import type { FakePrisma } from './fake-prisma';
+import { SOL, USDC, WALLET } from './fixtures';
+
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+/**
+ * Redis stand-in holding string values, enough for the quote service
+ */
+function createRedis() {
+  const values = new Map<string, string>();
+
+  return {
+    values,
+    get: async (key: string) => values.get(key) ?? null,
+    getdel: async (key: string) => {
+      const value = values.get(key) ?? null;
+      values.delete(key);
+      return value;
+    },
+    set: async (key: string, value: string) => {
+      values.set(key, value);
+      return 'OK';
+    },
+  };
+}
+
+/**
+ * Order, sign-in and WebSocket routes on their own instance, with WALLET signed in under the "session" token
+ */
+async function createApp() {
+  const redis = createRedis();
+  redis.values.set(`auth:session:${createHash('sha256').update('session').digest('hex')}`, WALLET);
+  const dexRouter = {
+    getRoute: jest.fn(async (tokenIn: string, tokenOut: string, amount: bigint): Promise<RouteSelection> => ({
+      best: { dex: 'RAYDIUM', inputAmount: amount, outputAmount: amount * 2n, price: 2, fee: 0.0025, poolId: 'pool-1', slippage: 0.01, tokenIn, tokenOut },
+      legs: [],
+      quotes: [],
+      isSplit: false,
+    } as unknown as RouteSelection)),
+    getRouteMinAmountOut: jest.fn(() => 1990n),
+  };
+  const quoteService = new QuoteService(dexRouter as unknown as AggregateDexRouter, redis as unknown as Redis, 30);
+  const orderProcessor = {
+    submitOrder: jest.fn(async () => undefined),
+    submitSignedTransaction: jest.fn(async (..._args: unknown[]) => 'sig-signed'),
+  };
+  const wsManager = { broadcastOrderUpdate: jest.fn() };
+  const services = {
+    riskManager: new RiskManager(dexRouter as unknown as AggregateDexRouter),
+    quoteService,
+    orderProcessor,
+    wsManager,
+    authService: new AuthService(redis as unknown as Redis),
+  } as unknown as FastifyInstance['services'];
+
+  const app = Fastify();
+  app.setErrorHandler((error: FastifyError, _request, reply) => {
+    reply.code(error.statusCode || 500).send({ error: { message: error.message, code: error.code } });
+  });
+  await app.register(websocket);
+
+  for (const [register, prefix] of [[registerOrderRoutes, '/api/orders'], [registerAuthRoutes, '/api/auth'], [registerWebSocketRoutes, '/ws']] as const) {
+    await app.register(async (instance) => {
+      instance.decorate('services', services);
+      await register(instance);
+    }, { prefix });
+  }
+
+  return { app, redis, quoteService, orderProcessor, wsManager };
+}
+
+type App = Awaited<ReturnType<typeof createApp>>['app'];
+
+const placeOrder = (app: App, body: Record<string, unknown>, headers: Record<string, string> = {}) =>
+  app.inject({
+    method: 'POST',
+    url: '/api/orders',
+    headers: { authorization: 'Bearer session', ...headers },
+    payload: { tokenIn: SOL, tokenOut: USDC, amount: '1000', ...body },
+  });
+
+beforeEach(() => {
+  db.reset();
+  jest.restoreAllMocks();
+});
+
+describe('Order Routes - Quotes', () => {
+  test('should execute a quote once and refuse it after', async () => {
+    const { app, quoteService, orderProcessor } = await createApp();
+    const quote = await quoteService.createQuote(SOL, USDC, 1000n, 0.02);
+
+    const placed = await placeOrder(app, { quoteId: quote.quoteId });
+    expect(placed.statusCode).toBe(201);
+    expect(orderProcessor.submitOrder).toHaveBeenCalledWith(expect.objectContaining({ slippage: 0.02 }));
+
+    const reused = await placeOrder(app, { quoteId: quote.quoteId });
+    expect(reused.statusCode).toBe(410);
+    expect(db.tables.order).toHaveLength(1);
+  });
+
+  test('should leave the quote of an order the risk limits reject usable', async () => {
+    const { app, quoteService, redis } = await createApp();
+    const quote = await quoteService.createQuote(SOL, USDC, 1000n, 0.02);
+
+    await db.walletRiskLimit.create({ data: { wallet: WALLET, maxOpenOrders: 1 } });
+    await db.order.create({
+      data: { orderId: 'open-order', userWallet: WALLET, tokenIn: SOL, tokenOut: USDC, amountIn: 1n, status: OrderStatus.PENDING, slippage: 0.01 },
+    });
+
+    const rejected = await placeOrder(app, { quoteId: quote.quoteId });
+    expect(rejected.statusCode).toBe(422);
+    expect(redis.values.has(`quote:${quote.quoteId}`)).toBe(true);
+
+    // Once the open order settles, the same quote goes through
+    await db.order.update({ where: { orderId: 'open-order' }, data: { status: OrderStatus.CONFIRMED } });
+    expect((await placeOrder(app, { quoteId: quote.quoteId })).statusCode).toBe(201);
+    expect(redis.values.has(`quote:${quote.quoteId}`)).toBe(false);
+  });
+
+  test('should not use up a quote for an order it does not match', async () => {
+    const { app, quoteService, redis } = await createApp();
+    const quote = await quoteService.createQuote(SOL, USDC, 5000n, 0.02);
+
+    const mismatched = await placeOrder(app, { quoteId: quote.quoteId });
+    expect(mismatched.statusCode).toBe(400);
+    expect(redis.values.has(`quote:${quote.quoteId}`)).toBe(true);
+  });
+});
+
+describe('Order Routes - Idempotency', () => {
+  const withKey = (key: string) => ({ 'idempotency-key': key });
+
+  test('should replay the original order for a retry with the same body', async () => {
+    const { app, orderProcessor } = await createApp();
+
+    const first = await placeOrder(app, { slippage: 0.01 }, withKey('retry-1'));
+    // Same order with its fields in another order
+    const retried = await app.inject({
+      method: 'POST',
+      url: '/api/orders',
+      headers: { authorization: 'Bearer session', ...withKey('retry-1') },
+      payload: { slippage: 0.01, amount: '1000', tokenOut: USDC, tokenIn: SOL },
+    });
+
+    expect(first.statusCode).toBe(201);
+    expect(retried.statusCode).toBe(201);
+    expect(retried.headers['idempotent-replayed']).toBe('true');
+    expect(retried.json().orderId).toBe(first.json().orderId);
+    expect(db.tables.order).toHaveLength(1);
+    expect(orderProcessor.submitOrder).toHaveBeenCalledTimes(1);
+  });
+
+  test('should refuse a key reused with a different body', async () => {
+    const { app } = await createApp();
+
+    await placeOrder(app, {}, withKey('retry-1'));
+    const conflicting = await placeOrder(app, { amount: '2000' }, withKey('retry-1'));
+
+    expect(conflicting.statusCode).toBe(409);
+    expect(conflicting.json().error.code).toBe('IDEMPOTENCY_CONFLICT');
+    expect(db.tables.order).toHaveLength(1);
+  });
+
+  test('should release a key past its window for a new order', async () => {
+    const { app } = await createApp();
+
+    const stale = await placeOrder(app, {}, withKey('retry-1'));
+    db.tables.order[0].createdAt = new Date(Date.now() - (env.IDEMPOTENCY_KEY_TTL_HOURS * 3600 + 60) * 1000);
+
+    const fresh = await placeOrder(app, { amount: '2000' }, withKey('retry-1'));
+
+    expect(fresh.statusCode).toBe(201);
+    expect(fresh.headers['idempotent-replayed']).toBeUndefined();
+    expect(fresh.json().orderId).not.toBe(stale.json().orderId);
+    expect(await db.order.findUnique({ where: { orderId: stale.json().orderId } })).toMatchObject({ idempotencyKey: null });
+  });
+
+  test('should replay the order of a concurrent submission that won the insert', async () => {
+    const { app, orderProcessor } = await createApp();
+    const first = await placeOrder(app, {}, withKey('retry-1'));
+
+    // The retry looks before the first submission is stored, then collides with it on insert
+    jest.spyOn(db.order, 'findUnique').mockResolvedValueOnce(null);
+    const concurrent = await placeOrder(app, {}, withKey('retry-1'));
+
+    expect(concurrent.statusCode).toBe(201);
+    expect(concurrent.headers['idempotent-replayed']).toBe('true');
+    expect(concurrent.json().orderId).toBe(first.json().orderId);
+    expect(db.tables.order).toHaveLength(1);
+    expect(orderProcessor.submitOrder).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(db.order, 'findUnique').mockResolvedValueOnce(null);
+    expect((await placeOrder(app, { amount: '2000' }, withKey('retry-1'))).statusCode).toBe(409);
+  });
+});
+
+describe('Order Routes - Protective Orders', () => {
+  test('should tell the protective order\'s channel when its wallet cancels it', async () => {
+    const { app, wsManager } = await createApp();
+    await db.order.create({
+      data: { orderId: 'parent', userWallet: WALLET, tokenIn: SOL, tokenOut: USDC, amountIn: 1000n, status: OrderStatus.CONFIRMED, slippage: 0.01 },
+    });
+    const stopLoss = await db.protectiveOrder.create({
+      data: { parentOrderId: 'parent', type: ProtectiveOrderType.STOP_LOSS, triggerPrice: 1.6, tokenIn: USDC, tokenOut: SOL, amountIn: 2000n, status: OrderStatus.PENDING, slippage: 0.01 },
+    });
+
+    const cancelled = await app.inject({
+      method: 'DELETE',
+      url: `/api/orders/parent/protective/${stopLoss.id}`,
+      headers: { authorization: 'Bearer session' },
+    });
+
+    expect(cancelled.statusCode).toBe(200);
+    expect(wsManager.broadcastOrderUpdate).toHaveBeenCalledWith(stopLoss.id, {
+      type: OrderStatus.CANCELLED,
+      data: { message: 'Cancelled by user', parentOrderId: 'parent', protectiveType: ProtectiveOrderType.STOP_LOSS },
+    });
+  });
+});
+
+describe('Order Routes - Wallet-Signed Swaps', () => {
+  test('should hand a decoded signed transaction to the processor and refuse anything else', async () => {
+    const { app, orderProcessor } = await createApp();
+    await db.order.create({
+      data: { orderId: 'awaiting', userWallet: WALLET, tokenIn: SOL, tokenOut: USDC, amountIn: 1000n, status: OrderStatus.BUILDING, slippage: 0.01 },
+    });
+
+    const wallet = Keypair.generate();
+    const transaction = new Transaction().add(SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: wallet.publicKey, lamports: 1 }));
+    transaction.recentBlockhash = Keypair.generate().publicKey.toBase58();
+    transaction.sign(wallet);
+
+    const submit = (encoded: string) => app.inject({
+      method: 'POST',
+      url: '/api/orders/awaiting/signed',
+      headers: { authorization: 'Bearer session' },
+      payload: { transaction: encoded },
+    });
+
+    const malformed = await submit(Buffer.from('not a transaction').toString('base64'));
+    expect(malformed.statusCode).toBe(400);
+    expect(orderProcessor.submitSignedTransaction).not.toHaveBeenCalled();
+
+    const accepted = await submit(transaction.serialize().toString('base64'));
+    expect(accepted.statusCode).toBe(202);
+    expect(accepted.json()).toEqual({ orderId: 'awaiting', status: OrderStatus.SUBMITTED, txHash: 'sig-signed' });
+
+    const [orderId, received] = orderProcessor.submitSignedTransaction.mock.calls[0] as [string, Transaction];
+    expect(orderId).toBe('awaiting');
+    expect(received.serialize().equals(transaction.serialize())).toBe(true);
+  });
+});
+
+describe('Order Routes - Wallet Access', () => {
+  const OTHER_WALLET = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+  const seedOrderOf = (orderId: string, userWallet: string) =>
+    db.order.create({
+      data: { orderId, userWallet, tokenIn: SOL, tokenOut: USDC, amountIn: 1000n, status: OrderStatus.PENDING, slippage: 0.01 },
+    });
+
+  // ed25519 signature of message by a wallet's keypair, as a wallet app returns it
+  const signMessage = (wallet: Keypair, message: string) => {
+    const key = createPrivateKey({
+      key: Buffer.concat([Buffer.from('302e020100300506032b657004220420', 'hex'), Buffer.from(wallet.secretKey.slice(0, 32))]),
+      format: 'der',
+      type: 'pkcs8',
+    });
+    return bs58.encode(sign(null, Buffer.from(message, 'utf8'), key));
+  };
+
+  test('should not let a wallet view, cancel or list another wallet\'s orders', async () => {
+    const { app } = await createApp();
+    await seedOrderOf('own-order', WALLET);
+    await seedOrderOf('other-order', OTHER_WALLET);
+    const asWallet = (method: 'GET' | 'DELETE', url: string) =>
+      app.inject({ method, url, headers: { authorization: 'Bearer session' } });
+
+    expect((await asWallet('GET', '/api/orders/other-order')).statusCode).toBe(404);
+    expect((await asWallet('GET', '/api/orders/other-order/events')).statusCode).toBe(404);
+    expect((await asWallet('DELETE', '/api/orders/other-order')).statusCode).toBe(404);
+    expect(await db.order.findUnique({ where: { orderId: 'other-order' } })).toMatchObject({ status: OrderStatus.PENDING });
+
+    const listed = await asWallet('GET', '/api/orders');
+    expect(listed.json().data.map((order: { orderId: string }) => order.orderId)).toEqual(['own-order']);
+    expect((await asWallet('GET', `/api/orders?userWallet=${OTHER_WALLET}`)).statusCode).toBe(403);
+  });
+
+  test('should refuse a WebSocket subscription to another wallet\'s order or its protective orders', async () => {
+    const { app } = await createApp();
+    await seedOrderOf('other-order', OTHER_WALLET);
+    const stopLoss = await db.protectiveOrder.create({
+      data: { parentOrderId: 'other-order', type: ProtectiveOrderType.STOP_LOSS, triggerPrice: 1.6, tokenIn: USDC, tokenOut: SOL, amountIn: 2000n, status: OrderStatus.PENDING, slippage: 0.01 },
+    });
+
+    const address = await app.listen({ port: 0, host: '127.0.0.1' });
+
+    for (const channel of ['other-order', stopLoss.id]) {
+      const socket = new WebSocket(`${address.replace('http', 'ws')}/ws/${channel}?token=session`);
+      const messages: { type: string; error?: string }[] = [];
+      socket.on('message', (data) => messages.push(JSON.parse(data.toString())));
+
+      const code = await new Promise((resolve) => socket.on('close', resolve));
+
+      expect(code).toBe(1008);
+      expect(messages).toEqual([expect.objectContaining({ type: 'error', error: `Order not found: ${channel}` })]);
+    }
+
+    await app.close();
+  });
+
+  test('should sign a wallet in with a nonce only once', async () => {
+    const { app } = await createApp();
+    const wallet = Keypair.generate();
+
+    const challenge = (await app.inject({ method: 'POST', url: '/api/auth/nonce', payload: { wallet: wallet.publicKey.toBase58() } })).json();
+    const signIn = {
+      wallet: wallet.publicKey.toBase58(),
+      nonce: challenge.nonce,
+      signature: signMessage(wallet, challenge.message),
+    };
+
+    const session = await app.inject({ method: 'POST', url: '/api/auth/verify', payload: signIn });
+    expect(session.statusCode).toBe(200);
+    expect(session.json().wallet).toBe(wallet.publicKey.toBase58());
+
+    const replayed = await app.inject({ method: 'POST', url: '/api/auth/verify', payload: signIn });
+    expect(replayed.statusCode).toBe(401);
+    expect(replayed.json().error.message).toBe('Sign-in challenge not found or expired');
+
+    // The session works for the orders API
+    const listed = await app.inject({ method: 'GET', url: '/api/orders', headers: { authorization: `Bearer ${session.json().token}` } });
+    expect(listed.statusCode).toBe(200);
+  });
+
+  test('should turn away anonymous calls when sign-in is required', async () => {
+    const { app } = await createApp();
+    await seedOrderOf('other-order', OTHER_WALLET);
+
+    jest.replaceProperty(env, 'AUTH_REQUIRED', true);
+    expect((await app.inject({ method: 'GET', url: '/api/orders/other-order' })).statusCode).toBe(401);
+    expect((await app.inject({ method: 'GET', url: '/api/orders' })).statusCode).toBe(401);
+    expect((await placeOrder(app, {}, { authorization: '' })).statusCode).toBe(401);
+
+    // Without the requirement, an anonymous caller acts for no wallet in particular
+    jest.replaceProperty(env, 'AUTH_REQUIRED', false);
+    expect((await app.inject({ method: 'GET', url: '/api/orders/other-order' })).statusCode).toBe(200);
+  });
+});
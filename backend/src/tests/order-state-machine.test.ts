@@ -0,0 +1,56 @@
+import { OrderStatus, OrderType } from '@prisma/client';
+import { canReplay, canTransition, getAllowedTransitions, isFinalStatus } from '../utils/order-state-machine';
+
+describe('Order State Machine', () => {
+  const allStatuses = Object.values(OrderStatus);
+
+  test('should walk the happy path and retry through RETRYING', () => {
+    const path = [
+      OrderStatus.PENDING,
+      OrderStatus.ROUTING,
+      OrderStatus.RETRYING,
+      OrderStatus.ROUTING,
+      OrderStatus.BUILDING,
+      OrderStatus.SUBMITTED,
+      OrderStatus.CONFIRMED,
+    ];
+
+    for (let i = 1; i < path.length; i++) {
+      expect(canTransition(path[i - 1], path[i])).toBe(true);
+    }
+  });
+
+  test('should never leave a final status', () => {
+    for (const status of [OrderStatus.CONFIRMED, OrderStatus.FAILED, OrderStatus.CANCELLED, OrderStatus.EXPIRED]) {
+      expect(isFinalStatus(status)).toBe(true);
+
+      for (const to of allStatuses) {
+        expect(canTransition(status, to)).toBe(false);
+        expect(canTransition(status, to, OrderType.TWAP)).toBe(false);
+      }
+    }
+  });
+
+  test('should not cancel once a swap is building or submitted', () => {
+    expect(canTransition(OrderStatus.BUILDING, OrderStatus.CANCELLED)).toBe(false);
+    expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CANCELLED)).toBe(false);
+    expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.ROUTING)).toBe(false);
+    expect(canTransition(OrderStatus.FAILED, OrderStatus.ROUTING)).toBe(false);
+  });
+
+  test('should only replay FAILED orders, from PENDING', () => {
+    expect(canReplay(OrderStatus.FAILED, OrderStatus.PENDING)).toBe(true);
+    expect(canReplay(OrderStatus.FAILED, OrderStatus.ROUTING)).toBe(false);
+    expect(canReplay(OrderStatus.CONFIRMED, OrderStatus.PENDING)).toBe(false);
+    expect(canReplay(OrderStatus.SUBMITTED, OrderStatus.PENDING)).toBe(false);
+  });
+
+  test('should let TWAP parents fill from PENDING and cancel between slices', () => {
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.SUBMITTED)).toBe(false);
+    expect(canTransition(OrderStatus.PENDING, OrderStatus.SUBMITTED, OrderType.TWAP)).toBe(true);
+    expect(canTransition(OrderStatus.SUBMITTED, OrderStatus.CANCELLED, OrderType.TWAP)).toBe(true);
+    expect(getAllowedTransitions(OrderStatus.SUBMITTED, OrderType.TWAP)).toEqual(
+      expect.arrayContaining([OrderStatus.CONFIRMED, OrderStatus.FAILED, OrderStatus.CANCELLED])
+    );
+  });
+});
@@ -0,0 +1,305 @@
+import { OrderStatus, ProtectiveOrderType } from '@prisma/client';
+import { prisma } from '../config/database';
+import { ProtectiveOrderWatcher } from '../services/protective-order-watcher';
+import { OrderReconciler } from '../services/order-reconciler';
+import type { OrderProcessor } from '../services/order-processor';
+import type { AggregateDexRouter } from '../services/dex-router';
+import type { TransactionService } from '../services/transaction-service';
+import type { ExecutionResult, Quote, SubmissionHook, SubmissionOutcome } from '../types';
+import type { FakePrisma } from './fake-prisma';
+import { SOL, USDC, WALLET, createBroadcastRecorder, createQuote } from './fixtures';
+
+jest.mock('bullmq', () => require('./fake-bullmq'));
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+const db = prisma as unknown as FakePrisma;
+
+/**
+ * Router stand-in quoting the reverse swap (USDC -> SOL) so the parent's mark price is `markPrice`
+ */
+function createRouter(markPrice: number) {
+  const router = {
+    markPrice,
+    getQuotes: jest.fn(async (tokenIn: string, tokenOut: string, amount: bigint): Promise<Quote[]> => [
+      createQuote(tokenIn, tokenOut, amount, 1 / router.markPrice),
+    ]),
+    selectBestQuote: jest.fn((quotes: Quote[]) => quotes[0] ?? null),
+    executeSwap: jest.fn(async (quote: Quote, _slippage: number, _min?: bigint, onSubmitted?: SubmissionHook): Promise<ExecutionResult> => {
+      await onSubmitted?.({ signature: 'sig-protective', lastValidBlockHeight: 1150 });
+      return { signature: 'sig-protective', executedPrice: quote.price, executedAmount: quote.outputAmount, dex: quote.dex };
+    }),
+    getSettledAmount: jest.fn(async (..._args: unknown[]): Promise<bigint | null> => null),
+  };
+
+  return router;
+}
+
+type FakeRouter = ReturnType<typeof createRouter>;
+
+function createWatcher(router: FakeRouter, outcome: SubmissionOutcome = 'confirmed') {
+  const { wsManager, broadcasts } = createBroadcastRecorder();
+  const transactionService = { getSubmissionOutcome: jest.fn(async () => outcome) };
+
+  const watcher = new ProtectiveOrderWatcher(
+    router as unknown as AggregateDexRouter,
+    wsManager,
+    transactionService as unknown as TransactionService,
+    60_000
+  );
+
+  return { watcher, broadcasts, transactionService };
+}
+
+// A confirmed SOL -> USDC parent filled at 2 USDC per SOL
+async function seedParent(overrides: Record<string, unknown> = {}) {
+  return db.order.create({
+    data: {
+      orderId: `parent-${Math.random().toString(36).slice(2)}`,
+      userWallet: WALLET,
+      tokenIn: SOL,
+      tokenOut: USDC,
+      amountIn: 1000n,
+      amountOut: 2000n,
+      executedPrice: 2,
+      status: OrderStatus.CONFIRMED,
+      slippage: 0.01,
+      ...overrides,
+    },
+  });
+}
+
+async function seedProtective(parentOrderId: string, type: ProtectiveOrderType, triggerPrice: number, overrides: Record<string, unknown> = {}) {
+  return db.protectiveOrder.create({
+    data: {
+      parentOrderId,
+      type,
+      triggerPrice,
+      tokenIn: USDC,
+      tokenOut: SOL,
+      amountIn: 2000n,
+      status: OrderStatus.PENDING,
+      slippage: 0.01,
+      ...overrides,
+    },
+  });
+}
+
+const getProtective = (id: string) => db.protectiveOrder.findUnique({ where: { id } });
+
+beforeEach(() => {
+  db.reset();
+});
+
+describe('Protective Order Watcher - Crash Safety', () => {
+  test('should record the signature as SUBMITTED before the swap is sent', async () => {
+    const router = createRouter(1.5);
+    const { watcher } = createWatcher(router);
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+
+    let atSend: { status: OrderStatus; txHash: string | null; lastValidBlockHeight: bigint | null } | null = null;
+    router.executeSwap.mockImplementationOnce(async (_quote, _slippage, _min, onSubmitted) => {
+      await onSubmitted?.({ signature: 'sig-protective', lastValidBlockHeight: 1150 });
+      atSend = await getProtective(stopLoss.id);
+      throw new Error('Worker died waiting for confirmation');
+    });
+
+    await watcher.poll();
+
+    expect(atSend).toMatchObject({ status: OrderStatus.SUBMITTED, txHash: 'sig-protective', lastValidBlockHeight: 1150n });
+    // The swap may still land, so it is left for reconciliation instead of FAILED
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.SUBMITTED, txHash: 'sig-protective' });
+  });
+
+  test('should confirm an interrupted swap that landed with the amount it delivered and cancel its sibling', async () => {
+    const router = createRouter(1.5);
+    const { watcher } = createWatcher(router, 'confirmed');
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6, {
+      status: OrderStatus.SUBMITTED,
+      selectedDex: 'RAYDIUM',
+      txHash: 'sig-landed',
+      lastValidBlockHeight: 1150n,
+      expectedAmountOut: 1333n,
+    });
+    const takeProfit = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    router.getSettledAmount.mockResolvedValueOnce(1300n);
+
+    expect(await watcher.reconcileOrder(stopLoss.id)).toBe('settled');
+
+    expect(router.getSettledAmount).toHaveBeenCalledWith('RAYDIUM', 'sig-landed', SOL);
+    const settled = await getProtective(stopLoss.id);
+    expect(settled).toMatchObject({ status: OrderStatus.CONFIRMED, amountOut: 1300n, txHash: 'sig-landed' });
+    expect(settled.executedPrice.toNumber()).toBeCloseTo(0.65, 6);
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.CANCELLED });
+  });
+
+  test('should re-arm an order that was interrupted before anything was swapped', async () => {
+    const { watcher } = createWatcher(createRouter(1.5), 'dropped');
+    const parent = await seedParent();
+    const dropped = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6, {
+      status: OrderStatus.SUBMITTED,
+      txHash: 'sig-dropped',
+      lastValidBlockHeight: 1150n,
+      triggeredAt: new Date(),
+    });
+    const claimed = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5, {
+      status: OrderStatus.ROUTING,
+      triggeredAt: new Date(),
+    });
+
+    expect(await watcher.reconcileOrder(dropped.id)).toBe('resume');
+    expect(await watcher.reconcileOrder(claimed.id)).toBe('resume');
+
+    expect(await getProtective(dropped.id)).toMatchObject({
+      status: OrderStatus.PENDING,
+      txHash: null,
+      triggeredAt: null,
+      errorMessage: 'Transaction sig-dropped did not land',
+    });
+    expect(await getProtective(claimed.id)).toMatchObject({
+      status: OrderStatus.PENDING,
+      errorMessage: 'Interrupted before a swap was sent',
+    });
+  });
+
+  test('should have the reconciler settle protective orders left mid-swap', async () => {
+    const router = createRouter(1.5);
+    const { watcher } = createWatcher(router, 'pending');
+    const orderProcessor = { hasLiveJob: jest.fn(async () => false) } as unknown as OrderProcessor;
+    const parent = await seedParent();
+
+    const stale = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6, {
+      status: OrderStatus.BUILDING,
+      updatedAt: new Date(Date.now() - 3600_000),
+    });
+    const fresh = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5, { status: OrderStatus.BUILDING });
+
+    await new OrderReconciler(orderProcessor, watcher, 30_000, 120_000).poll();
+
+    expect(await getProtective(stale.id)).toMatchObject({ status: OrderStatus.PENDING });
+    expect(await getProtective(fresh.id)).toMatchObject({ status: OrderStatus.BUILDING });
+  });
+});
+
+describe('Protective Order Watcher - Triggers', () => {
+  test('should fire a stop-loss below its trigger and a take-profit above it', async () => {
+    const router = createRouter(2);
+    const { watcher } = createWatcher(router);
+    const stopLossParent = await seedParent();
+    const takeProfitParent = await seedParent();
+    const stopLoss = await seedProtective(stopLossParent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+    const takeProfit = await seedProtective(takeProfitParent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    // Between the two triggers: neither fires
+    await watcher.poll();
+    expect(router.executeSwap).not.toHaveBeenCalled();
+
+    router.markPrice = 1.5;
+    await watcher.poll();
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.CONFIRMED, txHash: 'sig-protective' });
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.PENDING });
+
+    router.markPrice = 3;
+    await watcher.poll();
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.CONFIRMED });
+    expect(router.executeSwap).toHaveBeenCalledTimes(2);
+  });
+
+  test('should cancel the other order on the parent when one fires', async () => {
+    const router = createRouter(1.5);
+    const { watcher, broadcasts } = createWatcher(router);
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+    const takeProfit = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    await watcher.poll();
+
+    const fired = await getProtective(stopLoss.id);
+    expect(fired).toMatchObject({ status: OrderStatus.CONFIRMED, amountOut: 1333n, selectedDex: 'RAYDIUM' });
+    expect(fired.triggeredAt).toBeInstanceOf(Date);
+    expect(await getProtective(takeProfit.id)).toMatchObject({
+      status: OrderStatus.CANCELLED,
+      errorMessage: `Cancelled: STOP_LOSS ${stopLoss.id} triggered`,
+    });
+
+    expect(broadcasts.filter((update) => update.id === stopLoss.id).map((update) => update.type)).toEqual([
+      OrderStatus.ROUTING,
+      OrderStatus.BUILDING,
+      OrderStatus.SUBMITTED,
+      OrderStatus.CONFIRMED,
+    ]);
+    expect(broadcasts.filter((update) => update.id === takeProfit.id).map((update) => update.type)).toEqual([OrderStatus.CANCELLED]);
+
+    // The parent is unwound once; a mark back above the take-profit fires nothing
+    router.markPrice = 3;
+    await watcher.poll();
+    expect(router.executeSwap).toHaveBeenCalledTimes(1);
+  });
+
+  test('should fail an order whose swap could not be sent, leaving its sibling armed', async () => {
+    const router = createRouter(1.5);
+    const { watcher, broadcasts } = createWatcher(router);
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+    const takeProfit = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    router.executeSwap.mockRejectedValueOnce(new Error('Pool not found for token pair'));
+    await watcher.poll();
+
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.FAILED, errorMessage: 'Pool not found for token pair' });
+    expect(broadcasts.filter((update) => update.id === stopLoss.id).map((update) => update.type).pop()).toBe(OrderStatus.FAILED);
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.PENDING });
+  });
+
+  test('should keep the position protected by the sibling after a swap that was never sent', async () => {
+    const router = createRouter(1.5);
+    const { watcher } = createWatcher(router);
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+    const takeProfit = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    // Fails while building, before a signature exists
+    router.executeSwap.mockRejectedValueOnce(new Error('Blockhash not found'));
+    await watcher.poll();
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.FAILED });
+
+    // The price recovers past the take-profit, which still unwinds the parent
+    router.markPrice = 3;
+    await watcher.poll();
+
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.CONFIRMED, txHash: 'sig-protective' });
+    expect(router.executeSwap).toHaveBeenCalledTimes(2);
+  });
+
+  test('should not fire an order while its sibling\'s swap is in flight', async () => {
+    const router = createRouter(3);
+    const { watcher } = createWatcher(router);
+    const parent = await seedParent();
+    await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6, { status: OrderStatus.SUBMITTED, txHash: 'sig-in-flight' });
+    const takeProfit = await seedProtective(parent.orderId, ProtectiveOrderType.TAKE_PROFIT, 2.5);
+
+    await watcher.poll();
+
+    expect(router.executeSwap).not.toHaveBeenCalled();
+    expect(await getProtective(takeProfit.id)).toMatchObject({ status: OrderStatus.PENDING });
+  });
+
+  test('should keep watching an order it could not quote', async () => {
+    const router = createRouter(1.5);
+    const { watcher } = createWatcher(router);
+    const parent = await seedParent();
+    const stopLoss = await seedProtective(parent.orderId, ProtectiveOrderType.STOP_LOSS, 1.6);
+
+    router.getQuotes.mockRejectedValueOnce(new Error('Network error: connection reset'));
+    await watcher.poll();
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.PENDING });
+
+    await watcher.poll();
+    expect(await getProtective(stopLoss.id)).toMatchObject({ status: OrderStatus.CONFIRMED });
+  });
+});
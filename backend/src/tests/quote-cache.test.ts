@@ -0,0 +1,119 @@
+import { Connection, Keypair, Transaction } from '@solana/web3.js';
+import type { Redis } from 'ioredis';
+import { AggregateDexRouter } from '../services/dex-router';
+import { DexAdapterRegistry } from '../services/dex-adapter';
+import type { DexAdapter } from '../services/dex-adapter';
+import { QuoteCache } from '../services/quote-cache';
+import type { Quote } from '../types';
+
+/**
+ * In-memory stand-in for the few Redis commands the cache uses (TTL not modelled)
+ */
+function createMemoryRedis(): Redis {
+  const store = new Map<string, string>();
+
+  return {
+    get: async (key: string) => store.get(key) ?? null,
+    set: async (key: string, value: string) => {
+      store.set(key, value);
+      return 'OK';
+    },
+    incr: async (key: string) => {
+      const next = Number(store.get(key) ?? '0') + 1;
+      store.set(key, next.toString());
+      return next;
+    },
+  } as unknown as Redis;
+}
+
+describe('Quote Cache', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const amount = BigInt(1000000000); // 1 SOL
+
+  // Venue priced at 100 USDC per SOL that moves 1% against each executed swap
+  const pool = { rate: 100_000_000n, quoteCalls: 0 };
+  const venue: DexAdapter = {
+    dex: 'RAYDIUM',
+    initialize: async () => {},
+    quote: async (tokenIn, tokenOut, inputAmount) => {
+      pool.quoteCalls++;
+      const outputAmount = (inputAmount * pool.rate) / amount;
+
+      return [{
+        dex: 'RAYDIUM',
+        inputAmount,
+        outputAmount,
+        price: Number(outputAmount) / Number(inputAmount),
+        fee: 0.0025,
+        poolId: 'stub-pool',
+        slippage: 0.01,
+        tokenIn,
+        tokenOut,
+      }];
+    },
+    buildSwap: async () => new Transaction(),
+    execute: async (quote: Quote) => {
+      pool.rate = (pool.rate * 99n) / 100n;
+      return { signature: 'stub-signature', executedPrice: quote.price, executedAmount: quote.outputAmount, dex: 'RAYDIUM' };
+    },
+    listPools: async () => [],
+    health: async () => ({ dex: 'RAYDIUM', healthy: true, pools: 1 }),
+  };
+
+  let router: AggregateDexRouter;
+  let cache: QuoteCache;
+
+  beforeAll(async () => {
+    const connection = new Connection('https://api.devnet.solana.com', 'confirmed');
+    router = new AggregateDexRouter(new DexAdapterRegistry().register(venue), connection, Keypair.generate());
+    await router.initialize();
+  });
+
+  beforeEach(() => {
+    pool.rate = 100_000_000n;
+    pool.quoteCalls = 0;
+    cache = new QuoteCache(createMemoryRedis(), 2000, 50);
+    router.useQuoteCache(cache);
+  });
+
+  test('should share one venue fan-out between concurrent requests', async () => {
+    const results = await Promise.all(Array.from({ length: 5 }, () => router.getQuotes(SOL, USDC, amount)));
+
+    expect(pool.quoteCalls).toBe(1);
+    expect(results.every((quotes) => quotes[0].outputAmount === 100_000_000n)).toBe(true);
+    expect(cache.getMetrics()).toMatchObject({ misses: 1, coalesced: 4, hits: 0 });
+  });
+
+  test('should serve nearby amounts from the cache, scaled to the requested amount', async () => {
+    await router.getQuotes(SOL, USDC, amount);
+    const [quote] = await router.getQuotes(SOL, USDC, amount + 1_000_000n); // 0.1% larger
+
+    expect(pool.quoteCalls).toBe(1);
+    expect(quote.inputAmount).toBe(amount + 1_000_000n);
+    expect(quote.outputAmount).toBe(100_100_000n);
+
+    // Far outside the 0.5% bucket, so the venues are asked again
+    await router.getQuotes(SOL, USDC, amount * 2n);
+    expect(pool.quoteCalls).toBe(2);
+  });
+
+  test('should refetch after a swap moves the pool', async () => {
+    const quote = await router.getBestQuote(SOL, USDC, amount);
+    await router.executeSwap(quote, 0.01);
+
+    const [fresh] = await router.getQuotes(SOL, USDC, amount);
+
+    expect(fresh.outputAmount).toBe(99_000_000n);
+    expect(cache.getMetrics()).toMatchObject({ invalidations: 1, misses: 2 });
+  });
+
+  test('should report hit rate across hits, misses and coalesced requests', async () => {
+    await router.getQuotes(SOL, USDC, amount);
+    await router.getQuotes(SOL, USDC, amount);
+    await router.getQuotes(SOL, USDC, amount);
+    await router.getQuotes(USDC, SOL, 100_000_000n);
+
+    expect(cache.getMetrics()).toEqual({ hits: 2, misses: 2, coalesced: 0, invalidations: 0, hitRate: 0.5 });
+  });
+});
@@ -0,0 +1,139 @@
+import { OrderStatus } from '@prisma/client';
+import { prisma } from '../config/database';
+import { RiskManager } from '../services/risk-manager';
+import type { AggregateDexRouter } from '../services/dex-router';
+import { RiskLimitError } from '../utils/errors';
+import { checkRiskLimits, checkTradeLimits, needsNotional } from '../utils/risk-limits';
+import type { RiskCheckOrder, RiskLimits, RiskUsage } from '../utils/risk-limits';
+import type { FakePrisma } from './fake-prisma';
+
+jest.mock('../config/database', () => {
+  const { FakePrisma } = require('./fake-prisma');
+  return { prisma: new FakePrisma(), redis: { quit: async () => 'OK' } };
+});
+
+describe('Risk Limits', () => {
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+
+  const limits: RiskLimits = {
+    maxOrderNotional: 1_000_000_000n, // 1,000 USDC
+    maxDailyNotional: 5_000_000_000n,
+    maxOpenOrders: 3,
+    maxSlippage: 0.05,
+    allowedTokens: [SOL, USDC],
+  };
+  const usage: RiskUsage = { dailyNotional: 4_500_000_000n, openOrders: 2 };
+  const order: RiskCheckOrder = { tokenIn: SOL, tokenOut: USDC, slippage: 0.01, notional: 400_000_000n };
+
+  const rejectionCode = (fn: () => void): string | null => {
+    try {
+      fn();
+      return null;
+    } catch (error) {
+      expect(error).toBeInstanceOf(RiskLimitError);
+      return (error as RiskLimitError).code;
+    }
+  };
+
+  test('should accept an order within every limit', () => {
+    expect(() => checkRiskLimits(order, limits, usage)).not.toThrow();
+  });
+
+  test('should reject each breached limit with its own code', () => {
+    expect(rejectionCode(() => checkRiskLimits({ ...order, tokenOut: BONK }, limits, usage))).toBe('RISK_TOKEN_NOT_ALLOWED');
+    expect(rejectionCode(() => checkRiskLimits({ ...order, slippage: 0.1 }, limits, usage))).toBe('RISK_MAX_SLIPPAGE');
+    expect(rejectionCode(() => checkRiskLimits(order, limits, { ...usage, openOrders: 3 }))).toBe('RISK_MAX_OPEN_ORDERS');
+    expect(rejectionCode(() => checkRiskLimits({ ...order, notional: 1_000_000_001n }, limits, { ...usage, dailyNotional: 0n })))
+      .toBe('RISK_MAX_ORDER_NOTIONAL');
+    expect(rejectionCode(() => checkRiskLimits({ ...order, notional: 600_000_000n }, limits, usage))).toBe('RISK_MAX_DAILY_NOTIONAL');
+  });
+
+  test('should allow up to the daily limit exactly', () => {
+    expect(() => checkRiskLimits({ ...order, notional: 500_000_000n }, limits, usage)).not.toThrow();
+  });
+
+  test('should skip limits that are unset', () => {
+    const unlimited: RiskLimits = {
+      maxOrderNotional: null,
+      maxDailyNotional: null,
+      maxOpenOrders: null,
+      maxSlippage: 0.05,
+      allowedTokens: [],
+    };
+
+    expect(needsNotional(unlimited)).toBe(false);
+    expect(needsNotional(limits)).toBe(true);
+    expect(() => checkRiskLimits({ ...order, tokenOut: BONK, notional: null }, unlimited, { dailyNotional: 0n, openOrders: 100 }))
+      .not.toThrow();
+  });
+
+  test('should hold a swap to its tokens and slippage alone', () => {
+    expect(() => checkTradeLimits({ tokenIn: USDC, tokenOut: SOL, slippage: 0.05 }, limits)).not.toThrow();
+    expect(rejectionCode(() => checkTradeLimits({ tokenIn: BONK, tokenOut: SOL, slippage: 0.01 }, limits))).toBe('RISK_TOKEN_NOT_ALLOWED');
+    expect(rejectionCode(() => checkTradeLimits({ tokenIn: USDC, tokenOut: SOL, slippage: 0.06 }, limits))).toBe('RISK_MAX_SLIPPAGE');
+  });
+});
+
+describe('Risk Manager - Order Placement', () => {
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU'; // The notional token, so orders in it need no pricing
+  const SOL = 'So11111111111111111111111111111111111111112';
+  const WALLET = '7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU';
+  const db = prisma as unknown as FakePrisma;
+
+  const riskManager = new RiskManager({} as AggregateDexRouter);
+
+  const place = (amount: bigint) =>
+    riskManager.placeOrder(WALLET, { tokenIn: USDC, tokenOut: SOL, amount, slippage: 0.01 }, (tx, notional) =>
+      tx.order.create({
+        data: {
+          orderId: `order-${amount}-${Math.random()}`,
+          userWallet: WALLET,
+          tokenIn: USDC,
+          tokenOut: SOL,
+          amountIn: amount,
+          notional,
+          status: OrderStatus.PENDING,
+          slippage: 0.01,
+        },
+      })
+    );
+
+  beforeEach(() => {
+    db.reset();
+  });
+
+  test('should count each concurrent order against the ones placed before it', async () => {
+    await db.walletRiskLimit.create({ data: { wallet: WALLET, maxDailyNotional: 250n } });
+
+    const results = await Promise.allSettled([place(100n), place(100n), place(100n)]);
+
+    expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(2);
+    const [rejected] = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+    expect(rejected.reason).toMatchObject({ code: 'RISK_MAX_DAILY_NOTIONAL' });
+
+    expect(db.tables.order.map((order) => order.notional)).toEqual([100n, 100n]);
+    // Each placement locked the wallet for its transaction
+    expect(db.rawQueries.filter((query) => query.includes('pg_advisory_xact_lock'))).toHaveLength(3);
+  });
+
+  test('should store nothing for an order the limits reject', async () => {
+    await db.walletRiskLimit.create({ data: { wallet: WALLET, maxOpenOrders: 1 } });
+
+    await place(100n);
+    await expect(place(100n)).rejects.toMatchObject({ code: 'RISK_MAX_OPEN_ORDERS' });
+
+    expect(db.tables.order).toHaveLength(1);
+  });
+
+  test('should check protective orders against tokens and slippage but not usage', async () => {
+    await db.walletRiskLimit.create({ data: { wallet: WALLET, maxOpenOrders: 1, maxSlippage: 0.02, allowedTokens: [USDC, SOL] } });
+    await place(100n);
+
+    // The wallet is at its open-order limit, yet may still protect its fill
+    await expect(riskManager.checkProtectiveOrder(WALLET, { tokenIn: SOL, tokenOut: USDC, slippage: 0.02 })).resolves.toBeUndefined();
+    await expect(riskManager.checkProtectiveOrder(WALLET, { tokenIn: SOL, tokenOut: USDC, slippage: 0.03 }))
+      .rejects.toMatchObject({ code: 'RISK_MAX_SLIPPAGE' });
+  });
+});
@@ -0,0 +1,196 @@
+import bs58 from 'bs58';
+import BN from 'bn.js';
+import { Connection, Keypair, PublicKey, SystemInstruction, SystemProgram, Transaction } from '@solana/web3.js';
+import { Raydium } from '@raydium-io/raydium-sdk-v2';
+import DLMM, { getPriceOfBinByBinId } from '@meteora-ag/dlmm';
+import { RaydiumAmmAdapter } from '../services/adapters/raydium-amm-adapter';
+import { MeteoraDlmmAdapter } from '../services/adapters/meteora-dlmm-adapter';
+import type { Quote } from '../types';
+
+jest.mock('@raydium-io/raydium-sdk-v2', () => ({
+  Raydium: { load: jest.fn() },
+  TxVersion: { LEGACY: 0 },
+}));
+
+jest.mock('@meteora-ag/dlmm', () => ({
+  __esModule: true,
+  default: { create: jest.fn() },
+  getPriceOfBinByBinId: jest.fn(),
+}));
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+
+/**
+ * Stand-in chain where a swap pays out twice its input into the wallet's one output account
+ * Every swap is sent before any confirms, so all of them have landed by the time each
+ * one reads its outcome, and the account balance holds their combined output
+ */
+function createChain(owner: PublicKey, inFlight: number): Connection {
+  let balance = 1_000_000n;
+  let sent = 0;
+  let allSent: () => void;
+  const sending = new Promise<void>((resolve) => (allSent = resolve));
+  const metas = new Map<string, object>();
+
+  const tokenBalances = (amount: bigint) => [
+    { accountIndex: 1, mint: USDC, owner: owner.toBase58(), uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null } },
+  ];
+
+  return {
+    getLatestBlockhash: async () => ({ blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1150 }),
+    sendRawTransaction: async (raw: Buffer) => {
+      const transaction = Transaction.from(raw);
+      const signature = bs58.encode(transaction.signature!);
+      const received = BigInt(SystemInstruction.decodeTransfer(transaction.instructions[0]).lamports) * 2n;
+
+      metas.set(signature, { err: null, preTokenBalances: tokenBalances(balance), postTokenBalances: tokenBalances(balance + received) });
+      balance += received;
+
+      if (++sent === inFlight) {
+        allSent();
+      }
+      return signature;
+    },
+    confirmTransaction: async () => {
+      await sending;
+      return { context: { slot: 1 }, value: { err: null } };
+    },
+    getTokenAccountBalance: async () => ({ value: { amount: balance.toString() } }),
+    getTransaction: async (signature: string) => ({ meta: metas.get(signature) ?? null }),
+  } as unknown as Connection;
+}
+
+// Every SDK "swap" here is a transfer carrying the input amount, which the chain pays out on
+const swapTransaction = (owner: PublicKey, amountIn: BN) =>
+  new Transaction().add(SystemProgram.transfer({ fromPubkey: owner, toPubkey: owner, lamports: BigInt(amountIn.toString()) }));
+
+const quote = (dex: Quote['dex'], inputAmount: bigint): Quote => ({
+  dex,
+  inputAmount,
+  outputAmount: inputAmount * 2n,
+  price: 2,
+  fee: 0.0025,
+  poolId: 'pool-1',
+  slippage: 0.01,
+  tokenIn: SOL,
+  tokenOut: USDC,
+});
+
+describe('Raydium AMM Adapter - Execution', () => {
+  const wallet = Keypair.generate();
+
+  beforeEach(() => {
+    (Raydium.load as jest.Mock).mockResolvedValue({
+      liquidity: {
+        getPoolInfoFromRpc: async () => ({
+          poolInfo: { mintA: { address: SOL }, mintB: { address: USDC }, feeRate: 0.0025 },
+          poolKeys: {},
+        }),
+        swap: async ({ amountIn }: { amountIn: BN }) => ({ transaction: swapTransaction(wallet.publicKey, amountIn), signers: [] }),
+      },
+    });
+  });
+
+  test('should report each concurrent swap\'s own output from its transaction', async () => {
+    const adapter = new RaydiumAmmAdapter(createChain(wallet.publicKey, 2), wallet, ['pool-1']);
+    await adapter.initialize();
+
+    const [first, second] = await Promise.all([
+      adapter.execute(quote('RAYDIUM', 100n), 0.01),
+      adapter.execute(quote('RAYDIUM', 300n), 0.01),
+    ]);
+
+    expect(first.executedAmount).toBe(200n);
+    expect(second.executedAmount).toBe(600n);
+    expect(first.executedPrice).toBe(2);
+  });
+
+  test('should record the signature before reading the swap\'s outcome', async () => {
+    const adapter = new RaydiumAmmAdapter(createChain(wallet.publicKey, 1), wallet, ['pool-1']);
+    await adapter.initialize();
+
+    const submitted: string[] = [];
+    const result = await adapter.execute(quote('RAYDIUM', 50n), 0.01, async ({ signature }) => {
+      submitted.push(signature);
+    });
+
+    expect(submitted).toEqual([result.signature]);
+    expect(result.executedAmount).toBe(100n);
+  });
+
+  test('should read a landed swap\'s output again from its signature alone', async () => {
+    const adapter = new RaydiumAmmAdapter(createChain(wallet.publicKey, 1), wallet, ['pool-1']);
+    await adapter.initialize();
+
+    const { signature } = await adapter.execute(quote('RAYDIUM', 70n), 0.01);
+
+    expect(await adapter.getReceivedAmount(signature, USDC)).toBe(140n);
+    expect(await adapter.getReceivedAmount(signature, SOL)).toBe(0n);
+  });
+});
+
+describe('Meteora DLMM Adapter - Execution', () => {
+  const wallet = Keypair.generate();
+
+  beforeEach(() => {
+    (DLMM.create as jest.Mock).mockResolvedValue({
+      pubkey: Keypair.generate().publicKey,
+      tokenX: { publicKey: new PublicKey(SOL) },
+      tokenY: { publicKey: new PublicKey(USDC) },
+      refetchStates: async () => undefined,
+      getBinArrayForSwap: async () => [],
+      swapQuote: () => ({ minOutAmount: new BN(0), binArraysPubkey: [] }),
+      swap: async ({ inAmount, user }: { inAmount: BN; user: PublicKey }) => swapTransaction(user, inAmount),
+    });
+  });
+
+  test('should report each concurrent swap\'s own output from its transaction', async () => {
+    const poolId = Keypair.generate().publicKey.toBase58();
+    const adapter = new MeteoraDlmmAdapter(createChain(wallet.publicKey, 2), wallet, [poolId]);
+    await adapter.initialize();
+
+    const [first, second] = await Promise.all([
+      adapter.execute({ ...quote('METEORA', 100n), poolId }, 0.01),
+      adapter.execute({ ...quote('METEORA', 300n), poolId }, 0.01),
+    ]);
+
+    expect(first.executedAmount).toBe(200n);
+    expect(second.executedAmount).toBe(600n);
+  });
+});
+
+describe('Meteora DLMM Adapter - Quotes', () => {
+  const wallet = Keypair.generate();
+
+  // LB pair whose fetched bins fill a swap at 2 USDC per SOL, or cannot fill it at all
+  const lbPair = (filled: boolean) => ({
+    pubkey: Keypair.generate().publicKey,
+    tokenX: { publicKey: new PublicKey(SOL) },
+    tokenY: { publicKey: new PublicKey(USDC) },
+    lbPair: { binStep: 10, activeId: 0 },
+    refetchStates: async () => undefined,
+    getBinArrayForSwap: async () => [],
+    getFeeInfo: () => ({ baseFeeRatePercentage: { toNumber: () => 0.25 } }),
+    swapQuote: (inAmount: BN) => {
+      if (!filled) {
+        throw new Error('Insufficient liquidity in binArrays for swapQuote');
+      }
+      return { outAmount: inAmount.muln(2), endPrice: { toNumber: () => 1 } };
+    },
+  });
+
+  test('should skip a pool without the liquidity for the amount and quote the rest', async () => {
+    (getPriceOfBinByBinId as jest.Mock).mockReturnValue({ toNumber: () => 1 });
+    (DLMM.create as jest.Mock).mockResolvedValueOnce(lbPair(false)).mockResolvedValueOnce(lbPair(true));
+
+    const [shallowPool, deepPool] = [Keypair.generate(), Keypair.generate()].map((pair) => pair.publicKey.toBase58());
+    const adapter = new MeteoraDlmmAdapter({} as Connection, wallet, [shallowPool, deepPool]);
+    await adapter.initialize();
+
+    const quotes = await adapter.quote(SOL, USDC, 100n);
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0]).toMatchObject({ dex: 'METEORA', poolId: deepPool, outputAmount: 200n, fee: 0.0025 });
+  });
+});
@@ -0,0 +1,122 @@
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { ASSOCIATED_TOKEN_PROGRAM_ID, NATIVE_MINT, getAssociatedTokenAddressSync } from '@solana/spl-token';
+import { SwapPreflight } from '../services/swap-preflight';
+import type { TransactionService } from '../services/transaction-service';
+import { buildDevnetSwapTransaction } from '../services/adapters/devnet-swap';
+import { InsufficientFundsError } from '../utils/errors';
+import type { Quote } from '../types';
+
+const RENT = 2_039_280; // Rent-exempt minimum of a token account
+const FEE = 25_000;
+
+/**
+ * Stand-in for the few Connection calls the preflight makes
+ * Token accounts exist only for the mints given a balance
+ */
+function createChain(lamports: number, tokenBalances: Record<string, bigint>, owner: PublicKey): Connection {
+  const accounts = new Map(
+    Object.entries(tokenBalances).map(([mint, amount]) => [
+      getAssociatedTokenAddressSync(new PublicKey(mint), owner, true).toBase58(),
+      amount,
+    ])
+  );
+
+  return {
+    getBalance: async () => lamports,
+    getMinimumBalanceForRentExemption: async () => RENT,
+    getAccountInfo: async (account: PublicKey) => (accounts.has(account.toBase58()) ? { lamports: RENT } : null),
+    getTokenAccountBalance: async (account: PublicKey) => {
+      const amount = accounts.get(account.toBase58());
+      if (amount === undefined) {
+        throw new Error('could not find account');
+      }
+      return { value: { amount: amount.toString() } };
+    },
+  } as unknown as Connection;
+}
+
+describe('Swap Preflight', () => {
+  const SOL = NATIVE_MINT.toBase58();
+  const USDC = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+  const owner = Keypair.generate().publicKey;
+  const transactionService = { estimateTransactionFee: async () => FEE } as unknown as TransactionService;
+
+  const preflight = (lamports: number, tokenBalances: Record<string, bigint> = {}) =>
+    new SwapPreflight(createChain(lamports, tokenBalances, owner), transactionService, owner);
+
+  test('should pass a funded swap into an existing token account', async () => {
+    const result = await preflight(FEE, { [USDC]: 1_000_000n, [SOL]: 0n }).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 1_000_000n });
+
+    expect(result).toEqual({ createOutputAccount: false, lamports: FEE, requiredLamports: FEE });
+  });
+
+  test('should have a swap into SOL create a missing wrapped SOL account', async () => {
+    const result = await preflight(FEE + RENT, { [USDC]: 1_000_000n }).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 1_000_000n });
+
+    expect(result).toEqual({ createOutputAccount: true, lamports: FEE + RENT, requiredLamports: FEE + RENT });
+  });
+
+  test('should fund the wrapped SOL account of a venue that wraps SOL input', async () => {
+    const amountIn = 1_000_000_000n; // 1 SOL
+    const request = { tokenIn: SOL, tokenOut: USDC, amountIn, wrapsNativeInput: true };
+
+    const result = await preflight(2_000_000_000, { [USDC]: 0n }).check(request);
+    expect(result.requiredLamports).toBe(FEE + RENT + Number(amountIn));
+
+    await expect(preflight(FEE + Number(amountIn), { [USDC]: 0n }).check(request))
+      .rejects.toThrow('(fees, wrapped SOL account rent and the SOL swapped)');
+    // Venues that swap from the native balance need no such account
+    await expect(preflight(FEE + Number(amountIn), { [USDC]: 0n }).check({ ...request, wrapsNativeInput: false }))
+      .resolves.toMatchObject({ requiredLamports: FEE + Number(amountIn) });
+  });
+
+  test('should have the swap create a missing output account and fund its rent', async () => {
+    const amountIn = 1_000_000_000n; // 1 SOL
+
+    const result = await preflight(1_100_000_000).check({ tokenIn: SOL, tokenOut: USDC, amountIn });
+
+    expect(result.createOutputAccount).toBe(true);
+    expect(result.requiredLamports).toBe(FEE + RENT + Number(amountIn));
+
+    await expect(preflight(FEE + Number(amountIn)).check({ tokenIn: SOL, tokenOut: USDC, amountIn }))
+      .rejects.toThrow(InsufficientFundsError);
+  });
+
+  test('should charge a fee per transaction of a split route', async () => {
+    const result = await preflight(3 * FEE, { [USDC]: 10n, [SOL]: 0n }).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 10n, transactions: 3 });
+    expect(result.requiredLamports).toBe(3 * FEE);
+
+    await expect(preflight(3 * FEE - 1, { [USDC]: 10n, [SOL]: 0n }).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 10n, transactions: 3 }))
+      .rejects.toThrow('has 74999 lamports but the swap needs 75000');
+  });
+
+  test('should reject a swap of more tokens than the wallet holds', async () => {
+    await expect(preflight(FEE, { [USDC]: 999_999n, [SOL]: 0n }).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 1_000_000n }))
+      .rejects.toThrow(`holds 999999 of ${USDC} but the swap needs 1000000`);
+
+    // No token account at all reads as a zero balance
+    await expect(preflight(FEE).check({ tokenIn: USDC, tokenOut: SOL, amountIn: 1n }))
+      .rejects.toThrow(InsufficientFundsError);
+  });
+
+  test('should put the output account creation ahead of a devnet swap that asks for it', () => {
+    const quote: Quote = {
+      dex: 'RAYDIUM',
+      inputAmount: 1n,
+      outputAmount: 1n,
+      price: 1,
+      fee: 0.0025,
+      poolId: 'stub-pool',
+      slippage: 0.01,
+      tokenIn: SOL,
+      tokenOut: USDC,
+    };
+
+    expect(buildDevnetSwapTransaction(owner, quote).instructions).toHaveLength(1);
+
+    const [create, swap] = buildDevnetSwapTransaction(owner, { ...quote, createOutputAccount: true }).instructions;
+    expect(create.programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)).toBe(true);
+    expect(create.keys[1].pubkey.equals(getAssociatedTokenAddressSync(new PublicKey(USDC), owner, true))).toBe(true);
+    expect(swap).toBeDefined();
+  });
+});
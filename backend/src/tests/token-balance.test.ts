@@ -0,0 +1,137 @@
+import { Keypair, PublicKey, SystemProgram, Transaction, TransactionInstruction } from '@solana/web3.js';
+import {
+  AccountLayout,
+  MINT_SIZE,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createInitializeMint2Instruction,
+  createMintToInstruction,
+  createTransferInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import { start } from 'solana-bankrun';
+import type { ProgramTestContext } from 'solana-bankrun';
+import { getReceivedAmount } from '../utils/token-balance';
+import type { BalanceReader } from '../utils/token-balance';
+
+/**
+ * Balance reads against a real SVM runtime (solana-bankrun)
+ * The "swap" moves tokens from a pool vault into the trader's ATA, as an AMM would
+ */
+describe('Token Balance Reader', () => {
+  let context: ProgramTestContext;
+  let payer: Keypair;
+  let reader: BalanceReader;
+
+  const mint = Keypair.generate();
+  const pool = Keypair.generate();
+  const trader = Keypair.generate();
+
+  const send = async (instructions: TransactionInstruction[], signers: Keypair[] = []): Promise<string> => {
+    const transaction = new Transaction().add(...instructions);
+    transaction.recentBlockhash = context.lastBlockhash;
+    transaction.feePayer = payer.publicKey;
+    transaction.sign(payer, ...signers);
+
+    await context.banksClient.processTransaction(transaction);
+    return Buffer.from(transaction.signature!).toString('hex');
+  };
+
+  beforeAll(async () => {
+    context = await start([], []);
+    payer = context.payer;
+
+    reader = {
+      async getTokenBalance(owner: PublicKey, tokenMint: PublicKey): Promise<bigint> {
+        const account = await context.banksClient.getAccount(getAssociatedTokenAddressSync(tokenMint, owner, true));
+        return account ? AccountLayout.decode(account.data).amount : 0n;
+      },
+    };
+
+    const rent = await context.banksClient.getRent();
+
+    await send([
+      SystemProgram.createAccount({
+        fromPubkey: payer.publicKey,
+        newAccountPubkey: mint.publicKey,
+        space: MINT_SIZE,
+        lamports: Number(rent.minimumBalance(BigInt(MINT_SIZE))),
+        programId: TOKEN_PROGRAM_ID,
+      }),
+      createInitializeMint2Instruction(mint.publicKey, 6, payer.publicKey, null),
+      createAssociatedTokenAccountIdempotentInstruction(
+        payer.publicKey,
+        getAssociatedTokenAddressSync(mint.publicKey, pool.publicKey),
+        pool.publicKey,
+        mint.publicKey
+      ),
+      createMintToInstruction(
+        mint.publicKey,
+        getAssociatedTokenAddressSync(mint.publicKey, pool.publicKey),
+        payer.publicKey,
+        1_000_000_000n
+      ),
+    ], [mint]);
+  });
+
+  const swapOut = (amount: bigint) => () => send([
+    createAssociatedTokenAccountIdempotentInstruction(
+      payer.publicKey,
+      getAssociatedTokenAddressSync(mint.publicKey, trader.publicKey),
+      trader.publicKey,
+      mint.publicKey
+    ),
+    createTransferInstruction(
+      getAssociatedTokenAddressSync(mint.publicKey, pool.publicKey),
+      getAssociatedTokenAddressSync(mint.publicKey, trader.publicKey),
+      pool.publicKey,
+      amount
+    ),
+  ], [pool]);
+
+  test('should read a missing token account as zero', async () => {
+    expect(await reader.getTokenBalance(Keypair.generate().publicKey, mint.publicKey)).toBe(0n);
+  });
+
+  test('should read the balance a swap left in a new token account', async () => {
+    await swapOut(123_456n)();
+
+    expect(await reader.getTokenBalance(trader.publicKey, mint.publicKey)).toBe(123_456n);
+  });
+
+  test('should leave the balance unchanged when the transaction fails', async () => {
+    // More than the pool vault holds
+    await expect(swapOut(10_000_000_000n)()).rejects.toThrow();
+
+    expect(await reader.getTokenBalance(trader.publicKey, mint.publicKey)).toBe(123_456n);
+  });
+});
+
+describe('Token Balance Changes', () => {
+  const owner = Keypair.generate().publicKey;
+  const mint = Keypair.generate().publicKey;
+
+  const balance = (accountIndex: number, amount: bigint, tokenOwner: PublicKey = owner, tokenMint: PublicKey = mint) => ({
+    accountIndex,
+    mint: tokenMint.toBase58(),
+    owner: tokenOwner.toBase58(),
+    uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null },
+  });
+
+  test('should count an output account created by the transaction from zero', () => {
+    expect(getReceivedAmount({ preTokenBalances: [], postTokenBalances: [balance(1, 123_456n)] }, owner, mint)).toBe(123_456n);
+  });
+
+  test('should only count the owner\'s accounts of the mint', () => {
+    const pool = Keypair.generate().publicKey;
+    const otherMint = Keypair.generate().publicKey;
+
+    const meta = {
+      preTokenBalances: [balance(1, 5_000n), balance(2, 1_000_000n, pool), balance(3, 700n, owner, otherMint)],
+      postTokenBalances: [balance(1, 6_000n), balance(2, 999_000n, pool), balance(3, 0n, owner, otherMint)],
+    };
+
+    expect(getReceivedAmount(meta, owner, mint)).toBe(1_000n);
+    expect(getReceivedAmount({ preTokenBalances: null, postTokenBalances: null }, owner, mint)).toBe(0n);
+  });
+});
@@ -0,0 +1,79 @@
+import { Connection, Keypair, SystemProgram, Transaction } from '@solana/web3.js';
+import { sendWithSubmissionHook } from '../utils/send-transaction';
+import { TransactionService } from '../services/transaction-service';
+
+/**
+ * Stand-in for the few RPC calls used here, recording the order they are made in
+ */
+function createFakeConnection(chain: { blockHeight: number; status: any }, calls: string[]): Connection {
+  return {
+    getLatestBlockhash: async () => {
+      calls.push('getLatestBlockhash');
+      return { blockhash: Keypair.generate().publicKey.toBase58(), lastValidBlockHeight: 1150 };
+    },
+    sendRawTransaction: async () => {
+      calls.push('sendRawTransaction');
+      return 'sent';
+    },
+    confirmTransaction: async () => {
+      calls.push('confirmTransaction');
+      return { context: { slot: 1 }, value: { err: null } };
+    },
+    getBlockHeight: async () => chain.blockHeight,
+    getSignatureStatus: async () => ({ context: { slot: 1 }, value: chain.status }),
+  } as unknown as Connection;
+}
+
+describe('Transaction Submission', () => {
+  const wallet = Keypair.generate();
+  const transfer = () =>
+    new Transaction().add(
+      SystemProgram.transfer({ fromPubkey: wallet.publicKey, toPubkey: wallet.publicKey, lamports: 1 })
+    );
+
+  test('should hand the signature to the hook before the transaction is sent', async () => {
+    const calls: string[] = [];
+    const connection = createFakeConnection({ blockHeight: 1000, status: null }, calls);
+    let recorded: { signature: string; lastValidBlockHeight?: number } | undefined;
+
+    const signature = await sendWithSubmissionHook(connection, transfer(), [wallet], async (submitted) => {
+      calls.push('onSubmitted');
+      recorded = submitted;
+    });
+
+    expect(calls).toEqual(['getLatestBlockhash', 'onSubmitted', 'sendRawTransaction', 'confirmTransaction']);
+    expect(recorded).toEqual({ signature, lastValidBlockHeight: 1150 });
+  });
+
+  test('should not send when the signature cannot be recorded', async () => {
+    const calls: string[] = [];
+    const connection = createFakeConnection({ blockHeight: 1000, status: null }, calls);
+
+    await expect(
+      sendWithSubmissionHook(connection, transfer(), [wallet], async () => {
+        throw new Error('database unavailable');
+      })
+    ).rejects.toThrow('database unavailable');
+
+    expect(calls).not.toContain('sendRawTransaction');
+  });
+
+  test('should only report a swap dropped once its blockhash has expired', async () => {
+    const chain = { blockHeight: 1000, status: null as any };
+    const service = new TransactionService(createFakeConnection(chain, []));
+
+    await expect(service.getSubmissionOutcome('sig', 1150)).resolves.toBe('pending');
+
+    chain.blockHeight = 1151;
+    await expect(service.getSubmissionOutcome('sig', 1150)).resolves.toBe('dropped');
+
+    chain.status = { slot: 1, confirmations: 1, err: null, confirmationStatus: 'confirmed' };
+    await expect(service.getSubmissionOutcome('sig', 1150)).resolves.toBe('confirmed');
+
+    chain.status = { slot: 1, confirmations: 1, err: { InstructionError: [0, { Custom: 30 }] }, confirmationStatus: 'confirmed' };
+    await expect(service.getSubmissionOutcome('sig', 1150)).resolves.toBe('failed');
+
+    // Simulated submissions never reach the chain
+    await expect(service.getSubmissionOutcome('sig', null)).resolves.toBe('dropped');
+  });
+});
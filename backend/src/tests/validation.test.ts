@@ -0,0 +1,29 @@
+import { executeOrderSchema, validateInput } from '../utils/validation';
+import { ValidationError } from '../utils/errors';
+
+describe('Order Validation - TWAP', () => {
+  const twap = (amount: string, twapSlices: unknown = 4) => ({
+    tokenIn: 'So11111111111111111111111111111111111111112',
+    tokenOut: '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU',
+    amount,
+    orderType: 'TWAP',
+    twapSlices,
+    twapIntervalSeconds: 60,
+  });
+
+  test('should accept an amount that covers every slice', () => {
+    expect(validateInput(executeOrderSchema, twap('4')).twapSlices).toBe(4);
+  });
+
+  test('should reject an amount too small to split', () => {
+    expect(() => validateInput(executeOrderSchema, twap('3'))).toThrow('Amount is too small to split into the requested slices');
+  });
+
+  test('should report a malformed amount or slice count as a validation error', () => {
+    for (const input of [twap('1.5'), twap('lots'), twap('1e9'), twap('1000', 2.5)]) {
+      expect(() => validateInput(executeOrderSchema, input)).toThrow(ValidationError);
+    }
+
+    expect(() => validateInput(executeOrderSchema, twap('1.5'))).toThrow('amount: Amount must be a positive integer string');
+  });
+});
@@ -0,0 +1,54 @@
+import { generateKeyPairSync, sign } from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+import { buildSignInMessage, verifyWalletSignature } from '../utils/wallet-signature';
+
+/**
+ * An ed25519 key pair standing in for a wallet
+ */
+function createWallet() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const address = new PublicKey(Buffer.from(publicKey.export({ format: 'jwk' }).x!, 'base64url')).toBase58();
+
+  return {
+    address,
+    signMessage: (message: string) => bs58.encode(sign(null, Buffer.from(message, 'utf8'), privateKey)),
+  };
+}
+
+describe('Wallet Signature', () => {
+  const wallet = createWallet();
+  const message = buildSignInMessage({
+    domain: 'dex.example',
+    wallet: wallet.address,
+    nonce: '0123456789abcdef0123456789abcdef',
+    issuedAt: new Date('2025-12-21T09:00:00Z'),
+    expiresAt: new Date('2025-12-21T09:05:00Z'),
+  });
+
+  test('should build a Sign-In With Solana message', () => {
+    expect(message.split('\n')).toEqual([
+      'dex.example wants you to sign in with your Solana account:',
+      wallet.address,
+      '',
+      'Sign in to place and track your orders.',
+      '',
+      'Nonce: 0123456789abcdef0123456789abcdef',
+      'Issued At: 2025-12-21T09:00:00.000Z',
+      'Expiration Time: 2025-12-21T09:05:00.000Z',
+    ]);
+  });
+
+  test('should accept the wallet signature of the message', () => {
+    expect(verifyWalletSignature(wallet.address, message, wallet.signMessage(message))).toBe(true);
+  });
+
+  test('should reject another message, another wallet or a malformed signature', () => {
+    const signature = wallet.signMessage(message);
+
+    expect(verifyWalletSignature(wallet.address, message.replace('dex.example', 'evil.example'), signature)).toBe(false);
+    expect(verifyWalletSignature(createWallet().address, message, signature)).toBe(false);
+    expect(verifyWalletSignature(wallet.address, message, 'not-base58!')).toBe(false);
+    expect(verifyWalletSignature(wallet.address, message, bs58.encode(Buffer.alloc(32)))).toBe(false);
+  });
+});
@@ -1,15 +1,46 @@
 import 'fastify';
-import type { TransactionService, WebSocketManager, OrderProcessor } from '../services';
-import type { DexRouter as MockDexRouter } from '../services/dex-router-mock';
-import type { DexRouter as HybridDexRouter } from '../services/dex-router-devnet-hybrid';
+import type {
+  TransactionService,
+  WebSocketManager,
+  OrderProcessor,
+  OrderStateService,
+  LimitOrderWatcher,
+  ProtectiveOrderWatcher,
+  OrderReconciler,
+  DeadLetterQueue,
+  AuthService,
+  ApiKeyService,
+  RateLimiter,
+  RiskManager,
+  QuoteService,
+  QuoteCache,
+} from '../services';
+import type { AggregateDexRouter } from '../services/dex-router';
+import type { ApiKeyIdentity } from './index';
 
 declare module 'fastify' {
   interface FastifyInstance {
     services: {
       transactionService: TransactionService;
-      dexRouter: MockDexRouter | HybridDexRouter;
+      dexRouter: AggregateDexRouter;
       wsManager: WebSocketManager;
       orderProcessor: OrderProcessor;
+      orderState: OrderStateService;
+      limitOrderWatcher: LimitOrderWatcher;
+      protectiveOrderWatcher: ProtectiveOrderWatcher;
+      orderReconciler: OrderReconciler;
+      deadLetters: DeadLetterQueue;
+      authService: AuthService;
+      apiKeyService: ApiKeyService;
+      rateLimiter: RateLimiter;
+      riskManager: RiskManager;
+      quoteService: QuoteService;
+      quoteCache: QuoteCache | null;
     } | null;
   }
+
+  interface FastifyRequest {
+    wallet: string | null; // Signed-in wallet on order routes; null when signed out and AUTH_REQUIRED is off
+    apiKey: ApiKeyIdentity | null; // Bot client of the X-API-Key header
+  }
 }
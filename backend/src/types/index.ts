@@ -1,6 +1,7 @@
-import { OrderStatus, DexType } from '@prisma/client';
+import { OrderStatus, DexType, OrderType, ProtectiveOrderType, ApiKeyScope } from '@prisma/client';
+import type { SolanaErrorType } from '../utils/errors';
 
-export { OrderStatus, DexType };
+export { OrderStatus, DexType, OrderType, ProtectiveOrderType, ApiKeyScope };
 
 export interface Quote {
   dex: DexType;
@@ -10,6 +11,46 @@ export interface Quote {
   fee: number;
   poolId: string;
   slippage: number;
+  tokenIn?: string;
+  tokenOut?: string;
+  hops?: RouteHop[]; // Present for multi-hop routes, in execution order
+  bins?: BinQuoteData; // Present for bin-based (DLMM) venues
+  minAmountOut?: bigint; // Set by the router at execution; venues enforce it on-chain where they can
+  createOutputAccount?: boolean; // Set at execution when the owner has no tokenOut account; the swap must create it
+  priceImpact?: number; // Share of output lost to moving the pool price, excluding fees (0.01 = 1%)
+}
+
+export interface BinQuoteData {
+  activeBinId: number;
+  activeBinPrice: number; // Pool price before the swap, tokenY per tokenX in base units
+  binsCrossed: number;
+}
+
+export interface RouteHop {
+  dex: DexType;
+  poolId: string;
+  tokenIn: string;
+  tokenOut: string;
+  inputAmount: bigint;
+  outputAmount: bigint;
+  fee: number;
+}
+
+export interface SplitRoute {
+  legs: Quote[];
+  inputAmount: bigint;
+  outputAmount: bigint;
+  price: number;
+  priceImpact?: number; // Across all legs, when every leg's venue reports one
+}
+
+/**
+ * Route chosen for an order: the best single quote, or a split route when it pays more
+ */
+export interface RouteSelection {
+  quotes: Quote[]; // Every venue's quote, including multi-hop routes
+  bestQuote: Quote;
+  splitRoute: SplitRoute | null; // Set when the split route is selected
 }
 
 export interface ExecutionResult {
@@ -19,6 +60,35 @@ export interface ExecutionResult {
   dex: DexType;
 }
 
+/**
+ * A swap built for the user's wallet to sign (non-custodial orders)
+ */
+export interface UnsignedSwap {
+  transaction: string; // Base64 wire format, unsigned, with the owner as fee payer
+  lastValidBlockHeight: number; // Of the transaction's blockhash; it cannot land after this
+  quote: Quote; // Fresh quote the transaction was built from
+}
+
+export interface SubmittedTransaction {
+  signature: string;
+  lastValidBlockHeight?: number; // Unset for simulated submissions that never reach the chain
+}
+
+/**
+ * Called with a swap's signature after signing and before sending, so the
+ * caller can persist it while the transaction cannot have landed yet
+ */
+export type SubmissionHook = (submitted: SubmittedTransaction) => Promise<void>;
+
+/**
+ * Where a recorded signature stands
+ * - confirmed: landed and succeeded
+ * - failed: landed with an error, so nothing was swapped
+ * - pending: not seen yet, but its blockhash is still valid so it may land
+ * - dropped: not seen and its blockhash has expired, so it can never land
+ */
+export type SubmissionOutcome = 'confirmed' | 'failed' | 'pending' | 'dropped';
+
 export interface OrderJobData {
   orderId: string;
   tokenIn: string;
@@ -27,6 +97,29 @@ export interface OrderJobData {
   slippage: number;
   userWallet: string;
   timestamp: number;
+  orderType?: OrderType;
+  limitPrice?: number;
+  maxPriceImpact?: number;
+  quotedRoute?: string; // Serialized RouteSelection of a quote from GET /api/quote, executed instead of re-routing
+  twapSlices?: number;
+  twapIntervalMs?: number;
+  sliceIndex?: number;
+  nonCustodial?: boolean; // Build an unsigned transaction for userWallet to sign instead of executing
+}
+
+/**
+ * An order job that will not run again, parked on the dead-letter queue
+ */
+export interface DeadLetterJobData {
+  jobId: string; // Id of the exhausted order-processing job
+  jobName: string;
+  orderId: string;
+  sliceIndex?: number;
+  data: OrderJobData;
+  failedReason: string;
+  errorType: SolanaErrorType; // classifySolanaError of the last failure
+  attemptsMade: number;
+  failedAt: number;
 }
 
 export interface OrderStatusUpdate {
@@ -58,33 +151,200 @@ export interface HealthCheckResponse {
     redis: boolean;
     blockchain: boolean;
   };
+  dexes?: Array<{ dex: DexType; healthy: boolean; pools: number; error?: string }>;
+  quoteCache?: { hits: number; misses: number; coalesced: number; invalidations: number; hitRate: number };
   version: string;
 }
 
 export interface OrderResponse {
   orderId: string;
   status: OrderStatus;
+  orderType: OrderType;
   wsUrl: string;
   createdAt: Date;
 }
 
+export interface QuoteItem {
+  dex: DexType;
+  poolId: string;
+  inputAmount: string;
+  outputAmount: string;
+  price: number;
+  fee: number;
+  priceImpact: number | null;
+  hops?: Array<{
+    dex: DexType;
+    poolId: string;
+    tokenIn: string;
+    tokenOut: string;
+    inputAmount: string;
+    outputAmount: string;
+  }>;
+}
+
+export interface QuoteResponse {
+  quoteId: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  slippage: number;
+  // Selected route: the best single quote, or a split across legs
+  selectedDex: DexType;
+  split: boolean;
+  outputAmount: string;
+  price: number;
+  fee: number;
+  priceImpact: number | null;
+  minAmountOut: string;
+  legs?: QuoteItem[];
+  quotes: QuoteItem[];
+  expiresAt: Date;
+}
+
 export interface OrderHistoryItem {
   id: string;
   orderId: string;
   userWallet: string;
   tokenIn: string;
   tokenOut: string;
+  orderType: OrderType;
+  nonCustodial: boolean;
+  limitPrice: string | null;
+  expiresAt: Date | null;
   amountIn: string;
   amountOut: string | null;
+  filledAmountIn: string | null;
+  minAmountOut: string | null;
   status: OrderStatus;
   selectedDex: DexType | null;
   executedPrice: string | null;
   txHash: string | null;
   slippage: string;
+  maxPriceImpact: string | null;
   errorMessage: string | null;
   retryCount: number;
   createdAt: Date;
   updatedAt: Date;
+  slices?: TwapSliceItem[];
+  legs?: RouteLegItem[];
+}
+
+/**
+ * Swap of a non-custodial order waiting for its wallet's signature
+ */
+export interface UnsignedTransactionResponse {
+  orderId: string;
+  userWallet: string; // Fee payer and only required signer
+  transaction: string; // Base64, unsigned
+  lastValidBlockHeight: string | null;
+  expectedAmountOut: string | null;
+  minAmountOut: string | null;
+}
+
+export interface RouteLegItem {
+  legIndex: number;
+  dex: DexType;
+  poolId: string | null;
+  inputAmount: string;
+  outputAmount: string;
+  price: string;
+  txHash: string | null;
+}
+
+export interface TwapSliceItem {
+  sliceIndex: number;
+  amountIn: string;
+  amountOut: string | null;
+  status: OrderStatus;
+  selectedDex: DexType | null;
+  executedPrice: string | null;
+  txHash: string | null;
+  errorMessage: string | null;
+  scheduledAt: Date;
+}
+
+export interface OrderEventItem {
+  id: string;
+  fromStatus: OrderStatus | null; // null for the order's creation
+  toStatus: OrderStatus;
+  attempt: number | null; // Processing attempt that made the transition
+  payload: unknown;
+  createdAt: Date;
+}
+
+export interface ProtectiveOrderItem {
+  id: string;
+  parentOrderId: string;
+  type: ProtectiveOrderType;
+  triggerPrice: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: string;
+  amountOut: string | null;
+  status: OrderStatus;
+  selectedDex: DexType | null;
+  executedPrice: string | null;
+  txHash: string | null;
+  slippage: string;
+  errorMessage: string | null;
+  triggeredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DeadLetterItem {
+  jobId: string;
+  jobName: string;
+  orderId: string;
+  sliceIndex: number | null;
+  orderStatus: OrderStatus | null; // Current status of the order
+  failedReason: string;
+  errorType: SolanaErrorType;
+  attemptsMade: number;
+  failedAt: Date;
+  data?: OrderJobData; // Original job data, on GET /api/admin/dlq/:jobId only
+}
+
+/**
+ * Bot client behind an X-API-Key header
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  scopes: ApiKeyScope[];
+  wallet: string | null; // Wallet its orders are placed for; required with trade or read scope
+  rateLimit: number; // Requests per RATE_LIMIT_WINDOW_MS
+}
+
+export interface ApiKeyItem extends ApiKeyIdentity {
+  keyPrefix: string; // First characters of the key, to tell keys apart
+  requestCount: string;
+  rateLimitedCount: string;
+  lastUsedAt: Date | null;
+  revokedAt: Date | null;
+  createdAt: Date;
+  key?: string; // Plain key, on POST /api/admin/api-keys only
+}
+
+/**
+ * A wallet's risk limits and what it has used of them (null limits are unlimited)
+ */
+export interface RiskProfileResponse {
+  wallet: string;
+  notionalToken: string; // Mint notional amounts are in, as base units
+  limits: {
+    maxOrderNotional: string | null;
+    maxDailyNotional: string | null;
+    maxOpenOrders: number | null;
+    maxSlippage: number;
+    allowedTokens: string[]; // Empty allows any token
+  };
+  overridden: boolean; // Wallet has limits of its own rather than the defaults
+  usage: {
+    dailyNotional: string;
+    openOrders: number;
+  };
+  resetsAt: Date; // Next 00:00 UTC, when daily notional starts over
 }
 
 export interface PaginatedResponse<T> {
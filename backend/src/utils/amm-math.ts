@@ -0,0 +1,122 @@
+/**
+ * Exact integer AMM math
+ * Amounts stay in base units as bigint end to end. Fractional values (fees,
+ * slippage, prices) enter as fixed-point bigints scaled by SCALE, so no amount
+ * is ever converted to a Number and nothing loses precision above 2^53.
+ *
+ * Rounding always favours the pool: inputs and fees round up, outputs round down.
+ */
+
+export const SCALE = 10n ** 18n;
+
+export type Rounding = 'down' | 'up';
+
+/**
+ * Convert a non-negative fraction or price to fixed point
+ * Parses the number's shortest decimal form, so 0.0007 is exactly 7 * 10^14;
+ * digits beyond 18 decimals are truncated
+ */
+export function toFixed(value: number): bigint {
+  if (!Number.isFinite(value) || value < 0) {
+    throw new RangeError(`Cannot convert ${value} to fixed point`);
+  }
+
+  const [mantissa, exponent] = value.toExponential().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const digits = BigInt(whole + fraction);
+  const shift = Number(exponent) - fraction.length + 18;
+
+  return shift >= 0 ? digits * 10n ** BigInt(shift) : digits / 10n ** BigInt(-shift);
+}
+
+/**
+ * Convert a fixed-point value back to a Number (for display and ratios only)
+ */
+export function fromFixed(value: bigint): number {
+  return Number(value) / 1e18;
+}
+
+/**
+ * a * b / denominator with a full-precision intermediate product
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint, rounding: Rounding = 'down'): bigint {
+  if (denominator === 0n) {
+    throw new RangeError('Division by zero');
+  }
+
+  const product = a * b;
+  const quotient = product / denominator;
+
+  return rounding === 'up' && product % denominator !== 0n ? quotient + 1n : quotient;
+}
+
+/**
+ * Multiply an amount by a fraction or price, rounding down
+ */
+export function mulFixed(amount: bigint, value: number): bigint {
+  return mulDiv(amount, toFixed(value), SCALE);
+}
+
+/**
+ * Split the fee off an input amount; the fee rounds up
+ */
+export function applyFee(amountIn: bigint, fee: number): { amountInAfterFee: bigint; feeAmount: bigint } {
+  const feeAmount = mulDiv(amountIn, toFixed(fee), SCALE, 'up');
+  return { amountInAfterFee: amountIn - feeAmount, feeAmount };
+}
+
+/**
+ * Constant product output: (x + dx) * (y - dy) = x * y, with the fee taken from dx
+ */
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, fee: number): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) {
+    return 0n;
+  }
+
+  const { amountInAfterFee } = applyFee(amountIn, fee);
+  return mulDiv(amountInAfterFee, reserveOut, reserveIn + amountInAfterFee);
+}
+
+/**
+ * Marginal price of a constant product pool (tokenOut per tokenIn, fixed point)
+ */
+export function getSpotPrice(reserveIn: bigint, reserveOut: bigint): bigint {
+  return mulDiv(reserveOut, SCALE, reserveIn);
+}
+
+/**
+ * Shortfall of a swap's output against filling the whole input at the spot price
+ * 0 = no impact, 0.01 = 1% less than spot. Pass the input after fee to exclude the fee.
+ */
+export function getPriceImpact(amountIn: bigint, amountOut: bigint, spotPrice: bigint): number {
+  return getShortfall(mulDiv(amountIn, spotPrice, SCALE), amountOut);
+}
+
+/**
+ * Fraction by which amountOut falls short of spotOut, the output at spot price
+ * Lets routes combine several pools: pass the sums of their outputs
+ */
+export function getShortfall(spotOut: bigint, amountOut: bigint): number {
+  if (spotOut <= 0n || amountOut >= spotOut) {
+    return 0;
+  }
+
+  return fromFixed(mulDiv(spotOut - amountOut, SCALE, spotOut));
+}
+
+/**
+ * Invert a fixed-point price (tokenIn per tokenOut from tokenOut per tokenIn)
+ */
+export function invertPrice(price: bigint): bigint {
+  return price > 0n ? mulDiv(SCALE, SCALE, price) : 0n;
+}
+
+/**
+ * Least output a swap may return within a slippage tolerance
+ */
+export function getMinAmountOut(amountOut: bigint, slippage: number): bigint {
+  if (slippage >= 1) {
+    return 0n;
+  }
+  return amountOut - mulDiv(amountOut, toFixed(slippage), SCALE, 'up');
+}
@@ -0,0 +1,23 @@
+/**
+ * JSON that round-trips bigint values
+ * Each bigint is written as { "$bigint": "<digits>" } so amounts survive Redis and job payloads exactly
+ */
+
+const BIGINT_TAG = '$bigint';
+
+export function stringifyWithBigInt(value: unknown): string {
+  return JSON.stringify(value, (_key, item) =>
+    typeof item === 'bigint' ? { [BIGINT_TAG]: item.toString() } : item
+  );
+}
+
+export function parseWithBigInt<T>(json: string): T {
+  return JSON.parse(json, (_key, item) => {
+    const isTagged = item !== null &&
+      typeof item === 'object' &&
+      typeof item[BIGINT_TAG] === 'string' &&
+      Object.keys(item).length === 1;
+
+    return isTagged ? BigInt(item[BIGINT_TAG]) : item;
+  });
+}
@@ -0,0 +1,169 @@
+import { SCALE, applyFee, fromFixed, invertPrice, mulDiv, toFixed } from './amm-math';
+import type { Rounding } from './amm-math';
+
+/**
+ * Concentrated liquidity (Whirlpool-style) swap math
+ * Liquidity is active only between a position's ticks, so a swap walks the
+ * initialized ticks, crossing each one and adjusting active liquidity as it goes.
+ *
+ * Prices are tokenB per tokenA in base units; sqrtPrice = sqrt(price) = 1.0001^(tick / 2),
+ * held in fixed point (SCALE). Amounts and liquidity are exact integers.
+ */
+
+export interface ClmmPosition {
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+}
+
+export interface ClmmState {
+  sqrtPrice: bigint;
+  tickCurrent: number;
+  liquidity: bigint; // Active liquidity at the current tick
+  fee: number;
+  ticks: Map<number, bigint>; // Initialized tick -> liquidityNet
+}
+
+export interface ClmmSwapResult {
+  amountOut: bigint;
+  sqrtPrice: bigint;
+  tickCurrent: number;
+  liquidity: bigint;
+  ticksCrossed: number;
+}
+
+const TICK_BASE = 1.0001;
+
+export function tickToSqrtPrice(tick: number): bigint {
+  return toFixed(Math.pow(TICK_BASE, tick / 2));
+}
+
+export function sqrtPriceToTick(sqrtPrice: bigint): number {
+  const value = fromFixed(sqrtPrice);
+  return Math.floor(Math.log(value * value) / Math.log(TICK_BASE));
+}
+
+/**
+ * Nearest tick at or below the price that positions may use with this spacing
+ */
+export function priceToInitializableTick(price: number, tickSpacing: number): number {
+  return Math.floor(sqrtPriceToTick(toFixed(Math.sqrt(price))) / tickSpacing) * tickSpacing;
+}
+
+/**
+ * tokenA between two sqrt prices: L * (1/sqrtLower - 1/sqrtUpper)
+ */
+export function getAmountADelta(sqrtLower: bigint, sqrtUpper: bigint, liquidity: bigint, rounding: Rounding): bigint {
+  return mulDiv(liquidity * (sqrtUpper - sqrtLower), SCALE, sqrtLower * sqrtUpper, rounding);
+}
+
+/**
+ * tokenB between two sqrt prices: L * (sqrtUpper - sqrtLower)
+ */
+export function getAmountBDelta(sqrtLower: bigint, sqrtUpper: bigint, liquidity: bigint, rounding: Rounding): bigint {
+  return mulDiv(liquidity, sqrtUpper - sqrtLower, SCALE, rounding);
+}
+
+/**
+ * Marginal price at the pool's current sqrtPrice (tokenOut per tokenIn, fixed point)
+ */
+export function getClmmSpotPrice(state: ClmmState, aToB: boolean): bigint {
+  const price = mulDiv(state.sqrtPrice, state.sqrtPrice, SCALE);
+  return aToB ? price : invertPrice(price);
+}
+
+/**
+ * Build pool state from its positions at the given starting price
+ */
+export function createClmmState(price: number, fee: number, positions: ClmmPosition[]): ClmmState {
+  const sqrtPrice = toFixed(Math.sqrt(price));
+  const tickCurrent = sqrtPriceToTick(sqrtPrice);
+  const ticks = new Map<number, bigint>();
+  let liquidity = 0n;
+
+  for (const position of positions) {
+    if (position.tickLower >= position.tickUpper) {
+      throw new Error(`Invalid position range [${position.tickLower}, ${position.tickUpper})`);
+    }
+
+    ticks.set(position.tickLower, (ticks.get(position.tickLower) ?? 0n) + position.liquidity);
+    ticks.set(position.tickUpper, (ticks.get(position.tickUpper) ?? 0n) - position.liquidity);
+
+    if (position.tickLower <= tickCurrent && tickCurrent < position.tickUpper) {
+      liquidity += position.liquidity;
+    }
+  }
+
+  return { sqrtPrice, tickCurrent, liquidity, fee, ticks };
+}
+
+/**
+ * Exact-input swap against the pool, walking initialized ticks
+ * aToB sells tokenA (price moves down); otherwise sells tokenB (price moves up).
+ * Stops early if the swap runs out of initialized liquidity.
+ */
+export function computeClmmSwap(state: ClmmState, aToB: boolean, amountIn: bigint): ClmmSwapResult {
+  const ticks = Array.from(state.ticks.keys()).sort((a, b) => a - b);
+
+  let sqrtPrice = state.sqrtPrice;
+  let tickCurrent = state.tickCurrent;
+  let liquidity = state.liquidity;
+  let remaining = applyFee(amountIn, state.fee).amountInAfterFee;
+  let amountOut = 0n;
+  let ticksCrossed = 0;
+
+  while (remaining > 0n) {
+    const nextTick = aToB
+      ? findLast(ticks, (tick) => tick <= tickCurrent)
+      : ticks.find((tick) => tick > tickCurrent);
+
+    if (nextTick === undefined) {
+      break;
+    }
+
+    const targetSqrtPrice = tickToSqrtPrice(nextTick);
+
+    if (liquidity > 0n) {
+      const maxIn = aToB
+        ? getAmountADelta(targetSqrtPrice, sqrtPrice, liquidity, 'up')
+        : getAmountBDelta(sqrtPrice, targetSqrtPrice, liquidity, 'up');
+
+      if (remaining < maxIn) {
+        // Swap completes inside the current tick range; the new price rounds against the trader
+        const newSqrtPrice = aToB
+          ? mulDiv(liquidity * sqrtPrice, SCALE, liquidity * SCALE + remaining * sqrtPrice, 'up')
+          : sqrtPrice + mulDiv(remaining, SCALE, liquidity);
+
+        amountOut += aToB
+          ? getAmountBDelta(newSqrtPrice, sqrtPrice, liquidity, 'down')
+          : getAmountADelta(sqrtPrice, newSqrtPrice, liquidity, 'down');
+
+        sqrtPrice = newSqrtPrice;
+        tickCurrent = sqrtPriceToTick(newSqrtPrice);
+        remaining = 0n;
+        break;
+      }
+
+      amountOut += aToB
+        ? getAmountBDelta(targetSqrtPrice, sqrtPrice, liquidity, 'down')
+        : getAmountADelta(sqrtPrice, targetSqrtPrice, liquidity, 'down');
+      remaining -= maxIn;
+    }
+
+    // Cross the tick: liquidityNet enters when moving up and leaves when moving down
+    const liquidityNet = state.ticks.get(nextTick)!;
+    sqrtPrice = targetSqrtPrice;
+    liquidity = aToB ? liquidity - liquidityNet : liquidity + liquidityNet;
+    tickCurrent = aToB ? nextTick - 1 : nextTick;
+    ticksCrossed++;
+  }
+
+  return { amountOut, sqrtPrice, tickCurrent, liquidity, ticksCrossed };
+}
+
+function findLast<T>(items: T[], predicate: (item: T) => boolean): T | undefined {
+  for (let i = items.length - 1; i >= 0; i--) {
+    if (predicate(items[i])) return items[i];
+  }
+  return undefined;
+}
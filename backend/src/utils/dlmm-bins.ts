@@ -0,0 +1,130 @@
+import { SCALE, applyFee, invertPrice, mulDiv, toFixed } from './amm-math';
+
+/**
+ * Liquidity book (Meteora DLMM-style) swap math
+ * Liquidity sits in discrete bins, each at a fixed price of (1 + binStep / 10000)^binId.
+ * Within a bin the price does not move; a swap drains the active bin, then steps to the next.
+ *
+ * Prices are tokenY per tokenX in base units. Bins below the active bin hold only Y,
+ * bins above it only X, and the active bin may hold both. Bin amounts are exact
+ * integers; each bin's price enters the swap in fixed point (SCALE).
+ */
+
+export interface DlmmBin {
+  binId: number;
+  amountX: bigint;
+  amountY: bigint;
+}
+
+export interface DlmmState {
+  binStep: number; // Basis points between adjacent bins
+  activeBinId: number;
+  fee: number;
+  bins: Map<number, DlmmBin>;
+}
+
+export interface DlmmSwapResult {
+  amountOut: bigint;
+  activeBinId: number; // Active bin after the swap
+  binsCrossed: number;
+  updatedBins: DlmmBin[];
+}
+
+export function getBinPrice(binId: number, binStep: number): number {
+  return Math.pow(1 + binStep / 10000, binId);
+}
+
+export function getBinIdFromPrice(price: number, binStep: number): number {
+  return Math.round(Math.log(price) / Math.log(1 + binStep / 10000));
+}
+
+/**
+ * Price of the active bin (tokenOut per tokenIn, fixed point)
+ */
+export function getDlmmSpotPrice(state: DlmmState, swapForY: boolean): bigint {
+  const price = toFixed(getBinPrice(state.activeBinId, state.binStep));
+  return swapForY ? price : invertPrice(price);
+}
+
+/**
+ * Spread liquidity uniformly over binsPerSide bins on each side of the price
+ * The active bin holds half a bin's worth of each token
+ */
+export function createDlmmState(
+  price: number,
+  binStep: number,
+  fee: number,
+  totalX: bigint,
+  totalY: bigint,
+  binsPerSide: number
+): DlmmState {
+  const activeBinId = getBinIdFromPrice(price, binStep);
+  const bins = new Map<number, DlmmBin>();
+  // total / (binsPerSide + 0.5), in integers
+  const shares = BigInt(2 * binsPerSide + 1);
+  const perBinX = (totalX * 2n) / shares;
+  const perBinY = (totalY * 2n) / shares;
+
+  bins.set(activeBinId, { binId: activeBinId, amountX: perBinX / 2n, amountY: perBinY / 2n });
+
+  for (let i = 1; i <= binsPerSide; i++) {
+    bins.set(activeBinId + i, { binId: activeBinId + i, amountX: perBinX, amountY: 0n });
+    bins.set(activeBinId - i, { binId: activeBinId - i, amountX: 0n, amountY: perBinY });
+  }
+
+  return { binStep, activeBinId, fee, bins };
+}
+
+/**
+ * Exact-input swap across bins
+ * swapForY sells X for Y (active bin moves down); otherwise sells Y for X (moves up).
+ * Stops early if the swap runs past the last bin holding liquidity.
+ */
+export function computeDlmmSwap(state: DlmmState, swapForY: boolean, amountIn: bigint): DlmmSwapResult {
+  const binIds = Array.from(state.bins.keys());
+  const lowestBinId = Math.min(...binIds);
+  const highestBinId = Math.max(...binIds);
+
+  let remaining = applyFee(amountIn, state.fee).amountInAfterFee;
+  let amountOut = 0n;
+  let binId = state.activeBinId;
+  let binsCrossed = 0;
+  const updatedBins: DlmmBin[] = [];
+
+  while (remaining > 0n && binId >= lowestBinId && binId <= highestBinId) {
+    const bin = state.bins.get(binId);
+    const price = toFixed(getBinPrice(binId, state.binStep));
+    const available = bin ? (swapForY ? bin.amountY : bin.amountX) : 0n;
+    // Input that would drain this bin's output side at the bin's fixed price
+    const capacityIn = swapForY
+      ? mulDiv(available, SCALE, price, 'up')
+      : mulDiv(available, price, SCALE, 'up');
+
+    if (bin && remaining <= capacityIn) {
+      const filled = swapForY ? mulDiv(remaining, price, SCALE) : mulDiv(remaining, SCALE, price);
+      const out = filled < available ? filled : available;
+      amountOut += out;
+      updatedBins.push(swapForY
+        ? { binId, amountX: bin.amountX + remaining, amountY: bin.amountY - out }
+        : { binId, amountX: bin.amountX - out, amountY: bin.amountY + remaining });
+      remaining = 0n;
+      break;
+    }
+
+    if (bin && available > 0n) {
+      amountOut += available;
+      remaining -= capacityIn;
+      updatedBins.push(swapForY
+        ? { binId, amountX: bin.amountX + capacityIn, amountY: 0n }
+        : { binId, amountX: 0n, amountY: bin.amountY + capacityIn });
+    }
+
+    binId += swapForY ? -1 : 1;
+    binsCrossed++;
+  }
+
+  // Ran off the end of the book: the last bin stays active
+  const activeBinId = Math.min(Math.max(binId, lowestBinId), highestBinId);
+
+  return { amountOut, activeBinId, binsCrossed, updatedBins };
+}
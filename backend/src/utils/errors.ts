@@ -45,6 +45,63 @@ export class SlippageExceededError extends DexEngineError {
   }
 }
 
+/**
+ * A swap settled on-chain but returned less than its minimum output
+ * Never retryable: the swap already happened
+ */
+export class MinimumOutputError extends DexEngineError {
+  constructor(
+    public signature: string,
+    public receivedAmount: bigint,
+    public minAmountOut: bigint
+  ) {
+    super(
+      `Swap ${signature} received ${receivedAmount} below the minimum output ${minAmountOut}`,
+      'MIN_OUTPUT_NOT_MET',
+      500,
+      false
+    );
+    this.name = 'MinimumOutputError';
+  }
+}
+
+/**
+ * Every route for an order moves the pool price further than the order allows
+ */
+export class PriceImpactExceededError extends DexEngineError {
+  constructor(
+    public priceImpact: number,
+    public maxPriceImpact: number
+  ) {
+    super(
+      `Price impact too high: best route moves the price ${(priceImpact * 100).toFixed(2)}%, ` +
+        `order allows ${(maxPriceImpact * 100).toFixed(2)}%`,
+      'PRICE_IMPACT_EXCEEDED',
+      400,
+      false
+    );
+    this.name = 'PriceImpactExceededError';
+  }
+}
+
+export type RiskLimitCode =
+  | 'RISK_MAX_ORDER_NOTIONAL'
+  | 'RISK_MAX_DAILY_NOTIONAL'
+  | 'RISK_MAX_OPEN_ORDERS'
+  | 'RISK_TOKEN_NOT_ALLOWED'
+  | 'RISK_MAX_SLIPPAGE'
+  | 'RISK_NOTIONAL_UNAVAILABLE';
+
+/**
+ * An order breaks a risk limit of its wallet; the code names the limit
+ */
+export class RiskLimitError extends DexEngineError {
+  constructor(code: RiskLimitCode, message: string) {
+    super(message, code, 422, false);
+    this.name = 'RiskLimitError';
+  }
+}
+
 export class PoolNotFoundError extends DexEngineError {
   constructor(message: string = 'Pool not found for token pair') {
     super(message, 'POOL_NOT_FOUND', 404, false);
@@ -59,6 +116,13 @@ export class TransactionTimeoutError extends DexEngineError {
   }
 }
 
+export class QuoteExpiredError extends DexEngineError {
+  constructor(quoteId: string) {
+    super(`Quote not found, expired or already used: ${quoteId}`, 'QUOTE_EXPIRED', 410, false);
+    this.name = 'QuoteExpiredError';
+  }
+}
+
 export class OrderNotFoundError extends DexEngineError {
   constructor(orderId: string) {
     super(`Order not found: ${orderId}`, 'ORDER_NOT_FOUND', 404, false);
@@ -66,6 +130,81 @@ export class OrderNotFoundError extends DexEngineError {
   }
 }
 
+export class IdempotencyConflictError extends DexEngineError {
+  constructor(idempotencyKey: string) {
+    super(
+      `Idempotency-Key ${idempotencyKey} was already used with a different request body`,
+      'IDEMPOTENCY_CONFLICT',
+      409,
+      false
+    );
+    this.name = 'IdempotencyConflictError';
+  }
+}
+
+export class InvalidTransitionError extends DexEngineError {
+  constructor(orderId: string, from: string, to: string) {
+    super(`Order ${orderId} cannot move from ${from} to ${to}`, 'INVALID_TRANSITION', 409, false);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class OrderCancelledError extends DexEngineError {
+  constructor(orderId: string) {
+    super(`Order was cancelled: ${orderId}`, 'ORDER_CANCELLED', 409, false);
+    this.name = 'OrderCancelledError';
+  }
+}
+
+export class NotAwaitingSignatureError extends DexEngineError {
+  constructor(orderId: string) {
+    super(`Order ${orderId} is not waiting for a signed transaction`, 'NOT_AWAITING_SIGNATURE', 409, false);
+    this.name = 'NotAwaitingSignatureError';
+  }
+}
+
+export class DeadLetterNotFoundError extends DexEngineError {
+  constructor(jobId: string) {
+    super(`Dead-lettered job not found: ${jobId}`, 'DEAD_LETTER_NOT_FOUND', 404, false);
+    this.name = 'DeadLetterNotFoundError';
+  }
+}
+
+export class ApiKeyNotFoundError extends DexEngineError {
+  constructor(id: string) {
+    super(`API key not found: ${id}`, 'API_KEY_NOT_FOUND', 404, false);
+    this.name = 'ApiKeyNotFoundError';
+  }
+}
+
+export class RateLimitExceededError extends DexEngineError {
+  constructor(public retryAfterMs: number) {
+    super(`Rate limit exceeded, retry in ${Math.ceil(retryAfterMs / 1000)}s`, 'RATE_LIMITED', 429, true);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+export class ReplayNotAllowedError extends DexEngineError {
+  constructor(message: string) {
+    super(message, 'REPLAY_NOT_ALLOWED', 409, false);
+    this.name = 'ReplayNotAllowedError';
+  }
+}
+
+export class UnauthorizedError extends DexEngineError {
+  constructor(message: string = 'Unauthorized') {
+    super(message, 'UNAUTHORIZED', 401, false);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends DexEngineError {
+  constructor(message: string = 'Forbidden') {
+    super(message, 'FORBIDDEN', 403, false);
+    this.name = 'ForbiddenError';
+  }
+}
+
 /**
  * Classifies Solana errors to determine if they should be retried
  */
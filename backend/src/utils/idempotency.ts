@@ -0,0 +1,28 @@
+import { createHash } from 'crypto';
+
+/**
+ * SHA-256 of a request body in canonical form
+ * Object keys are sorted and undefined fields dropped, so the same order
+ * serialized differently by a retrying client hashes the same
+ */
+export function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(toCanonicalJson(body)).digest('hex');
+}
+
+function toCanonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toCanonicalJson).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const fields = Object.keys(record)
+      .filter((key) => record[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${toCanonicalJson(record[key])}`);
+
+    return `{${fields.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
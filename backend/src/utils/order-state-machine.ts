@@ -0,0 +1,63 @@
+import { OrderStatus, OrderType } from '@prisma/client';
+
+/**
+ * Order lifecycle
+ *
+ *   PENDING → ROUTING → BUILDING → SUBMITTED → CONFIRMED
+ *
+ * - ROUTING returns to PENDING when a triggered limit order's price is no longer met
+ * - ROUTING and BUILDING move to RETRYING while BullMQ has attempts left, and
+ *   RETRYING goes back to ROUTING on the next attempt
+ * - SUBMITTED only moves to RETRYING once reconciliation shows its transaction
+ *   failed or expired without landing, so nothing was swapped
+ * - PENDING, ROUTING and RETRYING can be CANCELLED; untriggered limit orders EXPIRE
+ * - CONFIRMED, FAILED, CANCELLED and EXPIRED are final
+ */
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  PENDING: [OrderStatus.ROUTING, OrderStatus.CANCELLED, OrderStatus.EXPIRED, OrderStatus.FAILED],
+  ROUTING: [OrderStatus.BUILDING, OrderStatus.PENDING, OrderStatus.RETRYING, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  BUILDING: [OrderStatus.SUBMITTED, OrderStatus.RETRYING, OrderStatus.FAILED],
+  SUBMITTED: [OrderStatus.CONFIRMED, OrderStatus.RETRYING, OrderStatus.FAILED],
+  RETRYING: [OrderStatus.ROUTING, OrderStatus.CANCELLED, OrderStatus.FAILED],
+  CONFIRMED: [],
+  FAILED: [],
+  CANCELLED: [],
+  EXPIRED: [],
+};
+
+/**
+ * A TWAP parent never routes itself: its slices move it straight from PENDING to a
+ * partial or final fill, and it can be cancelled between slices
+ */
+const TWAP_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  PENDING: [OrderStatus.SUBMITTED, OrderStatus.CONFIRMED],
+  SUBMITTED: [OrderStatus.CANCELLED],
+};
+
+/**
+ * Operator overrides outside the lifecycle: a FAILED order replayed from the
+ * dead-letter queue starts over from PENDING
+ */
+const REPLAY_TRANSITIONS: Partial<Record<OrderStatus, OrderStatus[]>> = {
+  FAILED: [OrderStatus.PENDING],
+};
+
+/**
+ * Statuses an order of this type may move to from `from`
+ */
+export function getAllowedTransitions(from: OrderStatus, orderType: OrderType = OrderType.MARKET): OrderStatus[] {
+  const extra = orderType === OrderType.TWAP ? TWAP_TRANSITIONS[from] ?? [] : [];
+  return [...TRANSITIONS[from], ...extra];
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus, orderType: OrderType = OrderType.MARKET): boolean {
+  return getAllowedTransitions(from, orderType).includes(to);
+}
+
+export function canReplay(from: OrderStatus, to: OrderStatus): boolean {
+  return REPLAY_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+export function isFinalStatus(status: OrderStatus): boolean {
+  return TRANSITIONS[status].length === 0;
+}
@@ -0,0 +1,84 @@
+import { RiskLimitError } from './errors';
+
+/**
+ * Limits an order is checked against; null means no limit
+ */
+export interface RiskLimits {
+  maxOrderNotional: bigint | null;
+  maxDailyNotional: bigint | null;
+  maxOpenOrders: number | null;
+  maxSlippage: number;
+  allowedTokens: string[]; // Empty allows any token
+}
+
+/**
+ * What a wallet already has against its limits
+ */
+export interface RiskUsage {
+  dailyNotional: bigint; // Notional of orders placed since 00:00 UTC that did not fail, cancel or expire
+  openOrders: number;
+}
+
+export interface RiskCheckOrder {
+  tokenIn: string;
+  tokenOut: string;
+  slippage: number;
+  notional: bigint | null; // Null when no notional limit applies, so the order was not priced
+}
+
+/**
+ * Whether any limit needs the order's notional
+ */
+export function needsNotional(limits: RiskLimits): boolean {
+  return limits.maxOrderNotional !== null || limits.maxDailyNotional !== null;
+}
+
+/**
+ * Throw RiskLimitError for the first limit the order would break
+ */
+export function checkRiskLimits(order: RiskCheckOrder, limits: RiskLimits, usage: RiskUsage): void {
+  checkTradeLimits(order, limits);
+
+  if (limits.maxOpenOrders !== null && usage.openOrders >= limits.maxOpenOrders) {
+    throw new RiskLimitError('RISK_MAX_OPEN_ORDERS', `Wallet already has ${usage.openOrders} open orders, the most allowed`);
+  }
+
+  if (order.notional === null) {
+    return;
+  }
+
+  if (limits.maxOrderNotional !== null && order.notional > limits.maxOrderNotional) {
+    throw new RiskLimitError(
+      'RISK_MAX_ORDER_NOTIONAL',
+      `Order notional ${order.notional} is above the per-order limit of ${limits.maxOrderNotional}`
+    );
+  }
+
+  if (limits.maxDailyNotional !== null && usage.dailyNotional + order.notional > limits.maxDailyNotional) {
+    throw new RiskLimitError(
+      'RISK_MAX_DAILY_NOTIONAL',
+      `Order notional ${order.notional} would take the wallet past its daily limit of ${limits.maxDailyNotional} ` +
+        `(${usage.dailyNotional} used today)`
+    );
+  }
+}
+
+/**
+ * Throw RiskLimitError if the swap trades a token or takes a slippage the wallet is not allowed
+ * The limits that apply to any swap, whatever the wallet already has open
+ */
+export function checkTradeLimits(order: Pick<RiskCheckOrder, 'tokenIn' | 'tokenOut' | 'slippage'>, limits: RiskLimits): void {
+  if (limits.allowedTokens.length > 0) {
+    const token = [order.tokenIn, order.tokenOut].find((mint) => !limits.allowedTokens.includes(mint));
+    if (token) {
+      throw new RiskLimitError('RISK_TOKEN_NOT_ALLOWED', `Token ${token} is not allowed for trading`);
+    }
+  }
+
+  if (order.slippage > limits.maxSlippage) {
+    throw new RiskLimitError(
+      'RISK_MAX_SLIPPAGE',
+      `Slippage ${(order.slippage * 100).toFixed(2)}% is above the ${(limits.maxSlippage * 100).toFixed(2)}% allowed`
+    );
+  }
+}
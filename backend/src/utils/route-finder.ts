@@ -0,0 +1,110 @@
+import type { DexType, RouteHop } from '../types';
+
+/**
+ * A pool as seen by the route finder: an undirected edge between two mints
+ */
+export interface RouteEdge {
+  poolId: string;
+  dex: DexType;
+  mintA: string;
+  mintB: string;
+  fee: number;
+}
+
+/**
+ * Quotes a single edge in the given direction, returning the output amount
+ */
+export type EdgeQuoter = (edge: RouteEdge, tokenIn: string, amountIn: bigint) => bigint;
+
+/**
+ * Find the best multi-hop path between two tokens.
+ *
+ * Builds a token graph from the pool set and evaluates every simple path of
+ * 2 to maxHops hops. When several pools connect the same two tokens, each hop
+ * uses the pool with the best output for the amount arriving at that hop.
+ * Direct (single-hop) routes are left to the router's own quoting.
+ */
+export function findBestRoute(
+  edges: RouteEdge[],
+  tokenIn: string,
+  tokenOut: string,
+  amount: bigint,
+  quoteEdge: EdgeQuoter,
+  maxHops: number = 3
+): RouteHop[] | null {
+  const graph = new Map<string, RouteEdge[]>();
+
+  for (const edge of edges) {
+    for (const mint of [edge.mintA, edge.mintB]) {
+      if (!graph.has(mint)) {
+        graph.set(mint, []);
+      }
+      graph.get(mint)!.push(edge);
+    }
+  }
+
+  let bestRoute: RouteHop[] | null = null;
+  let bestOutput = 0n;
+
+  const visit = (token: string, amountIn: bigint, hops: RouteHop[], visited: Set<string>) => {
+    if (hops.length >= maxHops) {
+      return;
+    }
+
+    // Group pools by the token they lead to
+    const byNextToken = new Map<string, RouteEdge[]>();
+    for (const edge of graph.get(token) ?? []) {
+      const nextToken = edge.mintA === token ? edge.mintB : edge.mintA;
+      if (visited.has(nextToken)) continue;
+
+      if (!byNextToken.has(nextToken)) {
+        byNextToken.set(nextToken, []);
+      }
+      byNextToken.get(nextToken)!.push(edge);
+    }
+
+    for (const [nextToken, candidates] of byNextToken.entries()) {
+      // Direct routes are quoted by the router itself
+      if (hops.length === 0 && nextToken === tokenOut) continue;
+
+      let bestEdge: RouteEdge | null = null;
+      let bestEdgeOutput = 0n;
+
+      for (const edge of candidates) {
+        const output = quoteEdge(edge, token, amountIn);
+        if (output > bestEdgeOutput) {
+          bestEdge = edge;
+          bestEdgeOutput = output;
+        }
+      }
+
+      if (!bestEdge) continue;
+
+      const hop: RouteHop = {
+        dex: bestEdge.dex,
+        poolId: bestEdge.poolId,
+        tokenIn: token,
+        tokenOut: nextToken,
+        inputAmount: amountIn,
+        outputAmount: bestEdgeOutput,
+        fee: bestEdge.fee,
+      };
+
+      if (nextToken === tokenOut) {
+        if (bestEdgeOutput > bestOutput) {
+          bestRoute = [...hops, hop];
+          bestOutput = bestEdgeOutput;
+        }
+        continue;
+      }
+
+      visited.add(nextToken);
+      visit(nextToken, bestEdgeOutput, [...hops, hop], visited);
+      visited.delete(nextToken);
+    }
+  };
+
+  visit(tokenIn, amount, [], new Set([tokenIn]));
+
+  return bestRoute;
+}
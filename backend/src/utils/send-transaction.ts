@@ -0,0 +1,39 @@
+import bs58 from 'bs58';
+import { Connection, Signer, Transaction } from '@solana/web3.js';
+import type { SubmissionHook } from '../types';
+
+/**
+ * Sign, send and confirm a transaction, reporting its signature before it is sent
+ * A Solana signature is fixed once the transaction is signed, so the hook can persist
+ * it while the swap cannot have landed yet; a crash after that point leaves a
+ * signature behind to reconcile instead of a swap nobody knows about.
+ */
+export async function sendWithSubmissionHook(
+  connection: Connection,
+  transaction: Transaction,
+  signers: Signer[],
+  onSubmitted?: SubmissionHook
+): Promise<string> {
+  const { blockhash, lastValidBlockHeight } = await connection.getLatestBlockhash('confirmed');
+  transaction.recentBlockhash = blockhash;
+  transaction.lastValidBlockHeight = lastValidBlockHeight;
+  transaction.feePayer = transaction.feePayer ?? signers[0].publicKey;
+  transaction.sign(...signers);
+
+  const signature = bs58.encode(transaction.signature!);
+
+  await onSubmitted?.({ signature, lastValidBlockHeight });
+
+  await connection.sendRawTransaction(transaction.serialize(), { skipPreflight: false });
+
+  const { value } = await connection.confirmTransaction(
+    { signature, blockhash, lastValidBlockHeight },
+    'confirmed'
+  );
+
+  if (value.err) {
+    throw new Error(`Transaction ${signature} failed (${JSON.stringify(value.err)})`);
+  }
+
+  return signature;
+}
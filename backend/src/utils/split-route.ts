@@ -0,0 +1,52 @@
+/**
+ * A venue the optimizer may route part of the input through
+ */
+export interface SplitCandidate {
+  id: string;
+  getOutput: (amountIn: bigint) => bigint;
+}
+
+/**
+ * Allocate an input amount across venues to maximise total output.
+ *
+ * The input is cut into equal chunks and each chunk goes to the venue with the
+ * highest marginal output. For concave output curves (constant product pools)
+ * this converges on the optimal split as the number of steps grows.
+ */
+export function optimizeSplit(
+  candidates: SplitCandidate[],
+  amount: bigint,
+  steps: number = 100
+): Map<string, bigint> {
+  const allocations = new Map<string, bigint>(candidates.map((c) => [c.id, 0n]));
+
+  if (candidates.length === 0 || amount <= 0n) {
+    return allocations;
+  }
+
+  const stepCount = BigInt(steps) > amount ? amount : BigInt(steps);
+  const chunk = amount / stepCount;
+  const remainder = amount - chunk * stepCount;
+
+  for (let i = 0n; i < stepCount; i++) {
+    // Last chunk absorbs the rounding remainder
+    const size = i === stepCount - 1n ? chunk + remainder : chunk;
+
+    let best: SplitCandidate | null = null;
+    let bestGain = -1n;
+
+    for (const candidate of candidates) {
+      const current = allocations.get(candidate.id)!;
+      const gain = candidate.getOutput(current + size) - candidate.getOutput(current);
+
+      if (gain > bestGain) {
+        best = candidate;
+        bestGain = gain;
+      }
+    }
+
+    allocations.set(best!.id, allocations.get(best!.id)! + size);
+  }
+
+  return allocations;
+}
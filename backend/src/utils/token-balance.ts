@@ -0,0 +1,85 @@
+import { Connection, PublicKey, TransactionInstruction } from '@solana/web3.js';
+import type { ConfirmedTransactionMeta, TokenBalance } from '@solana/web3.js';
+import { createAssociatedTokenAccountIdempotentInstruction, getAssociatedTokenAddressSync } from '@solana/spl-token';
+
+/**
+ * Reads an owner's token balance (associated token account) in base units
+ * Implemented over an RPC Connection in production and over a BanksClient in tests
+ */
+export interface BalanceReader {
+  getTokenBalance(owner: PublicKey, mint: PublicKey): Promise<bigint>;
+}
+
+/**
+ * Balance reader backed by an RPC connection
+ * A missing associated token account reads as zero
+ */
+export function createConnectionBalanceReader(connection: Connection): BalanceReader {
+  return {
+    async getTokenBalance(owner: PublicKey, mint: PublicKey): Promise<bigint> {
+      const account = getAssociatedTokenAddressSync(mint, owner, true);
+
+      try {
+        const { value } = await connection.getTokenAccountBalance(account, 'confirmed');
+        return BigInt(value.amount);
+      } catch {
+        return 0n;
+      }
+    },
+  };
+}
+
+/**
+ * Amount of mint a transaction delivered to owner, from the token balances its meta recorded
+ * Only this transaction's own changes count, so swaps running concurrently through the same
+ * wallet never show up in each other's amounts. An account the transaction created starts at zero.
+ */
+export function getReceivedAmount(
+  meta: Pick<ConfirmedTransactionMeta, 'preTokenBalances' | 'postTokenBalances'>,
+  owner: PublicKey,
+  mint: PublicKey
+): bigint {
+  const ownerBalance = (balances: TokenBalance[] | null | undefined): bigint =>
+    (balances ?? [])
+      .filter((balance) => balance.owner === owner.toBase58() && balance.mint === mint.toBase58())
+      .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), 0n);
+
+  return ownerBalance(meta.postTokenBalances) - ownerBalance(meta.preTokenBalances);
+}
+
+/**
+ * Fetch a confirmed transaction and the amount of mint it delivered to owner
+ * The RPC node may not serve a transaction the moment it confirms, so a few reads are tried
+ */
+export async function fetchReceivedAmount(
+  connection: Connection,
+  signature: string,
+  owner: PublicKey,
+  mint: PublicKey,
+  attempts: number = 5
+): Promise<bigint> {
+  for (let attempt = 1; attempt <= attempts; attempt++) {
+    const transaction = await connection.getTransaction(signature, {
+      commitment: 'confirmed',
+      maxSupportedTransactionVersion: 0,
+    });
+
+    if (transaction?.meta) {
+      return getReceivedAmount(transaction.meta, owner, mint);
+    }
+
+    if (attempt < attempts) {
+      await new Promise((resolve) => setTimeout(resolve, 500 * attempt));
+    }
+  }
+
+  throw new Error(`Transaction ${signature} not found to read its token balances`);
+}
+
+/**
+ * Create owner's associated token account for mint, paid by owner
+ * Idempotent, so a swap retried after the account appeared still lands
+ */
+export function createTokenAccountInstruction(owner: PublicKey, mint: PublicKey): TransactionInstruction {
+  return createAssociatedTokenAccountIdempotentInstruction(owner, getAssociatedTokenAddressSync(mint, owner, true), owner, mint);
+}
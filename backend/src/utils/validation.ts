@@ -15,46 +15,201 @@ const solanaAddressSchema = z.string().refine(
   { message: 'Invalid Solana address' }
 );
 
+// Base-unit amount of an integer string, or null when it is not one
+function parseAmount(val: string): bigint | null {
+  try {
+    return BigInt(val);
+  } catch {
+    return null;
+  }
+}
+
+// Base-unit amount as a positive integer string
+const amountSchema = z.string().refine(
+  (val) => {
+    const num = parseAmount(val);
+    return num !== null && num > 0n;
+  },
+  { message: 'Amount must be a positive integer string' }
+);
+
 // Order execution request schema
 export const executeOrderSchema = z.object({
   tokenIn: solanaAddressSchema,
   tokenOut: solanaAddressSchema,
+  amount: amountSchema,
+  slippage: z.number().min(0).max(0.5).optional(),
+  // Reject the order when every route would move the pool price by more than this (0.05 = 5%)
+  maxPriceImpact: z.number().positive().max(1).optional(),
+  // Execute the route of a quote from GET /api/quote instead of routing again
+  quoteId: z.string().uuid().optional(),
+  userWallet: solanaAddressSchema.optional(),
+  orderType: z.enum(['MARKET', 'LIMIT', 'TWAP']).optional(),
+  // Minimum acceptable price (tokenOut per tokenIn, same units as Quote.price)
+  limitPrice: z.number().positive().optional(),
+  expiresAt: z.string().datetime().optional(),
+  // TWAP: amount is split into equal slices executed every interval
+  twapSlices: z.number().int().min(2).max(100).optional(),
+  twapIntervalSeconds: z.number().int().min(1).max(86400).optional(),
+  // Return the swap unsigned for userWallet to sign, instead of executing it with the engine's wallet
+  nonCustodial: z.boolean().optional(),
+}).refine(
+  (data) => data.tokenIn !== data.tokenOut,
+  { message: 'Token in and token out must be different', path: ['tokenOut'] }
+).refine(
+  (data) => data.orderType !== 'LIMIT' || data.limitPrice !== undefined,
+  { message: 'Limit orders require a limit price', path: ['limitPrice'] }
+).refine(
+  (data) => data.orderType !== 'TWAP' || (data.twapSlices !== undefined && data.twapIntervalSeconds !== undefined),
+  { message: 'TWAP orders require twapSlices and twapIntervalSeconds', path: ['twapSlices'] }
+).refine(
+  (data) => {
+    const amount = parseAmount(data.amount);
+    // Object refinements still run when a field failed; a malformed amount or count is reported there
+    if (!data.twapSlices || amount === null || !Number.isInteger(data.twapSlices)) {
+      return true;
+    }
+    return amount >= BigInt(data.twapSlices);
+  },
+  { message: 'Amount is too small to split into the requested slices', path: ['amount'] }
+).refine(
+  (data) => !data.expiresAt || new Date(data.expiresAt).getTime() > Date.now(),
+  { message: 'Expiry must be in the future', path: ['expiresAt'] }
+).refine(
+  (data) => !data.quoteId || (data.orderType ?? 'MARKET') === 'MARKET',
+  { message: 'Only market orders can execute a quote', path: ['quoteId'] }
+).refine(
+  (data) => !data.nonCustodial || data.userWallet !== undefined,
+  { message: 'Non-custodial orders require userWallet', path: ['userWallet'] }
+).refine(
+  (data) => !data.nonCustodial || data.orderType !== 'TWAP',
+  { message: 'TWAP orders cannot be non-custodial', path: ['nonCustodial'] }
+);
+
+export type ExecuteOrderInput = z.infer<typeof executeOrderSchema>;
+
+// Stop-loss / take-profit attachment schema
+export const protectiveOrderSchema = z.object({
+  type: z.enum(['STOP_LOSS', 'TAKE_PROFIT']),
+  // Trigger on the parent's price (tokenOut per tokenIn of the parent order)
+  triggerPrice: z.number().positive(),
+  // Amount of the parent's tokenOut to sell back; defaults to the full filled amount
   amount: z.string().refine(
     (val) => {
       try {
-        const num = BigInt(val);
-        return num > 0n;
+        return BigInt(val) > 0n;
       } catch {
         return false;
       }
     },
     { message: 'Amount must be a positive integer string' }
-  ),
+  ).optional(),
   slippage: z.number().min(0).max(0.5).optional(),
-  userWallet: solanaAddressSchema.optional(),
-}).refine(
-  (data) => data.tokenIn !== data.tokenOut,
-  { message: 'Token in and token out must be different', path: ['tokenOut'] }
-);
+});
 
-export type ExecuteOrderInput = z.infer<typeof executeOrderSchema>;
+export type ProtectiveOrderInput = z.infer<typeof protectiveOrderSchema>;
+
+// Wallet-signed swap of a non-custodial order, base64 wire format
+export const signedTransactionSchema = z.object({
+  transaction: z.string().min(1).max(4096),
+});
+
+// Wallet sign-in (/api/auth)
+export const signInChallengeSchema = z.object({
+  wallet: solanaAddressSchema,
+});
+
+export const signInSchema = z.object({
+  wallet: solanaAddressSchema,
+  nonce: z.string().regex(/^[0-9a-f]{32}$/, 'Invalid nonce'),
+  signature: z.string().min(1).max(128), // Base58 ed25519 signature of the challenge message
+});
 
 // WebSocket connection schema
 export const wsConnectionSchema = z.object({
   orderId: z.string().uuid(),
 });
 
+// Idempotency-Key header on POST /api/orders
+export const idempotencyHeaderSchema = z.object({
+  'idempotency-key': z
+    .string()
+    .min(1)
+    .max(255)
+    .regex(/^[\x21-\x7e]+$/, 'Must be printable ASCII without spaces')
+    .optional(),
+});
+
 // Query parameters schema
 export const orderQuerySchema = z.object({
   orderId: z.string().uuid().optional(),
   userWallet: solanaAddressSchema.optional(),
-  status: z.enum(['PENDING', 'ROUTING', 'BUILDING', 'SUBMITTED', 'CONFIRMED', 'FAILED']).optional(),
+  status: z.enum(['PENDING', 'ROUTING', 'BUILDING', 'SUBMITTED', 'CONFIRMED', 'FAILED', 'CANCELLED', 'RETRYING', 'EXPIRED']).optional(),
+  orderType: z.enum(['MARKET', 'LIMIT', 'TWAP']).optional(),
   limit: z.coerce.number().min(1).max(100).optional(),
   offset: z.coerce.number().min(0).optional(),
 });
 
 export type OrderQueryParams = z.infer<typeof orderQuerySchema>;
 
+// Dead-letter queue listing (query string)
+export const deadLetterQuerySchema = z.object({
+  limit: z.coerce.number().min(1).max(100).optional(),
+  offset: z.coerce.number().min(0).optional(),
+});
+
+// Replaying a dead-lettered order
+export const replayDeadLetterSchema = z.object({
+  slippage: z.number().min(0).max(0.5).optional(),
+});
+
+// Issuing an API key (/api/admin/api-keys)
+export const createApiKeySchema = z.object({
+  name: z.string().min(1).max(255),
+  scopes: z.array(z.enum(['QUOTE', 'TRADE', 'READ', 'ADMIN'])).min(1),
+  wallet: solanaAddressSchema.optional(), // Wallet the key places and reads orders for
+  rateLimit: z.number().int().min(1).max(100000).optional(), // Requests per window, RATE_LIMIT_MAX_REQUESTS by default
+}).refine(
+  (data) => data.wallet !== undefined || !data.scopes.some((scope) => scope === 'TRADE' || scope === 'READ'),
+  { message: 'Trade and read scopes require a wallet', path: ['wallet'] }
+);
+
+export const apiKeyParamsSchema = z.object({
+  id: z.string().uuid(),
+});
+
+// A wallet's own risk limits (/api/admin/risk-limits/:wallet); omitted or null limits keep the defaults
+export const walletRiskLimitsSchema = z.object({
+  maxOrderNotional: amountSchema.nullable().optional(),
+  maxDailyNotional: amountSchema.nullable().optional(),
+  maxOpenOrders: z.number().int().min(1).nullable().optional(),
+  maxSlippage: z.number().min(0).max(0.5).nullable().optional(),
+  allowedTokens: z.array(solanaAddressSchema).max(100).optional(),
+});
+
+export const walletParamsSchema = z.object({
+  wallet: solanaAddressSchema,
+});
+
+// Risk usage (/api/risk); wallet is only needed when signed out with AUTH_REQUIRED off
+export const riskQuerySchema = z.object({
+  wallet: solanaAddressSchema.optional(),
+});
+
+// Quote-only request schema (query string)
+export const quoteQuerySchema = z.object({
+  tokenIn: solanaAddressSchema,
+  tokenOut: solanaAddressSchema,
+  amount: amountSchema,
+  slippage: z.coerce.number().min(0).max(0.5).optional(),
+  maxPriceImpact: z.coerce.number().positive().max(1).optional(),
+}).refine(
+  (data) => data.tokenIn !== data.tokenOut,
+  { message: 'Token in and token out must be different', path: ['tokenOut'] }
+);
+
+export type QuoteQueryParams = z.infer<typeof quoteQuerySchema>;
+
 /**
  * Validates input and throws ValidationError if invalid
  */
@@ -0,0 +1,57 @@
+import { createPublicKey, verify } from 'crypto';
+import bs58 from 'bs58';
+import { PublicKey } from '@solana/web3.js';
+
+// DER header of an Ed25519 SubjectPublicKeyInfo; the 32-byte key follows it
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export interface SignInMessageFields {
+  domain: string;
+  wallet: string;
+  nonce: string;
+  issuedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Sign-In With Solana message for a wallet to sign
+ */
+export function buildSignInMessage({ domain, wallet, nonce, issuedAt, expiresAt }: SignInMessageFields): string {
+  return [
+    `${domain} wants you to sign in with your Solana account:`,
+    wallet,
+    '',
+    'Sign in to place and track your orders.',
+    '',
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt.toISOString()}`,
+    `Expiration Time: ${expiresAt.toISOString()}`,
+  ].join('\n');
+}
+
+/**
+ * Whether signature (base58) is wallet's ed25519 signature of message
+ */
+export function verifyWalletSignature(wallet: string, message: string, signature: string): boolean {
+  let signatureBytes: Uint8Array;
+  let walletKey: PublicKey;
+
+  try {
+    signatureBytes = bs58.decode(signature);
+    walletKey = new PublicKey(wallet);
+  } catch {
+    return false;
+  }
+
+  if (signatureBytes.length !== 64) {
+    return false;
+  }
+
+  const key = createPublicKey({
+    key: Buffer.concat([ED25519_SPKI_PREFIX, walletKey.toBuffer()]),
+    format: 'der',
+    type: 'spki',
+  });
+
+  return verify(null, Buffer.from(message, 'utf8'), key, signatureBytes);
+}
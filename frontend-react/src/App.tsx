@@ -63,7 +63,7 @@ function App() {
 
         // Only show completed orders in history
         const completedOrders = ordersWithDetails.filter(
-          o => o.status === 'CONFIRMED' || o.status === 'FAILED'
+          o => ['CONFIRMED', 'FAILED', 'CANCELLED', 'EXPIRED'].includes(o.status)
         );
         setOrderHistory(completedOrders);
       }
@@ -120,7 +120,7 @@ function App() {
             </h1>
           </div>
           <p className="text-purple-300 text-lg">
-            Real-time order execution with Raydium & Meteora
+            Real-time order execution with Raydium, Meteora & Orca
           </p>
         </header>
 
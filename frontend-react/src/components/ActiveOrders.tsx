@@ -73,8 +73,8 @@ export default function ActiveOrders({ orders, onOrderUpdate, onOrderComplete }:
           console.log(`[WS] Updating order ${orderId} with:`, updates);
           onOrderUpdate(orderId, updates);
 
-          // If completed or failed, move to history after a delay
-          if (message.status === 'CONFIRMED' || message.status === 'FAILED') {
+          // Once the order reaches a final status, move it to history after a delay
+          if (['CONFIRMED', 'FAILED', 'CANCELLED', 'EXPIRED'].includes(message.status)) {
             setTimeout(() => {
               console.log(`[WS] Moving order ${orderId} to history`);
               onOrderComplete(orderId);
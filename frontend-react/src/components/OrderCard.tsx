@@ -12,6 +12,9 @@ const statusConfig: Record<OrderStatus, { icon: any; color: string; bg: string;
   SUBMITTED: { icon: Loader, color: 'text-orange-400', bg: 'bg-orange-500/20', text: 'Submitted', progress: 70 },
   CONFIRMED: { icon: CheckCircle, color: 'text-green-400', bg: 'bg-green-500/20', text: 'Confirmed', progress: 100 },
   FAILED: { icon: XCircle, color: 'text-red-400', bg: 'bg-red-500/20', text: 'Failed', progress: 100 },
+  CANCELLED: { icon: XCircle, color: 'text-gray-400', bg: 'bg-gray-500/20', text: 'Cancelled', progress: 100 },
+  RETRYING: { icon: Loader, color: 'text-yellow-400', bg: 'bg-yellow-500/20', text: 'Retrying', progress: 20 },
+  EXPIRED: { icon: Clock, color: 'text-gray-400', bg: 'bg-gray-500/20', text: 'Expired', progress: 100 },
 };
 
 export default function OrderCard({ order }: OrderCardProps) {
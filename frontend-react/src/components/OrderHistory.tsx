@@ -14,6 +14,8 @@ export default function OrderHistory({ orders }: OrderHistoryProps) {
     const colors: Record<string, string> = {
       CONFIRMED: 'bg-green-500/20 text-green-400',
       FAILED: 'bg-red-500/20 text-red-400',
+      CANCELLED: 'bg-gray-500/20 text-gray-400',
+      EXPIRED: 'bg-gray-500/20 text-gray-400',
       PENDING: 'bg-yellow-500/20 text-yellow-400',
     };
     return colors[status] || 'bg-gray-500/20 text-gray-400';
@@ -1,5 +1,5 @@
-export type OrderStatus = 'PENDING' | 'ROUTING' | 'BUILDING' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED';
-export type DexType = 'RAYDIUM' | 'METEORA';
+export type OrderStatus = 'PENDING' | 'ROUTING' | 'BUILDING' | 'SUBMITTED' | 'CONFIRMED' | 'FAILED' | 'CANCELLED' | 'RETRYING' | 'EXPIRED';
+export type DexType = 'RAYDIUM' | 'METEORA' | 'ORCA';
 
 export interface Order {
   orderId: string;
@@ -39,6 +39,8 @@ export interface WebSocketMessage {
     dex?: DexType;
     estimatedPrice?: number;
     estimatedOutput?: string;
+    minAmountOut?: string;
+    priceImpact?: number;
     executedPrice?: number;
     executedAmount?: string;
     signature?: string;